@@ -0,0 +1,21 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { parseAuthority, getSubAccountsForAuthority } from "../../server/account-service";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authority = String(req.query.authority ?? "");
+  const authorityKey = parseAuthority(authority);
+  if (!authorityKey) {
+    return res.status(400).json({ message: "Invalid authority address." });
+  }
+  try {
+    const accounts = await getSubAccountsForAuthority(authorityKey);
+    res.json({ authority, accounts });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    if (msg.includes("SOLANA_KEYPAIR_PATH") || msg.includes("WALLET_PRIVATE_KEY")) {
+      return res.status(503).json({ message: "Sub-account discovery unavailable: Drift SDK not configured." });
+    }
+    console.error("Sub-account discovery error:", err);
+    res.status(500).json({ message: "Failed to load sub-accounts." });
+  }
+}
@@ -0,0 +1,53 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { api } from "../../shared/routes";
+import { getStrategyByWallet } from "../../server/data";
+import { isValidWalletAddress } from "../../server/funding-archive";
+import { resolveStrategyQuery, getStrategyForWallet } from "../../server/strategy-service";
+import {
+  renderPnlCard,
+  getCardPeriodLabel,
+  CARD_CACHE_CONTROL,
+  MOCK_WALLET_LABEL,
+} from "../../server/pnl-card";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const walletSubkey = String(req.query.walletSubkey ?? "");
+  if (walletSubkey !== "main-account" && !isValidWalletAddress(walletSubkey)) {
+    return res.status(400).json({ message: "Invalid wallet address." });
+  }
+
+  const query = api.cards.getByWallet.query.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: "Invalid query parameters." });
+  }
+  const resolved = resolveStrategyQuery(query.data);
+  if ("error" in resolved) {
+    return res.status(400).json({ message: resolved.error });
+  }
+
+  try {
+    const strategy =
+      walletSubkey === "main-account"
+        ? getStrategyByWallet(walletSubkey)
+        : await getStrategyForWallet(walletSubkey, resolved);
+    if (!strategy) {
+      return res.status(404).json({ message: "No funding payment records found for this address." });
+    }
+
+    const card = renderPnlCard(
+      strategy,
+      {
+        wallet: walletSubkey === "main-account" ? MOCK_WALLET_LABEL : walletSubkey,
+        period: getCardPeriodLabel(resolved, query.data.from !== undefined || query.data.to !== undefined),
+        timeZone: resolved.timeZone,
+      },
+      query.data.format ?? "svg"
+    );
+    res.setHeader("Content-Type", card.contentType);
+    res.setHeader("Cache-Control", CARD_CACHE_CONTROL);
+    res.send(card.body);
+  } catch (error) {
+    console.error("Error rendering PnL card:", error);
+    res.status(500).json({ message: "Failed to fetch data from Drift API." });
+  }
+}
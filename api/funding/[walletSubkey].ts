@@ -0,0 +1,27 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { api } from "../../shared/routes";
+import { getFundingHistory, isValidWalletAddress } from "../../server/funding-archive";
+import { parseRangeParams } from "../../server/range-params";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const walletSubkey = String(req.query.walletSubkey ?? "");
+  if (!isValidWalletAddress(walletSubkey)) {
+    return res.status(400).json({ message: "Invalid wallet address." });
+  }
+  const query = api.funding.getHistory.query.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: "Invalid query parameters." });
+  }
+  const parsed = parseRangeParams(query.data.from, query.data.to);
+  if ("error" in parsed) {
+    return res.status(400).json({ message: parsed.error });
+  }
+
+  try {
+    const records = await getFundingHistory(walletSubkey, parsed.range);
+    res.json({ walletSubkey, from: parsed.range.fromTs, to: parsed.range.toTs, records });
+  } catch (error) {
+    console.error("Error loading funding history:", error);
+    res.status(500).json({ message: "Failed to fetch data from Drift API." });
+  }
+}
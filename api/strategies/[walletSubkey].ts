@@ -1,7 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { api } from "../../shared/routes";
 import { getStrategyByWallet } from "../../server/data";
-import { fetchAllRecentFundingPayments } from "../../server/drift-service";
-import { transformDriftDataToStrategy } from "../../server/drift-transformer";
+import { isValidWalletAddress } from "../../server/funding-archive";
+import { resolveStrategyQuery, getStrategyForWallet } from "../../server/strategy-service";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const walletSubkey = String(req.query.walletSubkey ?? "");
@@ -11,12 +12,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (strategy) return res.json(strategy);
   }
 
+  if (!isValidWalletAddress(walletSubkey)) {
+    return res.status(400).json({ message: "Invalid wallet address." });
+  }
+
+  const query = api.strategies.getByWallet.query.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: "Invalid query parameters." });
+  }
+  const resolved = resolveStrategyQuery(query.data);
+  if ("error" in resolved) {
+    return res.status(400).json({ message: resolved.error });
+  }
+
   try {
-    const records = await fetchAllRecentFundingPayments(walletSubkey, 10);
-    if (records.length === 0) {
+    const strategy = await getStrategyForWallet(walletSubkey, resolved);
+    if (!strategy) {
       return res.status(404).json({ message: "No funding payment records found for this address." });
     }
-    const strategy = transformDriftDataToStrategy(walletSubkey, records);
     res.json(strategy);
   } catch (error) {
     console.error("Error fetching Drift data:", error);
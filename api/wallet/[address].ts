@@ -0,0 +1,28 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import fs from "fs";
+import path from "path";
+import { isValidWalletAddress } from "../../server/funding-archive";
+import { getPublicOrigin, injectCardMeta, CARD_CACHE_CONTROL } from "../../server/pnl-card";
+
+// Built index.html, bundled with the function through vercel.json includeFiles
+const INDEX_HTML = path.join(process.cwd(), "dist", "index.html");
+
+/**
+ * /wallet/:address deep links: the built index.html with og:image tags for link previews
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const address = String(req.query.address ?? "");
+  const origin = getPublicOrigin();
+
+  try {
+    const html = await fs.promises.readFile(INDEX_HTML, "utf-8");
+    const search = new URLSearchParams(req.url?.split("?")[1] ?? "");
+    search.delete("address");
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.setHeader("Cache-Control", CARD_CACHE_CONTROL);
+    res.send(origin && isValidWalletAddress(address) ? injectCardMeta(html, origin, address, search) : html);
+  } catch (error) {
+    console.error("Error serving wallet page:", error);
+    res.status(500).json({ message: "Failed to load the dashboard." });
+  }
+}
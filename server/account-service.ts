@@ -0,0 +1,42 @@
+/**
+ * Sub-account discovery: enumerate the Drift user accounts owned by an authority.
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import { decodeName, getUserAccountPublicKeySync } from "@drift-labs/sdk";
+import type { DriftSubAccount } from "../shared/drift-types";
+import { withDriftClient } from "./drift-client";
+
+/**
+ * Parse an authority pubkey, or null if it is not a valid base58 key.
+ */
+export function parseAuthority(authority: string): PublicKey | null {
+  try {
+    return new PublicKey(authority);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * All user accounts for an authority, ordered by subAccountId.
+ * Returns [] when the authority has no Drift accounts.
+ */
+export async function getSubAccountsForAuthority(
+  authority: PublicKey
+): Promise<DriftSubAccount[]> {
+  return withDriftClient(async (client) => {
+    const userAccounts = await client.getUserAccountsForAuthority(authority);
+    return userAccounts
+      .map((account) => ({
+        address: getUserAccountPublicKeySync(
+          client.program.programId,
+          authority,
+          account.subAccountId
+        ).toBase58(),
+        subAccountId: account.subAccountId,
+        name: decodeName(account.name),
+      }))
+      .sort((a, b) => a.subAccountId - b.subAccountId);
+  });
+}
@@ -0,0 +1,225 @@
+/**
+ * Server-side alert engine: user-defined rules (shared/alerts.ts) evaluated against
+ * getAllPerpFundingRates / getDeltaNeutralAPYs on a schedule. Rules, per-market rule state
+ * and alert history persist in one JSON file under ALERTS_DIR; events go to the sinks.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  alertRuleInputSchema,
+  evaluateRule,
+  getMetricRows,
+  type AlertEvent,
+  type AlertRule,
+  type AlertRuleInput,
+  type AlertRuleState,
+  type AlertSnapshot,
+  type AlertSource,
+} from "../shared/alerts";
+import { getAllPerpFundingRates, getDeltaNeutralAPYs } from "./funding-rate-service";
+import { getConfiguredSinks, type AlertSink } from "./alert-sinks";
+
+const ALERTS_DIR = process.env.ALERTS_DIR ?? path.resolve(process.cwd(), ".data", "alerts");
+const STORE_FILE = path.join(ALERTS_DIR, "alerts.json");
+const DEFAULT_EVENT_FILE = path.join(ALERTS_DIR, "events.jsonl");
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_RULES = 100;
+const MAX_HISTORY = 1000;
+
+interface RuleRuntime {
+  lastEvaluatedAt: number;      // Unix seconds
+  markets: AlertRuleState;
+}
+
+interface AlertStore {
+  rules: AlertRule[];
+  state: Record<string, RuleRuntime>;  // By rule id
+  history: AlertEvent[];               // Oldest first, capped at MAX_HISTORY
+}
+
+let store: AlertStore | null = null;
+let storeLock: Promise<unknown> = Promise.resolve();
+let sinks: AlertSink[] | null = null;
+let intervalMs = DEFAULT_INTERVAL_MS;
+
+async function loadStore(): Promise<AlertStore> {
+  if (store) return store;
+  let loaded: AlertStore = { rules: [], state: {}, history: [] };
+  try {
+    loaded = JSON.parse(await fs.readFile(STORE_FILE, "utf8")) as AlertStore;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn("[alerts] Failed to read alert store:", err);
+    }
+  }
+  store = loaded;
+  return loaded;
+}
+
+async function saveStore(data: AlertStore): Promise<void> {
+  const tmp = `${STORE_FILE}.tmp`;
+  await fs.mkdir(ALERTS_DIR, { recursive: true });
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, STORE_FILE);
+}
+
+/** Serialize store access so the scheduler and API requests don't clobber the file. */
+function withStore<T>(fn: (data: AlertStore) => Promise<T>): Promise<T> {
+  const next = storeLock.catch(() => undefined).then(async () => fn(await loadStore()));
+  storeLock = next;
+  return next;
+}
+
+export function listAlertRules(): Promise<AlertRule[]> {
+  return withStore(async (data) => data.rules);
+}
+
+export function createAlertRule(input: AlertRuleInput): Promise<AlertRule | { error: string }> {
+  return withStore(async (data) => {
+    if (data.rules.length >= MAX_RULES) return { error: `At most ${MAX_RULES} alert rules.` };
+    const rule: AlertRule = { ...input, id: randomUUID(), createdAt: Math.floor(Date.now() / 1000) };
+    data.rules.push(rule);
+    await saveStore(data);
+    return rule;
+  });
+}
+
+/**
+ * Apply a partial update. Returns null for an unknown id; any change restarts the rule's state.
+ */
+export function updateAlertRule(
+  id: string,
+  patch: Partial<AlertRuleInput>
+): Promise<AlertRule | null | { error: string }> {
+  return withStore(async (data) => {
+    const index = data.rules.findIndex((r) => r.id === id);
+    if (index === -1) return null;
+    // The schema drops id/createdAt, which are carried over as-is
+    const parsed = alertRuleInputSchema.safeParse({ ...data.rules[index], ...patch });
+    if (!parsed.success) return { error: parsed.error.issues[0]?.message ?? "Invalid alert rule." };
+    const rule: AlertRule = { ...parsed.data, id, createdAt: data.rules[index].createdAt };
+    data.rules[index] = rule;
+    delete data.state[id];
+    await saveStore(data);
+    return rule;
+  });
+}
+
+export function deleteAlertRule(id: string): Promise<boolean> {
+  return withStore(async (data) => {
+    const count = data.rules.length;
+    data.rules = data.rules.filter((r) => r.id !== id);
+    if (data.rules.length === count) return false;
+    delete data.state[id];
+    await saveStore(data);
+    return true;
+  });
+}
+
+/**
+ * Alert events, newest first
+ */
+export function getAlertHistory(options: { limit?: number; ruleId?: string } = {}): Promise<AlertEvent[]> {
+  return withStore(async (data) =>
+    data.history
+      .filter((e) => !options.ruleId || e.ruleId === options.ruleId)
+      .slice(-(options.limit ?? 100))
+      .reverse()
+  );
+}
+
+/** Fetch only the sources enabled rules watch; a failed source is left out of the snapshot. */
+async function fetchSnapshot(sources: Set<AlertSource>): Promise<AlertSnapshot> {
+  const [fundingRates, deltaNeutral] = await Promise.allSettled([
+    sources.has("funding-rates") ? getAllPerpFundingRates() : Promise.resolve(undefined),
+    sources.has("delta-neutral") ? getDeltaNeutralAPYs() : Promise.resolve(undefined),
+  ]);
+  for (const result of [fundingRates, deltaNeutral]) {
+    if (result.status === "rejected") console.warn("[alerts] Failed to fetch rates:", result.reason);
+  }
+  return {
+    fundingRates: fundingRates.status === "fulfilled" ? fundingRates.value : undefined,
+    deltaNeutral: deltaNeutral.status === "fulfilled" ? deltaNeutral.value : undefined,
+  };
+}
+
+async function deliver(event: AlertEvent): Promise<AlertEvent> {
+  sinks ??= getConfiguredSinks(DEFAULT_EVENT_FILE);
+  const deliveries = await Promise.all(
+    sinks.map(async (sink) => {
+      try {
+        await sink.deliver(event);
+        return { sink: sink.name, ok: true };
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        console.warn(`[alerts] ${sink.name} sink failed:`, error);
+        return { sink: sink.name, ok: false, error };
+      }
+    })
+  );
+  return { ...event, deliveries };
+}
+
+/**
+ * Evaluate every enabled rule once, deliver and record the resulting events.
+ * Rules whose source couldn't be fetched keep their state for the next run; after a gap
+ * of more than three intervals (e.g. a restart) unfired streaks start over.
+ */
+export function evaluateAlerts(now = Math.floor(Date.now() / 1000)): Promise<AlertEvent[]> {
+  return withStore(async (data) => {
+    const rules = data.rules.filter((r) => r.enabled);
+    if (rules.length === 0) return [];
+
+    const snapshot = await fetchSnapshot(new Set(rules.map((r) => r.source)));
+    const maxGap = (3 * intervalMs) / 1000;
+    const events: AlertEvent[] = [];
+
+    for (const rule of rules) {
+      const rows = getMetricRows(rule.source, snapshot);
+      if (!rows) continue;
+      const runtime = data.state[rule.id];
+      const markets =
+        runtime && now - runtime.lastEvaluatedAt > maxGap
+          ? Object.fromEntries(Object.entries(runtime.markets).filter(([, m]) => m.firedAt !== null))
+          : runtime?.markets ?? {};
+      const result = evaluateRule(rule, rows, markets, now);
+      data.state[rule.id] = { lastEvaluatedAt: now, markets: result.state };
+      for (const event of result.events) {
+        events.push(await deliver({ ...event, id: randomUUID() }));
+      }
+    }
+
+    data.history = [...data.history, ...events].slice(-MAX_HISTORY);
+    await saveStore(data);
+    return events;
+  });
+}
+
+/**
+ * Evaluate on a fixed interval (ALERT_INTERVAL_MS, default 5 minutes). Returns a stop function.
+ */
+export function startAlertEngine(options: { sinks?: AlertSink[]; intervalMs?: number } = {}): () => void {
+  sinks = options.sinks ?? getConfiguredSinks(DEFAULT_EVENT_FILE);
+  intervalMs =
+    options.intervalMs ?? (parseInt(process.env.ALERT_INTERVAL_MS ?? "", 10) || DEFAULT_INTERVAL_MS);
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await evaluateAlerts();
+    } catch (err) {
+      console.error("[alerts] Evaluation failed:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,80 @@
+/**
+ * Where alert events go. ALERT_SINKS picks the built-in sinks (comma-separated,
+ * default "console"): console, file (JSON lines at ALERT_FILE) and webhook (POST to
+ * ALERT_WEBHOOK_URL). Other sinks can be passed to startAlertEngine.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import type { AlertEvent } from "../shared/alerts";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export interface AlertSink {
+  name: string;
+  deliver(event: AlertEvent): Promise<void>;
+}
+
+export function consoleSink(): AlertSink {
+  return {
+    name: "console",
+    async deliver(event) {
+      const line = `[alerts] ${event.type === "triggered" ? "ALERT" : "resolved"} ${event.message}`;
+      if (event.type === "triggered") console.warn(line);
+      else console.log(line);
+    },
+  };
+}
+
+/** Appends one JSON object per line, so the file can be tailed or replayed in tests */
+export function fileSink(file: string): AlertSink {
+  return {
+    name: "file",
+    async deliver(event) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, JSON.stringify(event) + "\n");
+    },
+  };
+}
+
+/** POSTs the event as JSON; `text` carries the message for Slack-style incoming webhooks */
+export function webhookSink(url: string): AlertSink {
+  return {
+    name: "webhook",
+    async deliver(event) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: event.message, event }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+    },
+  };
+}
+
+/**
+ * Sinks named in ALERT_SINKS; unknown names and a webhook without a URL are skipped with a warning
+ */
+export function getConfiguredSinks(defaultFile: string): AlertSink[] {
+  const names = (process.env.ALERT_SINKS ?? "console")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+
+  const sinks: AlertSink[] = [];
+  for (const name of new Set(names)) {
+    if (name === "console") {
+      sinks.push(consoleSink());
+    } else if (name === "file") {
+      sinks.push(fileSink(process.env.ALERT_FILE ?? defaultFile));
+    } else if (name === "webhook") {
+      const url = process.env.ALERT_WEBHOOK_URL;
+      if (url) sinks.push(webhookSink(url));
+      else console.warn("[alerts] ALERT_SINKS includes webhook but ALERT_WEBHOOK_URL is not set");
+    } else {
+      console.warn(`[alerts] Unknown alert sink "${name}"`);
+    }
+  }
+  return sinks;
+}
@@ -15,6 +15,7 @@ import {
 import type { SpotMarketConfig } from "@drift-labs/sdk";
 import path from "path";
 import fs from "fs";
+import { PERP_BASE_TO_SPOT_SYMBOL } from "../shared/perp-spot-mapping";
 
 const ENV = "mainnet-beta" as const;
 const DEFAULT_RPC = "https://api.mainnet-beta.solana.com";
@@ -136,15 +137,6 @@ export async function withDriftClient<T>(
 
 // --- Perp → Spot mapping (special cases from docs) ---
 
-const PERP_BASE_TO_SPOT_SYMBOL: Record<string, string> = {
-  "1MBONK": "BONK",
-  "1MPEPE": "PEPE",
-  "1KWEN": "WEN",
-  "1KMEW": "MEW",
-  BTC: "wBTC",
-  ETH: "wETH",
-};
-
 const SPOT_BY_SYMBOL = new Map<string, SpotMarketConfig>(
   MainnetSpotMarkets.map((s) => [s.symbol, s]),
 );
@@ -1,23 +1,160 @@
 /**
  * Minimal server-side Drift API client for strategies route.
- * Fetches funding payments from the public Drift Data API.
+ * Fetches funding payments and market candles from the public Drift Data API.
  */
 
-import type { DriftFundingPaymentRecord, DriftFundingPaymentsResponse } from "../shared/drift-types";
+import type {
+  DriftFundingPaymentRecord,
+  DriftFundingPaymentsResponse,
+  DailyCandleRecord,
+  DailyCandlesResponse,
+  DriftDepositRecord,
+  DriftTradeRecord,
+} from "../shared/drift-types";
+import { fetchCandleWindow, getCandleWindowUrl, type CandleResolution } from "../shared/candles";
 
 export type { DriftFundingPaymentRecord };
 
 const DRIFT_API_BASE = "https://data.api.drift.trade";
 
+async function getJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Drift API error: ${res.status} ${res.statusText}`);
+  }
+  return res.json() as Promise<T>;
+}
+
 export async function fetchAllRecentFundingPayments(
   userAddress: string,
   limit: number
 ): Promise<DriftFundingPaymentRecord[]> {
   const url = `${DRIFT_API_BASE}/user/${userAddress}/fundingPayments?limit=${limit}`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`Drift API error: ${res.status} ${res.statusText}`);
-  }
-  const data: DriftFundingPaymentsResponse = await res.json();
+  const data = await getJson<DriftFundingPaymentsResponse>(url);
   return data.records ?? [];
 }
+
+/**
+ * Fetch every funding payment for a calendar month (UTC), following
+ * meta.nextPage until the month is exhausted.
+ */
+export async function fetchFundingPaymentsByMonth(
+  userAddress: string,
+  year: number,
+  month: number
+): Promise<DriftFundingPaymentRecord[]> {
+  const baseUrl = `${DRIFT_API_BASE}/user/${userAddress}/fundingPayments/${year}/${month}`;
+  const records: DriftFundingPaymentRecord[] = [];
+  let nextPage: string | undefined;
+  do {
+    const url = nextPage ? `${baseUrl}?page=${encodeURIComponent(nextPage)}` : baseUrl;
+    const data = await getJson<DriftFundingPaymentsResponse>(url);
+    records.push(...(data.records ?? []));
+    nextPage = data.meta?.nextPage;
+  } while (nextPage);
+  return records;
+}
+
+/** Records from a paged endpoint; isComplete is false when maxPages ran out first */
+export interface PagedRecords<T> {
+  records: T[];
+  isComplete: boolean;
+}
+
+async function fetchPages<T>(
+  baseUrl: string,
+  maxPages: number
+): Promise<PagedRecords<T>> {
+  const records: T[] = [];
+  let nextPage: string | undefined;
+  let pages = 0;
+  do {
+    const url = nextPage ? `${baseUrl}?page=${encodeURIComponent(nextPage)}` : baseUrl;
+    const data = await getJson<{ records?: T[]; meta?: { nextPage?: string } }>(url);
+    records.push(...(data.records ?? []));
+    nextPage = data.meta?.nextPage;
+  } while (nextPage && ++pages < maxPages);
+  return { records, isComplete: !nextPage };
+}
+
+/**
+ * Fetch a user's deposit/withdrawal history, following meta.nextPage for up to maxPages.
+ */
+export function fetchAllDepositRecords(
+  userAddress: string,
+  maxPages: number
+): Promise<PagedRecords<DriftDepositRecord>> {
+  return fetchPages<DriftDepositRecord>(`${DRIFT_API_BASE}/user/${userAddress}/deposits`, maxPages);
+}
+
+/**
+ * Fetch a user's trade/fill history, following meta.nextPage for up to maxPages.
+ */
+export function fetchAllTradeRecords(
+  userAddress: string,
+  maxPages: number
+): Promise<PagedRecords<DriftTradeRecord>> {
+  return fetchPages<DriftTradeRecord>(`${DRIFT_API_BASE}/user/${userAddress}/trades`, maxPages);
+}
+
+function toPerpSymbol(symbol: string): string {
+  return symbol.endsWith("-PERP") ? symbol : `${symbol}-PERP`;
+}
+
+/**
+ * Fetch candles for a market. resolution: "1" (minute), "60" (hour) or "D" (day).
+ * Returns [] on failure so a single market can't fail the whole strategy.
+ */
+export async function fetchCandles(
+  marketSymbol: string,
+  resolution: "1" | "60" | "D",
+  limit: number
+): Promise<DailyCandleRecord[]> {
+  const url = `${DRIFT_API_BASE}/market/${toPerpSymbol(marketSymbol)}/candles/${resolution}?limit=${limit}`;
+  try {
+    const data = await getJson<DailyCandlesResponse>(url);
+    return data.success && Array.isArray(data.records) ? data.records : [];
+  } catch (error) {
+    console.warn(`Failed to fetch ${resolution} candles for ${marketSymbol}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Candles covering [fromTs, toTs], paged back from toTs; isComplete is false when part of the
+ * window couldn't be fetched (request failure or the page cap).
+ */
+export function fetchCandlesInRange(
+  marketSymbol: string,
+  resolution: CandleResolution,
+  fromTs: number,
+  toTs: number
+): Promise<PagedRecords<DailyCandleRecord>> {
+  const perpSymbol = toPerpSymbol(marketSymbol);
+  return fetchCandleWindow(
+    async (startTs, endTs) => {
+      const data = await getJson<DailyCandlesResponse>(
+        getCandleWindowUrl(DRIFT_API_BASE, perpSymbol, resolution, startTs, endTs)
+      );
+      return data.success && Array.isArray(data.records) ? data.records : [];
+    },
+    fromTs,
+    toTs
+  );
+}
+
+/**
+ * Current prices (latest 1-minute candle oracleClose) for several markets.
+ * Markets without a price are omitted from the map.
+ */
+export async function fetchMarketPrices(symbols: string[]): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+  const results = await Promise.all(
+    symbols.map(async (symbol) => ({ symbol, candles: await fetchCandles(symbol, "1", 1) }))
+  );
+  for (const { symbol, candles } of results) {
+    const price = candles[0]?.oracleClose;
+    if (typeof price === "number") prices.set(symbol, price);
+  }
+  return prices;
+}
@@ -0,0 +1,237 @@
+/**
+ * File-backed archive of funding payment records, one JSON file per wallet.
+ * Records are deduplicated on txSig/txSigIndex and months fetched from the
+ * Drift Data API are tracked so historical months are only fetched once.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { PublicKey } from "@solana/web3.js";
+import type { DriftFundingPaymentRecord } from "../shared/drift-types";
+import { fetchFundingPaymentsByMonth } from "./drift-service";
+
+const ARCHIVE_DIR =
+  process.env.FUNDING_ARCHIVE_DIR ?? path.resolve(process.cwd(), ".data", "funding-archive");
+const CURRENT_MONTH_REFRESH_MS = 5 * 60 * 1000; // 5 minutes
+const MONTH_FETCH_BATCH_SIZE = 3;
+/** Drift v2 launch (2022-11-01 UTC); there are no funding payments to fetch before it */
+export const ARCHIVE_START_TS = 1667260800;
+
+interface ArchivedMonth {
+  fetchedAt: number;
+  isComplete: boolean; // false for the current month (may have more data coming)
+}
+
+interface WalletArchive {
+  wallet: string;
+  records: DriftFundingPaymentRecord[];
+  months: Record<string, ArchivedMonth>; // "YYYY-MM" → fetch state
+}
+
+export interface ArchiveRange {
+  fromTs: number; // unix seconds, inclusive
+  toTs: number; // unix seconds, inclusive
+}
+
+export interface ArchiveStats {
+  wallet: string;
+  recordCount: number;
+  oldestTs: number | null;
+  newestTs: number | null;
+  archivedMonths: string[];
+}
+
+const archives = new Map<string, WalletArchive>();
+const walletLocks = new Map<string, Promise<unknown>>();
+
+function recordKey(r: DriftFundingPaymentRecord): string {
+  return `${r.txSig}-${r.txSigIndex}`;
+}
+
+function monthKey(year: number, month: number): string {
+  return `${year}-${month.toString().padStart(2, "0")}`;
+}
+
+/**
+ * True for a canonical base58 pubkey (32 bytes). Routes reject anything else with a 400
+ * before it can create an archive file or reach the Drift Data API.
+ */
+export function isValidWalletAddress(wallet: string): boolean {
+  try {
+    return new PublicKey(wallet).toBase58() === wallet;
+  } catch {
+    return false;
+  }
+}
+
+function archivePath(wallet: string): string {
+  // Wallets are base58 pubkeys; strip anything else so the key can't escape ARCHIVE_DIR
+  const safe = wallet.replace(/[^A-Za-z0-9_-]/g, "");
+  return path.join(ARCHIVE_DIR, `${safe}.json`);
+}
+
+/** Serialize all archive work for a wallet so concurrent requests don't clobber the file. */
+function withWalletLock<T>(wallet: string, fn: () => Promise<T>): Promise<T> {
+  const previous = walletLocks.get(wallet) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  walletLocks.set(wallet, next);
+  return next.finally(() => {
+    if (walletLocks.get(wallet) === next) walletLocks.delete(wallet);
+  });
+}
+
+async function loadArchive(wallet: string): Promise<WalletArchive> {
+  const cached = archives.get(wallet);
+  if (cached) return cached;
+  let archive: WalletArchive = { wallet, records: [], months: {} };
+  try {
+    const raw = await fs.readFile(archivePath(wallet), "utf8");
+    archive = JSON.parse(raw) as WalletArchive;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`[funding-archive] Failed to read archive for ${wallet}:`, err);
+    }
+  }
+  archives.set(wallet, archive);
+  return archive;
+}
+
+async function saveArchive(archive: WalletArchive): Promise<void> {
+  const file = archivePath(archive.wallet);
+  const tmp = `${file}.tmp`;
+  await fs.mkdir(ARCHIVE_DIR, { recursive: true });
+  await fs.writeFile(tmp, JSON.stringify(archive));
+  await fs.rename(tmp, file);
+}
+
+function mergeRecords(archive: WalletArchive, records: DriftFundingPaymentRecord[]): number {
+  const seen = new Set(archive.records.map(recordKey));
+  let added = 0;
+  for (const r of records) {
+    const key = recordKey(r);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    archive.records.push(r);
+    added++;
+  }
+  if (added > 0) archive.records.sort((a, b) => b.ts - a.ts);
+  return added;
+}
+
+/**
+ * Add records to a wallet's archive. Returns the number of new (non-duplicate) records.
+ */
+export function ingestRecords(
+  wallet: string,
+  records: DriftFundingPaymentRecord[]
+): Promise<number> {
+  if (records.length === 0) return Promise.resolve(0);
+  return withWalletLock(wallet, async () => {
+    const archive = await loadArchive(wallet);
+    const added = mergeRecords(archive, records);
+    if (added > 0) await saveArchive(archive);
+    return added;
+  });
+}
+
+/**
+ * Calendar months (UTC) that overlap a range, oldest first. Starts no earlier than ARCHIVE_START_TS.
+ */
+export function getUtcMonthsInRange({ fromTs, toTs }: ArchiveRange): { year: number; month: number }[] {
+  const months: { year: number; month: number }[] = [];
+  const start = new Date(Math.max(fromTs, ARCHIVE_START_TS) * 1000);
+  const end = new Date(toTs * 1000);
+  let year = start.getUTCFullYear();
+  let month = start.getUTCMonth() + 1;
+  while (year < end.getUTCFullYear() || (year === end.getUTCFullYear() && month <= end.getUTCMonth() + 1)) {
+    months.push({ year, month });
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+function isCurrentUtcMonth(year: number, month: number): boolean {
+  const now = new Date();
+  return now.getUTCFullYear() === year && now.getUTCMonth() + 1 === month;
+}
+
+function needsFetch(entry: ArchivedMonth | undefined): boolean {
+  if (!entry) return true;
+  if (entry.isComplete) return false; // Historical months never need refresh
+  return Date.now() - entry.fetchedAt > CURRENT_MONTH_REFRESH_MS;
+}
+
+/**
+ * Make sure every month overlapping the range is in the archive, fetching
+ * missing (or stale current) months from the Drift Data API.
+ * Returns the number of months fetched.
+ */
+export function syncArchiveRange(wallet: string, range: ArchiveRange): Promise<number> {
+  if (!isValidWalletAddress(wallet)) {
+    return Promise.reject(new Error(`Invalid wallet address: ${wallet}`));
+  }
+  return withWalletLock(wallet, async () => {
+    const archive = await loadArchive(wallet);
+    const toFetch = getUtcMonthsInRange(range).filter(
+      ({ year, month }) => needsFetch(archive.months[monthKey(year, month)])
+    );
+    if (toFetch.length === 0) return 0;
+
+    for (let i = 0; i < toFetch.length; i += MONTH_FETCH_BATCH_SIZE) {
+      const batch = toFetch.slice(i, i + MONTH_FETCH_BATCH_SIZE);
+      const results = await Promise.all(
+        batch.map(({ year, month }) => fetchFundingPaymentsByMonth(wallet, year, month))
+      );
+      results.forEach((records, idx) => {
+        const { year, month } = batch[idx];
+        mergeRecords(archive, records);
+        archive.months[monthKey(year, month)] = {
+          fetchedAt: Date.now(),
+          isComplete: !isCurrentUtcMonth(year, month),
+        };
+      });
+    }
+    await saveArchive(archive);
+    return toFetch.length;
+  });
+}
+
+/**
+ * Archived records within a range (newest first). Does not fetch; call
+ * syncArchiveRange first to fill gaps.
+ */
+export async function getArchivedRecords(
+  wallet: string,
+  range?: ArchiveRange
+): Promise<DriftFundingPaymentRecord[]> {
+  const archive = await loadArchive(wallet);
+  if (!range) return [...archive.records];
+  return archive.records.filter((r) => r.ts >= range.fromTs && r.ts <= range.toTs);
+}
+
+/**
+ * Sync then read: the one-call path used by the HTTP routes.
+ */
+export async function getFundingHistory(
+  wallet: string,
+  range: ArchiveRange
+): Promise<DriftFundingPaymentRecord[]> {
+  await syncArchiveRange(wallet, range);
+  return getArchivedRecords(wallet, range);
+}
+
+export async function getArchiveStats(wallet: string): Promise<ArchiveStats> {
+  const archive = await loadArchive(wallet);
+  const { records } = archive;
+  return {
+    wallet,
+    recordCount: records.length,
+    newestTs: records.length > 0 ? records[0].ts : null,
+    oldestTs: records.length > 0 ? records[records.length - 1].ts : null,
+    archivedMonths: Object.keys(archive.months).sort(),
+  };
+}
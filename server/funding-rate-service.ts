@@ -9,11 +9,31 @@ import {
   calculateDepositRate,
   calculateBorrowRate,
   calculateFormattedLiveFundingRate,
+  calculateAllEstimatedFundingRate,
+  calculateMarketOpenBidAsk,
+  convertToNumber,
+  BASE_PRECISION,
+  FUNDING_RATE_OFFSET_DENOMINATOR,
+  FUNDING_RATE_PRECISION,
+  PRICE_PRECISION,
+  QUOTE_PRECISION,
+  type MMOraclePriceData,
+  type OraclePriceData,
+  type PerpMarketAccount,
 } from "@drift-labs/sdk";
 import { withDriftClient, resolveSpotMarketForPerp } from "./drift-client";
-import type { FundingRateRow, DeltaNeutralRow, PerpWithoutSpotRow, SpotRatesRow } from "../shared/yield-types";
+import type {
+  FundingBreakdown,
+  FundingRateRow,
+  DeltaNeutralRow,
+  PerpLiquidity,
+  PerpWithoutSpotRow,
+  SpotRatesRow,
+} from "../shared/yield-types";
 
 const SPOT_RATE_SCALE = 1e6;
+/** Price move the AMM depth estimate is measured over */
+const DEPTH_PRICE_MOVE = 0.01;
 
 /**
  * Simple in-memory TTL cache. DriftClient polls every ~1s, so a 5s cache
@@ -32,6 +52,85 @@ function setCache<T>(key: string, data: T): void {
   cache.set(key, { data, ts: Date.now() });
 }
 
+/**
+ * Open interest, 24h volume and AMM depth from the market account. The AMM price goes
+ * with (quote reserve / base reserve)², so a 1% move takes base·(1 − 1/√1.01) on the ask
+ * side and base·(√(1/0.99) − 1) on the bid side, capped by what the reserves can still fill.
+ */
+function getPerpLiquidity(perpMarket: PerpMarketAccount, oracleData: OraclePriceData): PerpLiquidity {
+  const { amm } = perpMarket;
+  const price = convertToNumber(oracleData.price, PRICE_PRECISION);
+  const baseReserve = convertToNumber(amm.baseAssetReserve, BASE_PRECISION);
+  const [openBids, openAsks] = calculateMarketOpenBidAsk(
+    amm.baseAssetReserve,
+    amm.minBaseAssetReserve,
+    amm.maxBaseAssetReserve,
+    amm.orderStepSize
+  );
+  const askDepth = Math.min(
+    baseReserve * (1 - 1 / Math.sqrt(1 + DEPTH_PRICE_MOVE)),
+    Math.abs(convertToNumber(openAsks, BASE_PRECISION))
+  );
+  const bidDepth = Math.min(
+    baseReserve * (Math.sqrt(1 / (1 - DEPTH_PRICE_MOVE)) - 1),
+    Math.abs(convertToNumber(openBids, BASE_PRECISION))
+  );
+
+  return {
+    openInterestLongUsd: Math.abs(convertToNumber(amm.baseAssetAmountLong, BASE_PRECISION)) * price,
+    openInterestShortUsd: Math.abs(convertToNumber(amm.baseAssetAmountShort, BASE_PRECISION)) * price,
+    volume24hUsd: convertToNumber(amm.volume24H, QUOTE_PRECISION),
+    ammDepthUsd: Math.min(askDepth, bidDepth) * price,
+  };
+}
+
+/**
+ * Max mark/oracle TWAP divergence funding is computed from, as a share of the oracle TWAP.
+ * Mirrors the SDK's (unexported) getMaxPriceDivergenceForFundingRate.
+ */
+function getFundingCapFraction(perpMarket: PerpMarketAccount): number {
+  if (isVariant(perpMarket.contractTier, "a") || isVariant(perpMarket.contractTier, "b")) return 1 / 33;
+  if (isVariant(perpMarket.contractTier, "c")) return 1 / 20;
+  return 1 / 10;
+}
+
+/**
+ * TWAP premium, cap and timing behind the predicted rate. Funding settles on the hour;
+ * a nextFundingTs in the past means the update is due and waiting for a keeper.
+ */
+function getFundingBreakdown(
+  perpMarket: PerpMarketAccount,
+  mmOracleData: MMOraclePriceData,
+  oracleData: OraclePriceData,
+  longRateHourPct: number
+): FundingBreakdown {
+  const { amm } = perpMarket;
+  const [markTwapBN, oracleTwapBN] = calculateAllEstimatedFundingRate(perpMarket, mmOracleData, oracleData);
+  const markTwap = convertToNumber(markTwapBN, PRICE_PRECISION);
+  const oracleTwap = convertToNumber(oracleTwapBN, PRICE_PRECISION);
+
+  // Funding uses the spread plus a small offset (oracle / FUNDING_RATE_OFFSET_DENOMINATOR), clamped to the cap
+  const capFraction = getFundingCapFraction(perpMarket);
+  const spreadWithOffset =
+    markTwap - oracleTwap + Math.abs(oracleTwap) / FUNDING_RATE_OFFSET_DENOMINATOR.toNumber();
+
+  const lastOracleTwap = convertToNumber(amm.lastFundingOracleTwap, PRICE_PRECISION);
+  const lastFundingRate = convertToNumber(amm.lastFundingRate, FUNDING_RATE_PRECISION);
+  const period = amm.fundingPeriod.toNumber() || 3600;
+  const lastFundingTs = amm.lastFundingRateTs.toNumber();
+
+  return {
+    fundingRateLongHourPct: longRateHourPct,
+    lastFundingRateHourPct: lastOracleTwap > 0 ? (lastFundingRate / lastOracleTwap) * 100 : 0,
+    nextFundingTs: lastFundingTs - (lastFundingTs % period) + period,
+    markTwap,
+    oracleTwap,
+    twapSpreadPct: oracleTwap > 0 ? ((markTwap - oracleTwap) / oracleTwap) * 100 : 0,
+    fundingCapHourPct: (capFraction * 100) / 24,
+    isFundingCapped: oracleTwap > 0 && Math.abs(spreadWithOffset) > capFraction * oracleTwap,
+  };
+}
+
 export async function getAllPerpFundingRates(): Promise<FundingRateRow[]> {
   const cached = getCached<FundingRateRow[]>("fundingRates");
   if (cached) return cached;
@@ -62,6 +161,8 @@ export async function getAllPerpFundingRates(): Promise<FundingRateRow[]> {
           marketIndex: perp.marketIndex,
           fundingRateHourPct: hour.shortRate,
           fundingRateYearPct: year.shortRate,
+          ...getPerpLiquidity(perpMarket, oracleData),
+          ...getFundingBreakdown(perpMarket, mmOracleData, oracleData, hour.longRate),
         });
       } catch {
         continue;
@@ -117,6 +218,7 @@ export async function getPerpsWithoutSpot(
           fundingRateHourPct: hour.shortRate,
           fundingRateYearPct: year.shortRate,
           category: perp.category?.[0] ?? "Other",
+          ...getPerpLiquidity(perpMarket, oracleData),
         });
       } catch {
         continue;
@@ -168,6 +270,7 @@ export async function getDeltaNeutralAPYs(): Promise<DeltaNeutralRow[]> {
           lendingApyPct,
           fundingRateYearPct,
           borrowingRatePct,
+          ...getPerpLiquidity(perpMarket, oracleData),
         });
       } catch {
         continue;
@@ -188,10 +291,12 @@ export async function getSpotRates(
 
     const depositRate = calculateDepositRate(spotMarket);
     const borrowRate = calculateBorrowRate(spotMarket);
+    const oracleData = client.getOracleDataForSpotMarket(spotMarketIndex);
 
     return {
       lendingApyPct: (depositRate.toNumber() / SPOT_RATE_SCALE) * 100,
       borrowingRatePct: (borrowRate.toNumber() / SPOT_RATE_SCALE) * 100,
+      oraclePrice: convertToNumber(oracleData.price, PRICE_PRECISION),
     };
   });
 }
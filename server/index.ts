@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import rateLimit from "express-rate-limit";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startAlertEngine } from "./alert-engine";
 import { createServer } from "http";
 
 const app = express();
@@ -25,8 +26,17 @@ const strategiesLimiter = rateLimit({
   legacyHeaders: false,
   message: { message: "Too many strategy requests, please try again later." },
 });
+// Each evaluation queries every market's rates from Drift
+const alertsEvaluateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 2,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many alert evaluations, please try again later." },
+});
 app.use("/api", apiLimiter);
 app.use("/api/strategies", strategiesLimiter);
+app.use("/api/alerts/evaluate", alertsEvaluateLimiter);
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -95,5 +105,6 @@ app.use((req, res, next) => {
   const host = process.env.HOST || (process.env.NODE_ENV === "production" ? "0.0.0.0" : "127.0.0.1");
   httpServer.listen(port, host, () => {
     log(`serving on http://${host}:${port}`);
+    startAlertEngine();
   });
 })();
@@ -0,0 +1,217 @@
+/**
+ * PnL summary card as a 1200×630 SVG or PNG (OpenGraph size) for /api/card/:walletSubkey:
+ * total funding PnL, APY, active notional and a cumulative PnL sparkline.
+ * Rendered from the same StrategyResponse as /api/strategies/:walletSubkey.
+ * Also the og:image tags that point /wallet/:address link previews at the PNG.
+ */
+
+import { createRequire } from "module";
+import { Resvg } from "@resvg/resvg-js";
+import type { StrategyResponse } from "../shared/schema";
+import { ALL_TIMEFRAMES, type Timeframe } from "../shared/timeframe";
+import { getMetricStartTs } from "../shared/export";
+import type { ResolvedStrategyQuery } from "./strategy-service";
+
+const require = createRequire(import.meta.url);
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const PADDING = 64;
+const CHART_TOP = 380;
+const CHART_BOTTOM = 560;
+
+// Dashboard palette (src/index.css)
+const COLORS = {
+  background: "#0b0b0e",
+  card: "#141416",
+  border: "#1c1c1f",
+  foreground: "#ffffff",
+  muted: "#a1a1aa",
+  primary: "#27d388",
+  destructive: "#ff4d4d",
+};
+
+/** Link previews fetch the card once per post, so a few minutes of caching is enough */
+export const CARD_CACHE_CONTROL = "public, max-age=300";
+
+export const MOCK_WALLET_LABEL = "Demo account";
+
+/** Fonts for the PNG; serverless hosts have no system fonts for resvg to fall back on */
+const FONT_FILES = [
+  require.resolve("@expo-google-fonts/inter/400Regular/Inter_400Regular.ttf"),
+  require.resolve("@expo-google-fonts/inter/500Medium/Inter_500Medium.ttf"),
+  require.resolve("@expo-google-fonts/inter/700Bold/Inter_700Bold.ttf"),
+  require.resolve("@expo-google-fonts/jetbrains-mono/400Regular/JetBrainsMono_400Regular.ttf"),
+];
+
+export type CardFormat = "svg" | "png";
+
+const TIMEFRAME_LABELS: Record<Timeframe, string> = {
+  "24H": "Last 24 hours",
+  "7D": "Last 7 days",
+  "30D": "Last 30 days",
+  "3M": "Last 3 months",
+  "6M": "Last 6 months",
+  "1Y": "Last 12 months",
+};
+
+export interface PnlCardOptions {
+  wallet: string;
+  /** e.g. "Last 7 days" or "Jun 1 – Jun 30, 2024" */
+  period: string;
+  timeZone?: string;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? "−" : ""}$${Math.abs(value).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const shortenWallet = (wallet: string) =>
+  wallet.length > 12 ? `${wallet.slice(0, 4)}…${wallet.slice(-4)}` : wallet;
+
+/**
+ * Period label for the card: the preset, or the custom range's dates in the query timezone
+ */
+export function getCardPeriodLabel(resolved: ResolvedStrategyQuery, isCustomRange: boolean): string {
+  if (!isCustomRange) return TIMEFRAME_LABELS[resolved.timeframe];
+  const format = new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: resolved.timeZone,
+  });
+  return format.formatRange(
+    new Date(resolved.range.fromTs * 1000),
+    new Date(resolved.range.toTs * 1000)
+  );
+}
+
+/**
+ * Cumulative PnL sparkline as an SVG path (line and filled area), oldest first
+ */
+function renderSparkline(strategy: StrategyResponse, color: string, timeZone?: string): string {
+  const values = strategy.dailyMetrics
+    .map((m) => ({ ts: getMetricStartTs(m.date, timeZone), value: Number(m.cumulativePnl) || 0 }))
+    .sort((a, b) => a.ts - b.ts)
+    .map((p) => p.value);
+  if (values.length < 2) return "";
+
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const span = max - min || 1;
+  const x = (i: number) => PADDING + (i / (values.length - 1)) * (WIDTH - 2 * PADDING);
+  const y = (v: number) => CHART_BOTTOM - ((v - min) / span) * (CHART_BOTTOM - CHART_TOP);
+
+  const line = values.map((v, i) => `${i === 0 ? "M" : "L"}${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(" ");
+  const zeroY = y(0).toFixed(1);
+  const area = `${line} L${x(values.length - 1).toFixed(1)},${zeroY} L${x(0).toFixed(1)},${zeroY} Z`;
+
+  return `
+  <defs>
+    <linearGradient id="spark-fill" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0%" stop-color="${color}" stop-opacity="0.35"/>
+      <stop offset="100%" stop-color="${color}" stop-opacity="0"/>
+    </linearGradient>
+  </defs>
+  <line x1="${PADDING}" y1="${zeroY}" x2="${WIDTH - PADDING}" y2="${zeroY}" stroke="${COLORS.muted}" stroke-opacity="0.3" stroke-width="2" stroke-dasharray="6 6"/>
+  <path d="${area}" fill="url(#spark-fill)"/>
+  <path d="${line}" fill="none" stroke="${color}" stroke-width="4" stroke-linejoin="round" stroke-linecap="round"/>`;
+}
+
+function renderStat(x: number, label: string, value: string, color: string): string {
+  return `
+  <text x="${x}" y="250" fill="${COLORS.muted}" font-size="22" font-weight="500" letter-spacing="2">${escapeXml(label)}</text>
+  <text x="${x}" y="315" fill="${color}" font-size="56" font-weight="700">${escapeXml(value)}</text>`;
+}
+
+/**
+ * The card as a standalone SVG document
+ */
+export function renderPnlCardSvg(strategy: StrategyResponse, options: PnlCardOptions): string {
+  const fundingPnl = Number(strategy.totalFundingPnl) || 0;
+  const apy = strategy.currentApy !== undefined ? Number(strategy.currentApy) : null;
+  const notional = strategy.activeNotional !== undefined ? Number(strategy.activeNotional) : null;
+  const trendColor = fundingPnl >= 0 ? COLORS.primary : COLORS.destructive;
+  const columnWidth = Math.round((WIDTH - 2 * PADDING) / 3);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="Inter, system-ui, sans-serif">
+  <rect width="${WIDTH}" height="${HEIGHT}" fill="${COLORS.background}"/>
+  <rect x="24" y="24" width="${WIDTH - 48}" height="${HEIGHT - 48}" rx="32" fill="${COLORS.card}" stroke="${COLORS.border}" stroke-width="2"/>
+  <text x="${PADDING}" y="110" font-size="40" font-weight="700" fill="${COLORS.foreground}">Perp<tspan fill="${COLORS.primary}">Lens</tspan></text>
+  <text x="${WIDTH - PADDING}" y="110" text-anchor="end" font-size="28" fill="${COLORS.muted}">${escapeXml(options.period)}</text>
+  <text x="${PADDING}" y="160" font-size="26" fill="${COLORS.muted}" font-family="JetBrains Mono, monospace">${escapeXml(shortenWallet(options.wallet))}</text>
+  ${renderStat(PADDING, "FUNDING PNL", formatUsd(fundingPnl), trendColor)}
+  ${renderStat(PADDING + columnWidth, "APY", apy !== null && Number.isFinite(apy) ? `${apy.toFixed(2)}%` : "—", COLORS.foreground)}
+  ${renderStat(PADDING + 2 * columnWidth, "NOTIONAL", notional !== null && Number.isFinite(notional) ? formatUsd(notional) : "—", COLORS.foreground)}
+  ${renderSparkline(strategy, trendColor, options.timeZone)}
+</svg>
+`;
+}
+
+/**
+ * The card in the requested format with its content type. Link previews (X, Facebook,
+ * Slack, Discord) only take raster images, so og:image points at the PNG.
+ */
+export function renderPnlCard(
+  strategy: StrategyResponse,
+  options: PnlCardOptions,
+  format: CardFormat
+): { contentType: string; body: string | Buffer } {
+  const svg = renderPnlCardSvg(strategy, options);
+  if (format === "svg") return { contentType: "image/svg+xml", body: svg };
+  const resvg = new Resvg(svg, {
+    font: { fontFiles: FONT_FILES, loadSystemFonts: false, defaultFontFamily: "Inter" },
+  });
+  return { contentType: "image/png", body: resvg.render().asPng() };
+}
+
+/**
+ * Public origin for og:image URLs: PUBLIC_ORIGIN, else the Vercel deployment URL, else null
+ * (no tags). Never taken from request headers, which clients control and caches don't key on.
+ */
+export function getPublicOrigin(): string | null {
+  const configured = process.env.PUBLIC_ORIGIN?.trim().replace(/\/+$/, "");
+  if (configured) return configured;
+  return process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : null;
+}
+
+/**
+ * PNG card URL for a dashboard link's query (?tf= becomes timeframe, ?from=&to= pass through)
+ */
+function getCardImageUrl(origin: string, wallet: string, search: URLSearchParams): string {
+  const params = new URLSearchParams();
+  const tf = ALL_TIMEFRAMES.find((t) => t === search.get("tf"));
+  if (search.has("from") && search.has("to")) {
+    params.set("from", search.get("from")!);
+    params.set("to", search.get("to")!);
+  } else if (tf) {
+    params.set("timeframe", tf);
+  }
+  params.set("format", "png");
+  return `${origin}/api/card/${encodeURIComponent(wallet)}?${params}`;
+}
+
+/**
+ * index.html with OpenGraph and Twitter card tags for /wallet/:address, so a shared
+ * dashboard link previews as its PnL card
+ */
+export function injectCardMeta(html: string, origin: string, wallet: string, search: URLSearchParams): string {
+  const image = escapeXml(getCardImageUrl(origin, wallet, search));
+  const title = escapeXml(`PerpLens · ${shortenWallet(wallet)}`);
+  const tags = [
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:image" content="${image}" />`,
+    `<meta property="og:image:width" content="${WIDTH}" />`,
+    `<meta property="og:image:height" content="${HEIGHT}" />`,
+    `<meta name="twitter:card" content="summary_large_image" />`,
+    `<meta name="twitter:title" content="${title}" />`,
+    `<meta name="twitter:image" content="${image}" />`,
+  ];
+  return html.replace("</head>", `  ${tags.join("\n    ")}\n  </head>`);
+}
@@ -0,0 +1,39 @@
+/**
+ * Parse from/to query parameters into a unix-second range.
+ * Accepts unix seconds ("1717200000") or ISO dates ("2024-06-01", interpreted as UTC).
+ */
+
+import { ARCHIVE_START_TS, type ArchiveRange } from "./funding-archive";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+function parseTimestamp(value: string, endOfDay: boolean): number | null {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const ms = Date.parse(`${value}T00:00:00Z`);
+    if (Number.isNaN(ms)) return null;
+    return ms / 1000 + (endOfDay ? DAY_SECONDS - 1 : 0);
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+/**
+ * Returns the parsed range, or an error message suitable for a 400 response.
+ * Missing `to` defaults to now; missing `from` defaults to `defaultDays` before `to`.
+ * `from` is clamped to ARCHIVE_START_TS so old dates don't walk years of empty months.
+ */
+export function parseRangeParams(
+  from: string | undefined,
+  to: string | undefined,
+  defaultDays = 30
+): { range: ArchiveRange } | { error: string } {
+  const now = Math.floor(Date.now() / 1000);
+  const toTs = to ? parseTimestamp(to, true) : now;
+  if (toTs === null) return { error: "Invalid 'to' parameter." };
+  const fromTs = from ? parseTimestamp(from, false) : toTs - defaultDays * DAY_SECONDS;
+  if (fromTs === null) return { error: "Invalid 'from' parameter." };
+  if (fromTs > toTs) return { error: "'from' must be before 'to'." };
+  if (toTs < ARCHIVE_START_TS) return { error: "Range ends before Drift v2 launched." };
+  return { range: { fromTs: Math.max(fromTs, ARCHIVE_START_TS), toTs: Math.min(toTs, now) } };
+}
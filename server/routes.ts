@@ -1,9 +1,21 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import type { Server } from "http";
+import { timingSafeEqual } from "crypto";
 import { getStrategyByWallet } from "./data";
 import { api } from "../shared/routes";
-import { fetchAllRecentFundingPayments } from "./drift-service";
-import { transformDriftDataToStrategy } from "./drift-transformer";
+import { getFundingHistory, isValidWalletAddress } from "./funding-archive";
+import { parseRangeParams } from "./range-params";
+import { resolveStrategyQuery, getStrategyForWallet } from "./strategy-service";
+import {
+  listAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  getAlertHistory,
+  evaluateAlerts,
+} from "./alert-engine";
+import { renderPnlCard, getCardPeriodLabel, CARD_CACHE_CONTROL, MOCK_WALLET_LABEL } from "./pnl-card";
+import { parseAuthority, getSubAccountsForAuthority } from "./account-service";
 import {
   getAllPerpFundingRates,
   getDeltaNeutralAPYs,
@@ -11,6 +23,13 @@ import {
   getSpotRates,
 } from "./funding-rate-service";
 
+/** Whether an Authorization header carries the token, compared in constant time */
+function isBearerToken(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express,
@@ -36,17 +55,29 @@ export async function registerRoutes(
       }
     }
 
+    if (!isValidWalletAddress(walletSubkey)) {
+      return res.status(400).json({ message: "Invalid wallet address." });
+    }
+
+    const query = api.strategies.getByWallet.query.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid query parameters." });
+    }
+    const resolved = resolveStrategyQuery(query.data);
+    if ("error" in resolved) {
+      return res.status(400).json({ message: resolved.error });
+    }
+
     // Otherwise, fetch from Drift API
     try {
-      const records = await fetchAllRecentFundingPayments(walletSubkey, 10);
+      const strategy = await getStrategyForWallet(walletSubkey, resolved);
 
-      if (records.length === 0) {
+      if (!strategy) {
         return res.status(404).json({
           message: "No funding payment records found for this address.",
         });
       }
 
-      const strategy = transformDriftDataToStrategy(walletSubkey, records);
       res.json(strategy);
     } catch (error) {
       console.error("Error fetching Drift data:", error);
@@ -56,6 +87,106 @@ export async function registerRoutes(
     }
   });
 
+  // PnL summary card for chat posts and OpenGraph previews
+  app.get(api.cards.getByWallet.path, async (req, res) => {
+    const walletSubkey = String(req.params.walletSubkey ?? "");
+    if (walletSubkey !== "main-account" && !isValidWalletAddress(walletSubkey)) {
+      return res.status(400).json({ message: "Invalid wallet address." });
+    }
+    const query = api.cards.getByWallet.query.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid query parameters." });
+    }
+    const resolved = resolveStrategyQuery(query.data);
+    if ("error" in resolved) {
+      return res.status(400).json({ message: resolved.error });
+    }
+
+    try {
+      const strategy =
+        walletSubkey === "main-account"
+          ? getStrategyByWallet(walletSubkey)
+          : await getStrategyForWallet(walletSubkey, resolved);
+      if (!strategy) {
+        return res.status(404).json({
+          message: "No funding payment records found for this address.",
+        });
+      }
+
+      const card = renderPnlCard(
+        strategy,
+        {
+          wallet: walletSubkey === "main-account" ? MOCK_WALLET_LABEL : walletSubkey,
+          period: getCardPeriodLabel(resolved, query.data.from !== undefined || query.data.to !== undefined),
+          timeZone: resolved.timeZone,
+        },
+        query.data.format ?? "svg"
+      );
+      res.set({ "Content-Type": card.contentType, "Cache-Control": CARD_CACHE_CONTROL });
+      res.removeHeader("Pragma");
+      res.removeHeader("Expires");
+      res.send(card.body);
+    } catch (error) {
+      console.error("Error rendering PnL card:", error);
+      return res.status(500).json({
+        message: "Failed to fetch data from Drift API.",
+      });
+    }
+  });
+
+  // Funding history from the server-side archive (fills gaps from Drift API on demand)
+  app.get(api.funding.getHistory.path, async (req, res) => {
+    const walletSubkey = String(req.params.walletSubkey ?? "");
+    if (!isValidWalletAddress(walletSubkey)) {
+      return res.status(400).json({ message: "Invalid wallet address." });
+    }
+    const query = api.funding.getHistory.query.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid query parameters." });
+    }
+    const parsed = parseRangeParams(query.data.from, query.data.to);
+    if ("error" in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    try {
+      const records = await getFundingHistory(walletSubkey, parsed.range);
+      res.json({
+        walletSubkey,
+        from: parsed.range.fromTs,
+        to: parsed.range.toTs,
+        records,
+      });
+    } catch (error) {
+      console.error("Error loading funding history:", error);
+      return res.status(500).json({
+        message: "Failed to fetch data from Drift API.",
+      });
+    }
+  });
+
+  // Sub-account discovery for an authority (Drift SDK)
+  app.get(api.accounts.getByAuthority.path, async (req, res) => {
+    const authority = String(req.params.authority ?? "");
+    const authorityKey = parseAuthority(authority);
+    if (!authorityKey) {
+      return res.status(400).json({ message: "Invalid authority address." });
+    }
+    try {
+      const accounts = await getSubAccountsForAuthority(authorityKey);
+      res.json({ authority, accounts });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (msg.includes("SOLANA_KEYPAIR_PATH") || msg.includes("WALLET_PRIVATE_KEY")) {
+        return res.status(503).json({
+          message: "Sub-account discovery unavailable: Drift SDK not configured (set SOLANA_KEYPAIR_PATH or WALLET_PRIVATE_KEY).",
+        });
+      }
+      console.error("Sub-account discovery error:", err);
+      res.status(500).json({ message: "Failed to load sub-accounts." });
+    }
+  });
+
   // Yield Scanner: live funding and delta-neutral APY (Drift SDK)
   async function handleYieldError(err: unknown, res: Express.Response): Promise<boolean> {
     const msg = err instanceof Error ? err.message : String(err);
@@ -114,5 +245,98 @@ export async function registerRoutes(
     }
   });
 
+  // Alert rules and history. With ALERTS_API_TOKEN set, requests need it as a bearer token;
+  // without it the API is read-only (rules can't be changed or evaluated by anyone).
+  app.use("/api/alerts", (req, res, next) => {
+    const token = process.env.ALERTS_API_TOKEN;
+    if (!token) {
+      if (req.method === "GET") return next();
+      return res.status(403).json({ message: "Set ALERTS_API_TOKEN to change or evaluate alert rules." });
+    }
+    if (!isBearerToken(req.get("authorization"), token)) {
+      return res.status(401).json({ message: "Missing or invalid alerts API token." });
+    }
+    next();
+  });
+
+  function handleAlertError(err: unknown, res: Response): void {
+    console.error("Alert store error:", err);
+    res.status(500).json({ message: "Failed to access alert rules." });
+  }
+
+  app.get(api.alerts.listRules.path, async (_req, res) => {
+    try {
+      res.json(await listAlertRules());
+    } catch (err) {
+      handleAlertError(err, res);
+    }
+  });
+
+  app.post(api.alerts.createRule.path, async (req, res) => {
+    const input = api.alerts.createRule.input.safeParse(req.body);
+    if (!input.success) {
+      return res.status(400).json({ message: input.error.issues[0]?.message ?? "Invalid alert rule." });
+    }
+    try {
+      const rule = await createAlertRule(input.data);
+      if ("error" in rule) {
+        return res.status(400).json({ message: rule.error });
+      }
+      res.status(201).json(rule);
+    } catch (err) {
+      handleAlertError(err, res);
+    }
+  });
+
+  app.patch(api.alerts.updateRule.path, async (req, res) => {
+    const patch = api.alerts.updateRule.input.safeParse(req.body);
+    if (!patch.success) {
+      return res.status(400).json({ message: patch.error.issues[0]?.message ?? "Invalid alert rule." });
+    }
+    try {
+      const rule = await updateAlertRule(String(req.params.id), patch.data);
+      if (rule === null) {
+        return res.status(404).json({ message: "Alert rule not found." });
+      }
+      if ("error" in rule) {
+        return res.status(400).json({ message: rule.error });
+      }
+      res.json(rule);
+    } catch (err) {
+      handleAlertError(err, res);
+    }
+  });
+
+  app.delete(api.alerts.deleteRule.path, async (req, res) => {
+    try {
+      if (!(await deleteAlertRule(String(req.params.id)))) {
+        return res.status(404).json({ message: "Alert rule not found." });
+      }
+      res.status(204).end();
+    } catch (err) {
+      handleAlertError(err, res);
+    }
+  });
+
+  app.get(api.alerts.getHistory.path, async (req, res) => {
+    const query = api.alerts.getHistory.query.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid query parameters." });
+    }
+    try {
+      res.json(await getAlertHistory(query.data));
+    } catch (err) {
+      handleAlertError(err, res);
+    }
+  });
+
+  app.post(api.alerts.evaluate.path, async (_req, res) => {
+    try {
+      res.json(await evaluateAlerts());
+    } catch (err) {
+      handleAlertError(err, res);
+    }
+  });
+
   return httpServer;
 }
@@ -1,6 +1,9 @@
 import express, { type Express } from "express";
+import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { isValidWalletAddress } from "./funding-archive";
+import { getPublicOrigin, injectCardMeta } from "./pnl-card";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const root = path.resolve(__dirname, "..");
@@ -8,6 +11,18 @@ const distDir = path.join(root, "dist");
 
 export function serveStatic(app: Express): void {
   app.use(express.static(distDir));
+  // Wallet deep links carry og:image tags for link previews (with PUBLIC_ORIGIN set)
+  app.get("/wallet/:address", (req, res, next) => {
+    const origin = getPublicOrigin();
+    if (!origin || !isValidWalletAddress(req.params.address)) return next();
+    fs.promises
+      .readFile(path.join(distDir, "index.html"), "utf-8")
+      .then((html) => {
+        const search = new URLSearchParams(req.originalUrl.split("?")[1] ?? "");
+        res.type("html").send(injectCardMeta(html, origin, req.params.address, search));
+      })
+      .catch(next);
+  });
   app.get("*", (_req, res) => {
     res.sendFile(path.join(distDir, "index.html"));
   });
@@ -0,0 +1,263 @@
+/**
+ * Builds the enriched StrategyResponse served by /api/strategies/:walletSubkey.
+ * Funding records come from the archive (paging monthly endpoints as needed);
+ * candles, current prices, deposit history (lending interest, borrow cost) and trade history
+ * (entry prices, fees, realized PnL) come from the Drift Data API.
+ */
+
+import type { StrategyResponse } from "../shared/schema";
+import type { DailyCandleRecord } from "../shared/drift-types";
+import type { Timeframe, Resolution } from "../shared/timeframe";
+import { getTimeframeDays, getDefaultResolution } from "../shared/timeframe";
+import { getMarketName } from "../shared/market-names";
+import { isValidTimeZone } from "../shared/timezone";
+import {
+  transformDriftDataToStrategy,
+  enrichPositionsWithPrices,
+} from "../shared/strategy-transformer";
+import {
+  calculateSpotInterest,
+  MAX_DEPOSIT_PAGES,
+  type SpotInterestRecord,
+} from "../shared/spot-interest";
+import { buildFillsLedger, MAX_TRADE_PAGES, type FillsLedger } from "../shared/fills";
+import { buildPreviousPeriod } from "../shared/period-comparison";
+import {
+  fetchCandlesInRange,
+  fetchMarketPrices,
+  fetchAllDepositRecords,
+  fetchAllTradeRecords,
+} from "./drift-service";
+import { getFundingHistory, type ArchiveRange } from "./funding-archive";
+import { getSpotRates } from "./funding-rate-service";
+import { parseRangeParams } from "./range-params";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const HOUR_SECONDS = 60 * 60;
+
+export interface StrategyQuery {
+  timeframe?: Timeframe;
+  from?: string;
+  to?: string;
+  resolution?: Resolution;
+  tz?: string;
+}
+
+export interface ResolvedStrategyQuery {
+  timeframe: Timeframe;
+  resolution: Resolution;
+  /** Timezone for day/hour buckets ("UTC" unless the query names an IANA zone) */
+  timeZone: string;
+  range: ArchiveRange;
+  /** Previous window of equal length (24H/7D presets only, matching the dashboard) */
+  previousRange: ArchiveRange | null;
+}
+
+/**
+ * Resolve query params into concrete ranges. Returns an error message for a 400 response.
+ * from/to override the timeframe window; timeframe still picks the default resolution.
+ * tz (IANA zone) sets the day/hour buckets, defaulting to UTC.
+ */
+export function resolveStrategyQuery(
+  query: StrategyQuery
+): ResolvedStrategyQuery | { error: string } {
+  const timeframe = query.timeframe ?? "7D";
+  const timeZone = query.tz ?? "UTC";
+  if (!isValidTimeZone(timeZone)) return { error: "Invalid 'tz' parameter." };
+  const parsed = parseRangeParams(query.from, query.to, getTimeframeDays(timeframe));
+  if ("error" in parsed) return parsed;
+
+  const { range } = parsed;
+  const isCustomRange = query.from !== undefined || query.to !== undefined;
+  const span = range.toTs - range.fromTs;
+  const previousRange =
+    !isCustomRange && (timeframe === "24H" || timeframe === "7D")
+      ? { fromTs: range.fromTs - span, toTs: range.fromTs - 1 }
+      : null;
+
+  return {
+    timeframe,
+    resolution: query.resolution ?? getDefaultResolution(timeframe),
+    timeZone,
+    range,
+    previousRange,
+  };
+}
+
+/**
+ * Candles covering the range (padded by one bucket for timezones), fetched for the range's own
+ * window. isComplete is false when any market's candles don't cover all of it.
+ */
+async function fetchCandleData(
+  symbols: string[],
+  resolution: Resolution,
+  range: ArchiveRange
+): Promise<{ candleData: Map<string, DailyCandleRecord[]>; isComplete: boolean }> {
+  const pad = resolution === "hour" ? HOUR_SECONDS : DAY_SECONDS;
+  const toTs = Math.min(range.toTs + pad, Math.floor(Date.now() / 1000));
+
+  const candleData = new Map<string, DailyCandleRecord[]>();
+  let isComplete = true;
+  await Promise.all(
+    symbols.map(async (symbol) => {
+      const candles = await fetchCandlesInRange(
+        symbol,
+        resolution === "hour" ? "60" : "D",
+        range.fromTs - pad,
+        toTs
+      );
+      if (!candles.isComplete) {
+        console.warn(`Candles for ${symbol} don't cover ${range.fromTs}–${range.toTs}; notional is partial`);
+        isComplete = false;
+      }
+      candleData.set(symbol, candles.records);
+    })
+  );
+  return { candleData, isComplete };
+}
+
+/**
+ * Lending interest and borrow cost accrued within the range, or undefined when deposit history
+ * is unavailable or longer than MAX_DEPOSIT_PAGES (balances rebuilt from part of it would be wrong)
+ */
+async function fetchSpotInterest(
+  walletSubkey: string,
+  range: ArchiveRange
+): Promise<SpotInterestRecord[] | undefined> {
+  try {
+    const deposits = await fetchAllDepositRecords(walletSubkey, MAX_DEPOSIT_PAGES);
+    if (!deposits.isComplete) {
+      console.warn(`Deposit history for ${walletSubkey} exceeds ${MAX_DEPOSIT_PAGES} pages; skipping spot interest`);
+      return undefined;
+    }
+    const current = await fetchCurrentSpotRates(deposits.records.map((r) => r.marketIndex));
+    return calculateSpotInterest(deposits.records, { since: range.fromTs, ...current }).filter(
+      (r) => r.ts <= range.toTs
+    );
+  } catch (err) {
+    console.warn(`Deposit history unavailable for ${walletSubkey}:`, err);
+    return undefined;
+  }
+}
+
+/**
+ * Current lending APY, borrow rate and oracle price per spot market for the accrual after the
+ * last deposit record; stops at the first failure (later markets fall back to observed values)
+ */
+async function fetchCurrentSpotRates(marketIndexes: number[]) {
+  const currentLendingApy = new Map<number, number>();
+  const currentBorrowRate = new Map<number, number>();
+  const currentPrices = new Map<number, number>();
+  for (const marketIndex of new Set(marketIndexes)) {
+    try {
+      const row = await getSpotRates(marketIndex);
+      if (!row) continue;
+      currentLendingApy.set(marketIndex, row.lendingApyPct);
+      currentBorrowRate.set(marketIndex, row.borrowingRatePct);
+      if (row.oraclePrice > 0) currentPrices.set(marketIndex, row.oraclePrice);
+    } catch (err) {
+      console.warn(`Current spot rates unavailable for market ${marketIndex}:`, err);
+      break;
+    }
+  }
+  return { currentLendingApy, currentBorrowRate, currentPrices };
+}
+
+/**
+ * Fills ledger for the range, or undefined when trade history is unavailable or longer than
+ * MAX_TRADE_PAGES (legs rebuilt from part of it would have wrong entries)
+ */
+async function fetchFillsLedger(
+  walletSubkey: string,
+  range: ArchiveRange
+): Promise<FillsLedger | undefined> {
+  try {
+    const trades = await fetchAllTradeRecords(walletSubkey, MAX_TRADE_PAGES);
+    if (!trades.isComplete) {
+      console.warn(`Trade history for ${walletSubkey} exceeds ${MAX_TRADE_PAGES} pages; skipping fills ledger`);
+      return undefined;
+    }
+    return buildFillsLedger(
+      trades.records.filter((r) => r.ts <= range.toTs),
+      [walletSubkey],
+      { since: range.fromTs }
+    );
+  } catch (err) {
+    console.warn(`Trade history unavailable for ${walletSubkey}:`, err);
+    return undefined;
+  }
+}
+
+/**
+ * Full strategy for a wallet over the resolved range, or null when it has no funding records.
+ */
+export async function getStrategyForWallet(
+  walletSubkey: string,
+  resolved: ResolvedStrategyQuery
+): Promise<StrategyResponse | null> {
+  const { timeframe, resolution, timeZone, range, previousRange } = resolved;
+
+  const history = await getFundingHistory(walletSubkey, {
+    fromTs: previousRange?.fromTs ?? range.fromTs,
+    toTs: range.toTs,
+  });
+  const records = history.filter((r) => r.ts >= range.fromTs);
+  if (records.length === 0) return null;
+  const previousRecords = previousRange
+    ? history.filter((r) => r.ts >= previousRange.fromTs && r.ts <= previousRange.toTs)
+    : [];
+
+  // Candles also cover the previous period's markets and dates
+  const symbols = [
+    ...new Set([...records, ...previousRecords].map((r) => getMarketName(r.marketIndex))),
+  ];
+  const [currentPrices, candles, interestRecords, fills] = await Promise.all([
+    fetchMarketPrices(symbols),
+    fetchCandleData(symbols, resolution, {
+      fromTs: previousRange?.fromTs ?? range.fromTs,
+      toTs: range.toTs,
+    }),
+    fetchSpotInterest(walletSubkey, range),
+    fetchFillsLedger(walletSubkey, range),
+  ]);
+  const { candleData } = candles;
+
+  const days = (range.toTs - range.fromTs) / DAY_SECONDS;
+  const strategy = transformDriftDataToStrategy(
+    walletSubkey,
+    records,
+    timeframe,
+    candleData,
+    currentPrices,
+    { resolution, interestRecords, fills, periodDays: days, timeZone }
+  );
+
+  const enriched = enrichPositionsWithPrices(strategy.positions, currentPrices, days);
+
+  const previousPeriodFundingPnl = previousRange
+    ? previousRecords.reduce((sum, r) => sum + parseFloat(r.fundingPayment), 0).toFixed(2)
+    : undefined;
+
+  const previousPeriod =
+    previousRecords.length > 0
+      ? buildPreviousPeriod(
+          strategy,
+          transformDriftDataToStrategy(walletSubkey, previousRecords, timeframe, candleData, currentPrices, {
+            resolution,
+            periodDays: days,
+            timeZone,
+          }),
+          days
+        )
+      : undefined;
+
+  return {
+    ...strategy,
+    ...(previousPeriodFundingPnl !== undefined && { previousPeriodFundingPnl }),
+    ...(previousPeriod && { previousPeriod }),
+    ...(!candles.isComplete && { isPriceHistoryPartial: true }),
+    positions: enriched.positions,
+    activeNotional: enriched.totalNotional.toFixed(2),
+    currentApy: enriched.apy.toFixed(2),
+  };
+}
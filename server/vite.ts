@@ -1,6 +1,14 @@
 import type { Express } from "express";
 import type { Server } from "http";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
 import { createServer as createViteServer } from "vite";
+import { isValidWalletAddress } from "./funding-archive";
+import { getPublicOrigin, injectCardMeta } from "./pnl-card";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const indexHtml = path.resolve(__dirname, "..", "index.html");
 
 export async function setupVite(httpServer: Server, app: Express) {
   const vite = await createViteServer({
@@ -8,5 +16,19 @@ export async function setupVite(httpServer: Server, app: Express) {
     appType: "spa",
   });
 
+  // Wallet deep links carry og:image tags for link previews (as in production)
+  app.get("/wallet/:address", async (req, res, next) => {
+    const origin = getPublicOrigin();
+    if (!origin || !isValidWalletAddress(req.params.address)) return next();
+    try {
+      const template = await fs.promises.readFile(indexHtml, "utf-8");
+      const html = await vite.transformIndexHtml(req.originalUrl, template);
+      const search = new URLSearchParams(req.originalUrl.split("?")[1] ?? "");
+      res.type("html").send(injectCardMeta(html, origin, req.params.address, search));
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.use(vite.middlewares);
 }
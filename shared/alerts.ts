@@ -0,0 +1,180 @@
+/**
+ * Alert rules over the Yield Scanner rows: a metric of one market (or any market) above or
+ * below a threshold, optionally held for a number of hours. Evaluation here is pure;
+ * server/alert-engine.ts fetches the rows on a schedule, persists state and delivers events.
+ */
+
+import { z } from "zod";
+import type { DeltaNeutralRow, FundingRateRow } from "./yield-types";
+
+/** Row sets a rule can watch, with the scanner tab they back and their numeric columns (all %). */
+export const ALERT_SOURCES = {
+  "funding-rates": {
+    label: "All Perps",
+    metrics: ["fundingRateHourPct", "fundingRateYearPct"],
+  },
+  "delta-neutral": {
+    label: "Funding Arb",
+    metrics: ["deltaNeutralApyPct", "fundingRateYearPct", "lendingApyPct", "borrowingRatePct"],
+  },
+} as const;
+
+export type AlertSource = keyof typeof ALERT_SOURCES;
+
+export const METRIC_LABELS: Record<string, string> = {
+  fundingRateHourPct: "hourly funding",
+  fundingRateYearPct: "funding APR",
+  deltaNeutralApyPct: "delta-neutral APY",
+  lendingApyPct: "lending APY",
+  borrowingRatePct: "borrow rate",
+};
+
+const alertRuleFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  source: z.enum(["funding-rates", "delta-neutral"]),
+  /** Perp symbol ("SOL-PERP"); null watches every row */
+  market: z.string().trim().min(1).nullable().default(null),
+  metric: z.string(),
+  operator: z.enum(["above", "below"]),
+  threshold: z.number().finite(),
+  /** How long the condition must hold before the alert fires; 0 fires on the first match */
+  durationHours: z.number().min(0).max(24 * 30).default(0),
+  enabled: z.boolean().default(true),
+});
+
+const hasSourceMetric = (rule: { source: AlertSource; metric: string }) =>
+  (ALERT_SOURCES[rule.source].metrics as readonly string[]).includes(rule.metric);
+
+export const alertRuleInputSchema = alertRuleFields.refine(hasSourceMetric, {
+  message: "Unknown metric for this source.",
+  path: ["metric"],
+});
+
+/** Partial update; the merged rule is validated against alertRuleInputSchema again. */
+export const alertRulePatchSchema = alertRuleFields.partial();
+
+export type AlertRuleInput = z.infer<typeof alertRuleInputSchema>;
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  createdAt: number;            // Unix seconds
+}
+
+/** Per market: since when the condition has held, and when it fired (null: not yet). */
+export interface AlertMarketState {
+  since: number;
+  firedAt: number | null;
+}
+
+export type AlertRuleState = Record<string, AlertMarketState>;
+
+export type AlertEventType = "triggered" | "resolved";
+
+export interface AlertEvent {
+  id: string;
+  ts: number;                   // Unix seconds
+  type: AlertEventType;
+  ruleId: string;
+  ruleName: string;
+  market: string;
+  metric: string;
+  value: number | null;         // null when the row has no value for the metric
+  operator: AlertRuleInput["operator"];
+  threshold: number;
+  message: string;
+  /** Delivery result per sink */
+  deliveries?: { sink: string; ok: boolean; error?: string }[];
+}
+
+export interface AlertSnapshot {
+  fundingRates?: FundingRateRow[];
+  deltaNeutral?: DeltaNeutralRow[];
+}
+
+interface MetricRow {
+  market: string;
+  values: Partial<Record<string, number>>;
+}
+
+const numericFields = (row: object): MetricRow["values"] =>
+  Object.fromEntries(Object.entries(row).filter(([, v]) => typeof v === "number"));
+
+/**
+ * A source's rows keyed by perp symbol, or null when the snapshot lacks them
+ */
+export function getMetricRows(source: AlertSource, snapshot: AlertSnapshot): MetricRow[] | null {
+  if (source === "funding-rates") {
+    return snapshot.fundingRates?.map((r) => ({ market: r.symbol, values: numericFields(r) })) ?? null;
+  }
+  return snapshot.deltaNeutral?.map((r) => ({ market: r.perpSymbol, values: numericFields(r) })) ?? null;
+}
+
+const formatHours = (hours: number) => (hours === 1 ? "1 hour" : `${hours} hours`);
+
+function describe(rule: AlertRule, type: AlertEventType, market: string, value: number | null): string {
+  const metric = METRIC_LABELS[rule.metric] ?? rule.metric;
+  const current = value !== null ? `${value.toFixed(2)}%` : "unavailable";
+  const condition = `${rule.operator} ${rule.threshold}%`;
+  return type === "triggered"
+    ? `${rule.name}: ${market} ${metric} ${current}, ${condition}${
+        rule.durationHours > 0 ? ` for ${formatHours(rule.durationHours)}` : ""
+      }`
+    : `${rule.name}: ${market} ${metric} back at ${current}, no longer ${condition}`;
+}
+
+/**
+ * Evaluate one rule against the current rows. An alert fires once when its condition has
+ * held for durationHours and resolves when the condition stops holding; markets missing
+ * from the rows keep their state until they reappear.
+ */
+export function evaluateRule(
+  rule: AlertRule,
+  rows: MetricRow[],
+  state: AlertRuleState,
+  now: number
+): { state: AlertRuleState; events: Omit<AlertEvent, "id">[] } {
+  const next: AlertRuleState = {};
+  const events: Omit<AlertEvent, "id">[] = [];
+  const event = (type: AlertEventType, market: string, value: number | null) =>
+    events.push({
+      ts: now,
+      type,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      market,
+      metric: rule.metric,
+      value,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      message: describe(rule, type, market, value),
+    });
+
+  const seen = new Set<string>();
+  for (const row of rows) {
+    if (rule.market !== null && row.market !== rule.market) continue;
+    seen.add(row.market);
+    const value = row.values[rule.metric];
+    const previous = state[row.market];
+    const holds =
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      (rule.operator === "above" ? value > rule.threshold : value < rule.threshold);
+
+    if (holds) {
+      const since = previous?.since ?? now;
+      let firedAt = previous?.firedAt ?? null;
+      if (firedAt === null && now - since >= rule.durationHours * 60 * 60) {
+        event("triggered", row.market, value);
+        firedAt = now;
+      }
+      next[row.market] = { since, firedAt };
+    } else if (previous?.firedAt != null) {
+      event("resolved", row.market, typeof value === "number" ? value : null);
+    }
+  }
+
+  for (const [market, previous] of Object.entries(state)) {
+    if (!seen.has(market)) next[market] = previous;
+  }
+  return { state: next, events };
+}
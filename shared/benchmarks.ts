@@ -0,0 +1,87 @@
+/**
+ * Benchmarks for the cumulative PnL chart, each run on the strategy's notional:
+ * lending USDC on Drift, holding SOL, and a fixed hurdle rate.
+ */
+
+import type { DailyCandleRecord } from "./drift-types";
+
+export type BenchmarkId = "usdc-lending" | "hold-sol" | "hurdle";
+
+export const BENCHMARK_IDS: BenchmarkId[] = ["usdc-lending", "hold-sol", "hurdle"];
+
+export const DEFAULT_HURDLE_RATE_PCT = 10;
+
+/** Drift spot market index of USDC. */
+export const USDC_SPOT_MARKET_INDEX = 0;
+
+export interface BenchmarkInputs {
+  notional: number;                 // USD put into each benchmark (strategy's avg notional)
+  usdcLendingApy: number | null;    // Current USDC deposit APY (%), null when unavailable
+  solCandles: DailyCandleRecord[];  // Daily, or hourly for 24H
+  hurdleRatePct: number;
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/**
+ * SOL close of the last candle starting at or before ts, or null before the first candle
+ * (candles sorted oldest first)
+ */
+function getSolPriceAt(candles: DailyCandleRecord[], ts: number): number | null {
+  let price: number | null = null;
+  for (const candle of candles) {
+    if (candle.ts > ts) break;
+    price = candle.oracleClose;
+  }
+  return price;
+}
+
+/**
+ * Cumulative benchmark PnL at each timestamp since the first one, or null where the
+ * benchmark has no data (lending rate unavailable, no SOL candle yet)
+ * Rates are simple (not compounded), like the strategy's APY.
+ */
+export function getBenchmarkSeries(
+  id: BenchmarkId,
+  inputs: BenchmarkInputs,
+  timestamps: number[]
+): (number | null)[] {
+  if (timestamps.length === 0 || inputs.notional <= 0) return timestamps.map(() => null);
+  const startTs = timestamps[0];
+
+  const simpleRate = (apyPct: number) =>
+    timestamps.map((ts) => inputs.notional * (apyPct / 100) * ((ts - startTs) / SECONDS_PER_YEAR));
+
+  switch (id) {
+    case "usdc-lending":
+      return inputs.usdcLendingApy === null
+        ? timestamps.map(() => null)
+        : simpleRate(inputs.usdcLendingApy);
+    case "hurdle":
+      return simpleRate(inputs.hurdleRatePct);
+    case "hold-sol": {
+      const candles = [...inputs.solCandles].sort((a, b) => a.ts - b.ts);
+      const startPrice = getSolPriceAt(candles, startTs);
+      if (!startPrice) return timestamps.map(() => null);
+      return timestamps.map((ts) => {
+        const price = getSolPriceAt(candles, ts);
+        return price === null ? null : inputs.notional * (price / startPrice - 1);
+      });
+    }
+  }
+}
+
+/**
+ * Strategy PnL over a benchmark's, in USD and annualized as % of notional
+ */
+export function getExcessReturn(
+  strategyPnl: number,
+  benchmarkPnl: number,
+  notional: number,
+  days: number
+): { excessUsd: number; excessApy: number | null } {
+  const excessUsd = strategyPnl - benchmarkPnl;
+  const excessApy =
+    notional > 0 && days > 0 ? (excessUsd / notional) * (365 / days) * 100 : null;
+  return { excessUsd, excessApy };
+}
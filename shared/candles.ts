@@ -0,0 +1,60 @@
+/**
+ * Candles for a fixed time window from the Drift candles API.
+ * The API returns at most CANDLE_PAGE_LIMIT candles per request, newest first, counting back
+ * from startTs towards endTs; a window further back than that is paged backwards from its end.
+ */
+
+import type { DailyCandleRecord } from "./drift-types";
+
+/** Most candles the candles API returns per request */
+export const CANDLE_PAGE_LIMIT = 1000;
+
+/** Requests per market and window (hourly candles back to Drift v2's launch fit in 40) */
+export const MAX_CANDLE_PAGES = 40;
+
+export type CandleResolution = "60" | "D";
+
+/**
+ * Candles URL for one page: up to CANDLE_PAGE_LIMIT candles from startTs (newest) back to endTs
+ */
+export function getCandleWindowUrl(
+  apiBase: string,
+  perpSymbol: string,
+  resolution: CandleResolution,
+  startTs: number,
+  endTs: number
+): string {
+  return `${apiBase}/market/${perpSymbol}/candles/${resolution}?startTs=${startTs}&endTs=${endTs}&limit=${CANDLE_PAGE_LIMIT}`;
+}
+
+/**
+ * Candles covering [fromTs, toTs], oldest first. getPage fetches one page between startTs
+ * (newest) and endTs. isComplete is false when a page failed or MAX_CANDLE_PAGES ran out
+ * before the window's start; the records fetched so far are still returned.
+ */
+export async function fetchCandleWindow(
+  getPage: (startTs: number, endTs: number) => Promise<DailyCandleRecord[]>,
+  fromTs: number,
+  toTs: number
+): Promise<{ records: DailyCandleRecord[]; isComplete: boolean }> {
+  const byTs = new Map<number, DailyCandleRecord>();
+  let cursor = toTs;
+  let isComplete = false;
+  try {
+    for (let page = 0; page < MAX_CANDLE_PAGES; page++) {
+      const candles = await getPage(cursor, fromTs);
+      for (const candle of candles) byTs.set(candle.ts, candle);
+      const oldest = Math.min(...candles.map((c) => c.ts));
+      // A short page means the market has no older candles (listed after fromTs)
+      if (candles.length < CANDLE_PAGE_LIMIT || oldest <= fromTs) {
+        isComplete = true;
+        break;
+      }
+      cursor = oldest - 1;
+    }
+  } catch {
+    // Keep what was fetched; the window stays incomplete
+  }
+  const records = [...byTs.values()].sort((a, b) => a.ts - b.ts);
+  return { records, isComplete };
+}
@@ -0,0 +1,120 @@
+/**
+ * Capital flows and money-weighted return (XIRR) from deposit/withdrawal records.
+ * Pure helpers for the dashboard's equity curve and XIRR.
+ *
+ * Each flow is valued in USD at the oracle price when it happened. Equity at a point in
+ * time is net contributions so far plus strategy PnL since the start of the period;
+ * PnL earned before the period is not known, so the period opens at net contributions.
+ * That holds only for stablecoin flows: a SOL deposit's price move isn't in the strategy
+ * PnL, so XIRR is left undefined once any other asset has moved in or out.
+ */
+
+import type { DriftDepositRecord } from "./drift-types";
+import { getSpotMarketName, STABLE_SYMBOLS } from "./market-names";
+
+const YEAR_SECONDS = 365 * 24 * 60 * 60;
+
+/** Newton iterations before giving up on XIRR */
+const MAX_XIRR_ITERATIONS = 100;
+
+export interface CapitalFlow {
+  ts: number; // unix seconds
+  user: string; // Drift user account pubkey
+  symbol: string; // spot symbol, e.g. "USDC"
+  direction: DriftDepositRecord["direction"];
+  amount: number; // tokens
+  valueUsd: number; // positive for deposits, negative for withdrawals
+}
+
+/** Cash flow from the investor's side: negative = paid in, positive = paid out */
+export interface CashFlow {
+  ts: number;
+  amount: number;
+}
+
+/**
+ * Deposit records → USD capital flows, oldest first
+ */
+export function toCapitalFlows(records: DriftDepositRecord[]): CapitalFlow[] {
+  return records
+    .map((record) => {
+      const amount = parseFloat(record.amount) || 0;
+      const value = amount * (parseFloat(record.oraclePrice) || 0);
+      return {
+        ts: record.ts,
+        user: record.user,
+        symbol: getSpotMarketName(record.marketIndex),
+        direction: record.direction,
+        amount,
+        valueUsd: record.direction === "deposit" ? value : -value,
+      };
+    })
+    .filter((flow) => flow.valueUsd !== 0)
+    .sort((a, b) => a.ts - b.ts);
+}
+
+/**
+ * Net contributions (USD) of flows up to and including `ts`
+ */
+export function getNetContributions(flows: CapitalFlow[], ts: number): number {
+  let total = 0;
+  for (const flow of flows) {
+    if (flow.ts > ts) break;
+    total += flow.valueUsd;
+  }
+  return total;
+}
+
+/**
+ * Cash flows for XIRR over [fromTs, toTs]: opening equity paid in, deposits paid in,
+ * withdrawals paid out, closing equity paid out. Null when a non-stablecoin flow up to
+ * toTs leaves equity unknown without its price at the period's ends.
+ */
+export function buildCashFlows(
+  flows: CapitalFlow[],
+  fromTs: number,
+  toTs: number,
+  periodPnl: number
+): CashFlow[] | null {
+  if (flows.some((flow) => flow.ts <= toTs && !STABLE_SYMBOLS.has(flow.symbol.toUpperCase()))) return null;
+  const opening = getNetContributions(flows, fromTs);
+  const cashFlows: CashFlow[] = [];
+  if (opening !== 0) cashFlows.push({ ts: fromTs, amount: -opening });
+  for (const flow of flows) {
+    if (flow.ts <= fromTs || flow.ts > toTs) continue;
+    cashFlows.push({ ts: flow.ts, amount: -flow.valueUsd });
+  }
+  const closing = getNetContributions(flows, toTs) + periodPnl;
+  cashFlows.push({ ts: toTs, amount: closing });
+  return cashFlows;
+}
+
+/**
+ * Annualized money-weighted return (%) that sets the flows' NPV to zero, or null when
+ * it's undefined (no money in or out) or doesn't converge
+ */
+export function calculateXirr(cashFlows: CashFlow[]): number | null {
+  if (cashFlows.length < 2) return null;
+  if (!cashFlows.some((f) => f.amount < 0) || !cashFlows.some((f) => f.amount > 0)) return null;
+
+  const t0 = Math.min(...cashFlows.map((f) => f.ts));
+  const years = cashFlows.map((f) => (f.ts - t0) / YEAR_SECONDS);
+
+  const npv = (rate: number) =>
+    cashFlows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const dNpv = (rate: number) =>
+    cashFlows.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < MAX_XIRR_ITERATIONS; i++) {
+    const value = npv(rate);
+    const slope = dNpv(rate);
+    if (slope === 0 || !Number.isFinite(slope)) return null;
+    const next = rate - value / slope;
+    // Rates at or below -100% have no meaning; step halfway towards it instead
+    const bounded = next <= -1 ? (rate - 1) / 2 : next;
+    if (Math.abs(bounded - rate) < 1e-9) return bounded * 100;
+    rate = bounded;
+  }
+  return null;
+}
@@ -24,3 +24,103 @@ export interface DriftFundingPaymentsResponse {
     nextPage?: string;
   };
 }
+
+/**
+ * Candle record from Drift API (daily or hourly resolution)
+ */
+export interface DailyCandleRecord {
+  ts: number;
+  oracleClose: number;
+  oracleOpen: number;
+  oracleHigh: number;
+  oracleLow: number;
+}
+
+export interface DailyCandlesResponse {
+  success: boolean;
+  records: DailyCandleRecord[];
+}
+
+/** Archived funding history served by /api/funding/:walletSubkey. */
+export interface FundingHistoryResponse {
+  walletSubkey: string;
+  from: number; // unix seconds
+  to: number; // unix seconds
+  records: DriftFundingPaymentRecord[];
+}
+
+/** A Drift user (sub-)account owned by an authority. */
+export interface DriftSubAccount {
+  address: string; // user account pubkey (what fundingPayments is keyed on)
+  subAccountId: number;
+  name: string;
+}
+
+/** Sub-accounts served by /api/accounts/:authority. */
+export interface SubAccountsResponse {
+  authority: string;
+  accounts: DriftSubAccount[];
+}
+
+/**
+ * Deposit/withdrawal record from Drift API (/user/{account}/deposits)
+ * The market's cumulative interest indices are snapshotted at each record
+ */
+export interface DriftDepositRecord {
+  ts: number;
+  txSig: string;
+  txSigIndex: number;
+  slot: number;
+  userAuthority: string;
+  user: string;
+  direction: "deposit" | "withdraw";
+  marketIndex: number; // spot market index
+  amount: string; // token amount
+  oraclePrice: string;
+  marketDepositBalance: string;
+  marketWithdrawBalance: string;
+  marketCumulativeDepositInterest: string;
+  marketCumulativeBorrowInterest: string;
+  explanation: string;
+}
+
+export interface DriftDepositRecordsResponse {
+  success: boolean;
+  records: DriftDepositRecord[];
+  meta: {
+    nextPage?: string;
+  };
+}
+
+/**
+ * Fill record from Drift API (/user/{account}/trades)
+ * Amounts are decimal strings; fees are in quote (USDC), makerFee is negative for a rebate
+ */
+export interface DriftTradeRecord {
+  ts: number;
+  txSig: string;
+  txSigIndex: number;
+  slot: number;
+  fillRecordId: string;
+  marketIndex: number;
+  marketType: "perp" | "spot";
+  action: string;
+  actionExplanation: string;
+  baseAssetAmountFilled: string;
+  quoteAssetAmountFilled: string;
+  oraclePrice: string;
+  taker: string | null;
+  takerOrderDirection: "long" | "short" | null;
+  takerFee: string;
+  maker: string | null;
+  makerOrderDirection: "long" | "short" | null;
+  makerFee: string;
+}
+
+export interface DriftTradeRecordsResponse {
+  success: boolean;
+  records: DriftTradeRecord[];
+  meta: {
+    nextPage?: string;
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * CSV/JSON export of the funding ledger, daily metrics and positions.
+ * Each dataset has a fixed column list, so files keep the same columns (and JSON the
+ * same keys) in the same order whatever the data; missing values are empty / null.
+ */
+
+import type { DriftFundingPaymentRecord } from "./drift-types";
+import type { DailyMarketBreakdown, DailyMetric, Position } from "./schema";
+import { getMarketName } from "./market-names";
+import { keyToUnix } from "./timezone";
+
+export type ExportFormat = "csv" | "json";
+
+export type ExportValue = string | number | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  value: (row: T) => ExportValue;
+}
+
+/** Decimal string fields go out as numbers; absent ones as null. */
+const num = (value: string | number | undefined): number | null => {
+  if (value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const isoTime = (ts: number): string => new Date(ts * 1000).toISOString();
+
+/**
+ * Unix seconds where a metric's bucket starts: Date/ISO instants as-is, bare
+ * YYYY-MM-DD / YYYY-MM-DDTHH:00:00 keys in the given timezone
+ */
+export function getMetricStartTs(date: string | Date, timeZone?: string): number {
+  if (date instanceof Date) return Math.floor(date.getTime() / 1000);
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(date)) return Math.floor(Date.parse(date) / 1000);
+  return keyToUnix(date, timeZone);
+}
+
+export const FUNDING_RECORD_COLUMNS: ExportColumn<DriftFundingPaymentRecord>[] = [
+  { key: "ts", value: (r) => r.ts },
+  { key: "time", value: (r) => isoTime(r.ts) },
+  { key: "account", value: (r) => r.user },
+  { key: "authority", value: (r) => r.userAuthority },
+  { key: "marketIndex", value: (r) => r.marketIndex },
+  { key: "market", value: (r) => getMarketName(r.marketIndex) },
+  // As the API returned them, so totals reconcile to the last digit
+  { key: "fundingPayment", value: (r) => r.fundingPayment },
+  { key: "baseAssetAmount", value: (r) => r.baseAssetAmount },
+  { key: "userLastCumulativeFunding", value: (r) => r.userLastCumulativeFunding },
+  { key: "ammCumulativeFundingLong", value: (r) => r.ammCumulativeFundingLong },
+  { key: "ammCumulativeFundingShort", value: (r) => r.ammCumulativeFundingShort },
+  { key: "txSig", value: (r) => r.txSig },
+  { key: "txSigIndex", value: (r) => r.txSigIndex },
+  { key: "slot", value: (r) => r.slot },
+];
+
+/** A daily metric with its bucket start resolved, so columns don't need the timezone. */
+export interface ExportMetric {
+  startTs: number;
+  metric: DailyMetric;
+}
+
+export const DAILY_METRIC_COLUMNS: ExportColumn<ExportMetric>[] = [
+  { key: "periodStart", value: (r) => isoTime(r.startTs) },
+  { key: "pnl", value: (r) => num(r.metric.dailyPnl) },
+  { key: "funding", value: (r) => num(r.metric.dailyFunding) },
+  { key: "interest", value: (r) => num(r.metric.dailyInterest) },
+  { key: "borrowCost", value: (r) => num(r.metric.dailyBorrowCost) },
+  { key: "cumulativePnl", value: (r) => num(r.metric.cumulativePnl) },
+  { key: "notionalValue", value: (r) => num(r.metric.notionalValue) },
+  { key: "apy", value: (r) => num(r.metric.portfolioApy) },
+];
+
+export const MARKET_BREAKDOWN_COLUMNS: ExportColumn<DailyMarketBreakdown>[] = [
+  { key: "marketIndex", value: (r) => r.marketIndex },
+  { key: "market", value: (r) => r.marketName },
+  { key: "funding", value: (r) => r.dailyFunding },
+  { key: "notionalValue", value: (r) => r.notionalValue },
+  { key: "apy", value: (r) => r.apy },
+];
+
+export const POSITION_COLUMNS: ExportColumn<Position>[] = [
+  { key: "market", value: (p) => p.pairName },
+  { key: "hedgeType", value: (p) => p.hedgeType },
+  { key: "strategySide", value: (p) => p.strategySide },
+  { key: "status", value: (p) => p.status },
+  { key: "size", value: (p) => num(p.notionalSize) },
+  { key: "currentPrice", value: (p) => num(p.currentPrice) },
+  { key: "notionalValue", value: (p) => num(p.notionalValue) },
+  { key: "avgNotional", value: (p) => num(p.avgNotional) },
+  { key: "fundingEarned", value: (p) => num(p.fundingEarned) },
+  { key: "interestEarned", value: (p) => num(p.interestEarned) },
+  { key: "borrowCost", value: (p) => num(p.borrowCost) },
+  { key: "tradingFees", value: (p) => num(p.tradingFees) },
+  { key: "realizedPnl", value: (p) => num(p.realizedPnl) },
+  { key: "unrealizedPnl", value: (p) => num(p.unrealizedPnl) },
+  { key: "spotLegPnl", value: (p) => num(p.spotLegPnl) },
+  { key: "netPnl", value: (p) => num(p.netPnl) },
+  { key: "roi", value: (p) => num(p.roi) },
+  { key: "longEntryPrice", value: (p) => num(p.longEntryPrice) },
+  { key: "shortEntryPrice", value: (p) => num(p.shortEntryPrice) },
+];
+
+/**
+ * One object per row with the columns' keys, in column order
+ */
+export function toRows<T>(rows: T[], columns: ExportColumn<T>[]): Record<string, ExportValue>[] {
+  return rows.map((row) => Object.fromEntries(columns.map((c) => [c.key, c.value(row)])));
+}
+
+const escapeCsv = (value: ExportValue): string => {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with a header row of column keys
+ */
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const lines = [columns.map((c) => c.key).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => escapeCsv(c.value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export type ExportDataset = "funding" | "daily" | "daily-markets" | "positions";
+
+export interface ExportSource {
+  records: DriftFundingPaymentRecord[];
+  dailyMetrics: DailyMetric[];
+  positions: Position[];
+  timeZone?: string;  // For bare day keys in dailyMetrics
+}
+
+/**
+ * A dataset as CSV or JSON
+ * CSV is flat, so the per-market breakdown is its own dataset (one row per bucket and
+ * market); in JSON the daily metrics carry it as a nested `markets` array.
+ */
+export function buildExport(
+  dataset: ExportDataset,
+  format: ExportFormat,
+  source: ExportSource
+): string {
+  const metrics: ExportMetric[] = source.dailyMetrics
+    .map((metric) => ({ startTs: getMetricStartTs(metric.date, source.timeZone), metric }))
+    .sort((a, b) => a.startTs - b.startTs);
+
+  switch (dataset) {
+    case "funding": {
+      const records = [...source.records].sort((a, b) => a.ts - b.ts || a.txSigIndex - b.txSigIndex);
+      return format === "csv"
+        ? toCsv(records, FUNDING_RECORD_COLUMNS)
+        : JSON.stringify(toRows(records, FUNDING_RECORD_COLUMNS), null, 2);
+    }
+    case "daily":
+      return format === "csv"
+        ? toCsv(metrics, DAILY_METRIC_COLUMNS)
+        : JSON.stringify(
+            metrics.map((m) => ({
+              ...toRows([m], DAILY_METRIC_COLUMNS)[0],
+              markets: toRows(m.metric.perMarketBreakdown ?? [], MARKET_BREAKDOWN_COLUMNS),
+            })),
+            null,
+            2
+          );
+    case "daily-markets": {
+      const columns: ExportColumn<ExportMetric & { market: DailyMarketBreakdown }>[] = [
+        DAILY_METRIC_COLUMNS[0],
+        ...MARKET_BREAKDOWN_COLUMNS.map((c) => ({
+          key: c.key,
+          value: (r: { market: DailyMarketBreakdown }) => c.value(r.market),
+        })),
+      ];
+      const rows = metrics.flatMap((m) =>
+        (m.metric.perMarketBreakdown ?? []).map((market) => ({ ...m, market }))
+      );
+      return format === "csv"
+        ? toCsv(rows, columns)
+        : JSON.stringify(toRows(rows, columns), null, 2);
+    }
+    case "positions":
+      return format === "csv"
+        ? toCsv(source.positions, POSITION_COLUMNS)
+        : JSON.stringify(toRows(source.positions, POSITION_COLUMNS), null, 2);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Fills ledger rebuilt from trade records: VWAP entry, fees and realized PnL per leg.
+ * Shared by the client dashboard and the /api/strategies endpoint.
+ *
+ * Each leg (account × perp or spot market) is replayed oldest first with average-cost
+ * accounting: fills that grow the leg move the entry to the volume-weighted price,
+ * fills that reduce it realize (price − entry) × size. Fees and realized PnL only
+ * count from `since`, but entries need the full history, so pass all trades.
+ * Spot balances that came from deposits rather than fills have no entry price.
+ */
+
+import type { DriftTradeRecord } from "./drift-types";
+import type { TradeFill } from "./schema";
+import { getMarketName, getSpotMarketName } from "./market-names";
+
+/** Leg sizes below this are treated as flat (float dust) */
+const FLAT_EPSILON = 1e-9;
+
+/**
+ * Trade history pages fetched per account (client and server). Past it the oldest trades
+ * are missing, so entries and realized PnL can't be rebuilt and the ledger is skipped.
+ */
+export const MAX_TRADE_PAGES = 50;
+
+/** Open size and entry of one leg, with fees and realized PnL within the range */
+export interface LegSummary {
+  account: string;
+  marketType: TradeFill["marketType"];
+  marketIndex: number;
+  symbol: string;
+  position: number; // signed size after the last fill
+  entryPrice: number; // VWAP entry of the open size, 0 when flat
+  fees: number;
+  realizedPnl: number;
+  volume: number; // USD
+  fillCount: number;
+}
+
+export interface FillsLedger {
+  /** Fills within the range, newest first */
+  fills: TradeFill[];
+  legs: LegSummary[];
+}
+
+export interface FillsLedgerOptions {
+  /** Only fills at or after this time (unix seconds) count towards fees and realized PnL */
+  since?: number;
+}
+
+type FillSide = Omit<TradeFill, "realizedPnl" | "positionAfter">;
+
+/**
+ * The tracked accounts' sides of a trade record: one fill per tracked role, so a trade
+ * between two tracked accounts updates both legs
+ */
+function toFills(record: DriftTradeRecord, accounts: Set<string>): FillSide[] {
+  const baseAmount = Math.abs(parseFloat(record.baseAssetAmountFilled) || 0);
+  const quoteAmount = Math.abs(parseFloat(record.quoteAssetAmountFilled) || 0);
+  if (baseAmount === 0) return [];
+
+  const fills: FillSide[] = [];
+  for (const role of ["taker", "maker"] as const) {
+    const account = role === "taker" ? record.taker : record.maker;
+    const direction = role === "taker" ? record.takerOrderDirection : record.makerOrderDirection;
+    if (!account || !accounts.has(account) || !direction) continue;
+    fills.push({
+      ts: record.ts,
+      txSig: record.txSig,
+      account,
+      marketType: record.marketType,
+      marketIndex: record.marketIndex,
+      symbol: record.marketType === "spot"
+        ? getSpotMarketName(record.marketIndex)
+        : getMarketName(record.marketIndex),
+      side: direction === "long" ? "buy" : "sell",
+      role,
+      baseAmount,
+      quoteAmount,
+      price: quoteAmount / baseAmount,
+      fee: parseFloat(role === "taker" ? record.takerFee : record.makerFee) || 0,
+    });
+  }
+  return fills;
+}
+
+/**
+ * Replay the accounts' trades into per-leg entries and a fills ledger
+ * Expects the full trade history of each account (legs are rebuilt from zero)
+ */
+export function buildFillsLedger(
+  records: DriftTradeRecord[],
+  accounts: string[],
+  options: FillsLedgerOptions = {}
+): FillsLedger {
+  const since = options.since ?? 0;
+  const accountSet = new Set(accounts);
+
+  // The same record comes back from both accounts' histories when they traded with each other;
+  // keep one copy, toFills then emits both sides
+  const seen = new Set<string>();
+  const sorted = [...records]
+    .filter((r) => {
+      const key = `${r.txSig}:${r.txSigIndex}:${r.fillRecordId}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.ts - b.ts || a.txSigIndex - b.txSigIndex);
+
+  const legs = new Map<string, LegSummary>();
+  const fills: TradeFill[] = [];
+
+  for (const fill of sorted.flatMap((record) => toFills(record, accountSet))) {
+    const key = `${fill.account}:${fill.marketType}:${fill.marketIndex}`;
+    if (!legs.has(key)) {
+      legs.set(key, {
+        account: fill.account,
+        marketType: fill.marketType,
+        marketIndex: fill.marketIndex,
+        symbol: fill.symbol,
+        position: 0,
+        entryPrice: 0,
+        fees: 0,
+        realizedPnl: 0,
+        volume: 0,
+        fillCount: 0,
+      });
+    }
+    const leg = legs.get(key)!;
+
+    const signedSize = fill.side === "buy" ? fill.baseAmount : -fill.baseAmount;
+    let realizedPnl = 0;
+
+    if (leg.position === 0 || Math.sign(leg.position) === Math.sign(signedSize)) {
+      // Growing the leg: move the entry to the volume-weighted price
+      const newSize = Math.abs(leg.position) + fill.baseAmount;
+      leg.entryPrice = (leg.entryPrice * Math.abs(leg.position) + fill.price * fill.baseAmount) / newSize;
+      leg.position += signedSize;
+    } else {
+      // Reducing (or flipping) the leg: realize against the entry
+      const closedSize = Math.min(fill.baseAmount, Math.abs(leg.position));
+      realizedPnl = closedSize * (fill.price - leg.entryPrice) * Math.sign(leg.position);
+      leg.position += signedSize;
+      if (Math.abs(leg.position) < FLAT_EPSILON) {
+        leg.position = 0;
+        leg.entryPrice = 0;
+      } else if (fill.baseAmount > closedSize) {
+        leg.entryPrice = fill.price; // Flipped: the remainder opened at this fill's price
+      }
+    }
+
+    if (fill.ts >= since) {
+      leg.fees += fill.fee;
+      leg.realizedPnl += realizedPnl;
+      leg.volume += fill.quoteAmount;
+      leg.fillCount++;
+      fills.push({ ...fill, realizedPnl, positionAfter: leg.position });
+    }
+  }
+
+  return { fills: fills.reverse(), legs: [...legs.values()] };
+}
@@ -93,3 +93,50 @@ export const DRIFT_MARKET_NAMES: Record<number, string> = {
 export function getMarketName(marketIndex: number): string {
   return DRIFT_MARKET_NAMES[marketIndex] || `MARKET-${marketIndex}`;
 }
+
+/**
+ * Spot market index → symbol mapping (symbols match the perp-spot mapping, e.g. wBTC, BONK).
+ */
+export const DRIFT_SPOT_MARKET_NAMES: Record<number, string> = {
+  0: "USDC",
+  1: "SOL",
+  2: "mSOL",
+  3: "wBTC",
+  4: "wETH",
+  5: "USDT",
+  6: "jitoSOL",
+  7: "PYTH",
+  8: "bSOL",
+  9: "JTO",
+  10: "WIF",
+  11: "JUP",
+  12: "RENDER",
+  13: "W",
+  14: "TNSR",
+  15: "DRIFT",
+  16: "INF",
+  17: "dSOL",
+  18: "USDY",
+  19: "JLP",
+  20: "POPCAT",
+  21: "CLOUD",
+  22: "PYUSD",
+  23: "USDe",
+  24: "sUSDe",
+  25: "BNSOL",
+  26: "MOTHER",
+  27: "cbBTC",
+  28: "USDS",
+  29: "META",
+  30: "ME",
+  31: "PENGU",
+  32: "BONK",
+};
+
+/** Stablecoin spot symbols, upper case; quote assets valued at $1 with no price delta. */
+export const STABLE_SYMBOLS = new Set(["USDC", "USDT", "PYUSD", "USDS", "USDE", "SUSDE", "USDY"]);
+
+/** Resolve a spot market index to its symbol, e.g. 1 → "SOL". */
+export function getSpotMarketName(marketIndex: number): string {
+  return DRIFT_SPOT_MARKET_NAMES[marketIndex] || `SPOT-${marketIndex}`;
+}
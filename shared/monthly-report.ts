@@ -0,0 +1,148 @@
+/**
+ * Monthly performance report built from transformDriftDataToStrategy output:
+ * headline numbers, per-market rows, best/worst days and month-over-month change.
+ */
+
+import type { DailyMetric, Position, StrategyResponse } from "./schema";
+
+export interface ReportSummary {
+  fundingPnl: number;
+  carryPnl: number;             // Funding + lending interest - borrow cost
+  netPnl: number;               // Carry - trading fees + realized PnL
+  avgNotional: number;          // Time-weighted, summed over markets
+  roi: number | null;           // % of avg notional
+  apy: number | null;
+  markets: number;
+  activeDays: number;           // Buckets with any PnL
+}
+
+export interface ReportMarketRow {
+  market: string;
+  fundingPnl: number;
+  interestPnl: number;          // Lending interest - borrow cost
+  netPnl: number;
+  avgNotional: number;
+  apy: number | null;
+}
+
+export interface ReportDay {
+  date: string | Date;
+  pnl: number;
+  funding: number;
+}
+
+export interface ReportComparisonRow {
+  label: string;
+  current: number | null;
+  previous: number | null;
+  unit: "usd" | "pct";
+}
+
+export interface MonthlyReport {
+  summary: ReportSummary;
+  markets: ReportMarketRow[];   // Highest net PnL first
+  bestDays: ReportDay[];
+  worstDays: ReportDay[];
+  previous: ReportSummary | null;
+  comparison: ReportComparisonRow[];
+}
+
+const REPORT_DAYS = 3;
+
+const toNumber = (value: string | undefined) => (value ? parseFloat(value) || 0 : 0);
+
+const annualize = (roi: number | null, days: number) =>
+  roi !== null && days > 0 ? roi * (365 / days) : null;
+
+/**
+ * Avg notional of a position, falling back to its current notional like the dashboard's APY
+ */
+const getAvgNotional = (p: Position) => toNumber(p.avgNotional) || toNumber(p.notionalValue);
+
+/**
+ * Headline numbers for one period of `days` days
+ */
+export function summarizePeriod(strategy: StrategyResponse, days: number): ReportSummary {
+  const netPnl = strategy.positions.reduce((sum, p) => sum + toNumber(p.netPnl), 0);
+  const avgNotional = strategy.positions.reduce((sum, p) => sum + getAvgNotional(p), 0);
+  const roi = avgNotional > 0 ? (netPnl / avgNotional) * 100 : null;
+  return {
+    fundingPnl: toNumber(strategy.totalFundingPnl),
+    carryPnl: strategy.dailyMetrics.reduce((sum, m) => sum + toNumber(m.dailyPnl), 0),
+    netPnl,
+    avgNotional,
+    roi,
+    apy: annualize(roi, days),
+    markets: strategy.positions.length,
+    activeDays: strategy.dailyMetrics.filter((m) => toNumber(m.dailyPnl) !== 0).length,
+  };
+}
+
+const toReportDay = (m: DailyMetric): ReportDay => ({
+  date: m.date,
+  pnl: toNumber(m.dailyPnl),
+  funding: toNumber(m.dailyFunding),
+});
+
+/**
+ * Report for a month, with the previous month when it has data
+ */
+export function buildMonthlyReport(
+  current: StrategyResponse,
+  days: number,
+  previous: StrategyResponse | null,
+  previousDays: number
+): MonthlyReport {
+  const summary = summarizePeriod(current, days);
+  const previousSummary = previous ? summarizePeriod(previous, previousDays) : null;
+
+  const markets: ReportMarketRow[] = current.positions
+    .map((p) => {
+      const avgNotional = getAvgNotional(p);
+      const netPnl = toNumber(p.netPnl);
+      return {
+        market: p.pairName,
+        fundingPnl: toNumber(p.fundingEarned),
+        interestPnl: toNumber(p.interestEarned) - toNumber(p.borrowCost),
+        netPnl,
+        avgNotional,
+        apy: avgNotional > 0 ? annualize((netPnl / avgNotional) * 100, days) : null,
+      };
+    })
+    .sort((a, b) => b.netPnl - a.netPnl);
+
+  // Best first; with few active days the worst list only takes days not already best
+  const byPnl = current.dailyMetrics
+    .filter((m) => toNumber(m.dailyPnl) !== 0)
+    .map(toReportDay)
+    .sort((a, b) => b.pnl - a.pnl);
+  const bestDays = byPnl.slice(0, REPORT_DAYS);
+  const worstDays = byPnl.slice(bestDays.length).slice(-REPORT_DAYS).reverse();
+
+  const row = (
+    label: string,
+    pick: (s: ReportSummary) => number | null,
+    unit: ReportComparisonRow["unit"]
+  ): ReportComparisonRow => ({
+    label,
+    current: pick(summary),
+    previous: previousSummary ? pick(previousSummary) : null,
+    unit,
+  });
+
+  return {
+    summary,
+    markets,
+    bestDays,
+    worstDays,
+    previous: previousSummary,
+    comparison: [
+      row("Funding PnL", (s) => s.fundingPnl, "usd"),
+      row("Carry PnL", (s) => s.carryPnl, "usd"),
+      row("Net PnL", (s) => s.netPnl, "usd"),
+      row("Avg notional", (s) => s.avgNotional, "usd"),
+      row("ROI", (s) => s.roi, "pct"),
+      row("APY", (s) => s.apy, "pct"),
+    ],
+  };
+}
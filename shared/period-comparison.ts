@@ -0,0 +1,57 @@
+/**
+ * Period-over-period comparison: the previous period's funding series and a
+ * per-market diff against the current period.
+ * Both sides come from transformDriftDataToStrategy over equal-length windows.
+ */
+
+import type { MarketComparison, Position, PreviousPeriod, StrategyResponse } from "./schema";
+
+/**
+ * Funding APY (%) from time-weighted notional, or null without notional
+ */
+function getFundingApy(position: Position | undefined, periodDays: number): number | null {
+  if (!position || periodDays <= 0) return null;
+  const avgNotional = parseFloat(position.avgNotional ?? "0");
+  if (!(avgNotional > 0)) return null;
+  return (parseFloat(position.fundingEarned) / avgNotional) * (365 / periodDays) * 100;
+}
+
+/**
+ * Previous period's series and per-market changes vs the current strategy.
+ * periodDays is the length of each period.
+ */
+export function buildPreviousPeriod(
+  current: StrategyResponse,
+  previous: StrategyResponse,
+  periodDays: number
+): PreviousPeriod {
+  const currentByPair = new Map(current.positions.map((p) => [p.pairName, p]));
+  const previousByPair = new Map(previous.positions.map((p) => [p.pairName, p]));
+  const pairNames = new Set([...currentByPair.keys(), ...previousByPair.keys()]);
+
+  const markets: MarketComparison[] = [...pairNames].map((pairName) => {
+    const cur = currentByPair.get(pairName);
+    const prev = previousByPair.get(pairName);
+    const apy = getFundingApy(cur, periodDays);
+    const previousApy = getFundingApy(prev, periodDays);
+    return {
+      pairName,
+      fundingEarned: cur?.fundingEarned ?? "0.00",
+      previousFundingEarned: prev?.fundingEarned ?? "0.00",
+      apy: apy !== null ? apy.toFixed(2) : "",
+      previousApy: previousApy !== null ? previousApy.toFixed(2) : "",
+      avgNotional: cur?.avgNotional ?? "0.00",
+      previousAvgNotional: prev?.avgNotional ?? "0.00",
+    };
+  });
+
+  const fundingChange = (m: MarketComparison) =>
+    parseFloat(m.fundingEarned) - parseFloat(m.previousFundingEarned);
+  markets.sort((a, b) => fundingChange(a) - fundingChange(b));
+
+  return {
+    shiftSeconds: Math.round(periodDays * 24 * 60 * 60),
+    dailyMetrics: previous.dailyMetrics,
+    markets,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Perp → spot market mapping for Drift Protocol.
+ * Shared by the server (yield scanner) and client (hedge monitor).
+ */
+
+/** Perp base symbols whose spot market uses a different symbol (special cases from docs) */
+export const PERP_BASE_TO_SPOT_SYMBOL: Record<string, string> = {
+  "1MBONK": "BONK",
+  "1MPEPE": "PEPE",
+  "1KWEN": "WEN",
+  "1KMEW": "MEW",
+  BTC: "wBTC",
+  ETH: "wETH",
+};
+
+/**
+ * Base symbol of a perp market ("1MBONK-PERP" → "1MBONK", "SOL" → "SOL")
+ */
+export function getPerpBaseSymbol(perpSymbol: string): string {
+  return perpSymbol.replace(/-PERP$/, "");
+}
+
+/**
+ * Spot symbol hedging a perp market ("1MBONK-PERP" → "BONK", "BTC-PERP" → "wBTC")
+ */
+export function getSpotSymbolForPerp(perpSymbol: string): string {
+  const base = getPerpBaseSymbol(perpSymbol);
+  return PERP_BASE_TO_SPOT_SYMBOL[base] ?? base;
+}
+
+/**
+ * Spot tokens per unit of perp base asset (1MBONK → 1,000,000, 1KWEN → 1,000, otherwise 1)
+ */
+export function getPerpBaseMultiplier(perpSymbol: string): number {
+  const base = getPerpBaseSymbol(perpSymbol);
+  if (base.startsWith("1M")) return 1_000_000;
+  if (base.startsWith("1K")) return 1_000;
+  return 1;
+}
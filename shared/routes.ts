@@ -1,17 +1,128 @@
 import { z } from "zod";
 import type { StrategyResponse } from "./schema";
+import type { FundingHistoryResponse, SubAccountsResponse } from "./drift-types";
+import {
+  alertRuleInputSchema,
+  alertRulePatchSchema,
+  type AlertEvent,
+  type AlertRule,
+} from "./alerts";
+
+const strategyQuery = z.object({
+  timeframe: z.enum(["24H", "7D", "30D", "3M", "6M", "1Y"]).optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  resolution: z.enum(["hour", "day"]).optional(),
+  tz: z.string().optional(),
+});
 
 export const api = {
   strategies: {
     getByWallet: {
       method: "GET" as const,
       path: "/api/strategies/:walletSubkey",
+      query: strategyQuery,
       responses: {
         200: z.custom<StrategyResponse>(),
+        400: z.object({ message: z.string() }),
         404: z.object({ message: z.string() }),
       },
     },
   },
+  cards: {
+    // PnL summary card (SVG, or PNG with ?format=png) over the same data as strategies.getByWallet
+    getByWallet: {
+      method: "GET" as const,
+      path: "/api/card/:walletSubkey",
+      query: strategyQuery.extend({ format: z.enum(["svg", "png"]).optional() }),
+      responses: {
+        200: z.string(),
+        400: z.object({ message: z.string() }),
+        404: z.object({ message: z.string() }),
+      },
+    },
+  },
+  accounts: {
+    getByAuthority: {
+      method: "GET" as const,
+      path: "/api/accounts/:authority",
+      responses: {
+        200: z.custom<SubAccountsResponse>(),
+        400: z.object({ message: z.string() }),
+        503: z.object({ message: z.string() }),
+      },
+    },
+  },
+  alerts: {
+    listRules: {
+      method: "GET" as const,
+      path: "/api/alerts/rules",
+      responses: {
+        200: z.custom<AlertRule[]>(),
+      },
+    },
+    createRule: {
+      method: "POST" as const,
+      path: "/api/alerts/rules",
+      input: alertRuleInputSchema,
+      responses: {
+        201: z.custom<AlertRule>(),
+        400: z.object({ message: z.string() }),
+      },
+    },
+    updateRule: {
+      method: "PATCH" as const,
+      path: "/api/alerts/rules/:id",
+      input: alertRulePatchSchema,
+      responses: {
+        200: z.custom<AlertRule>(),
+        400: z.object({ message: z.string() }),
+        404: z.object({ message: z.string() }),
+      },
+    },
+    deleteRule: {
+      method: "DELETE" as const,
+      path: "/api/alerts/rules/:id",
+      responses: {
+        204: z.void(),
+        404: z.object({ message: z.string() }),
+      },
+    },
+    getHistory: {
+      method: "GET" as const,
+      path: "/api/alerts/history",
+      query: z.object({
+        limit: z.coerce.number().int().min(1).max(1000).optional(),
+        ruleId: z.string().optional(),
+      }),
+      responses: {
+        200: z.custom<AlertEvent[]>(),
+        400: z.object({ message: z.string() }),
+      },
+    },
+    // Run the rules now instead of waiting for the schedule
+    evaluate: {
+      method: "POST" as const,
+      path: "/api/alerts/evaluate",
+      responses: {
+        200: z.custom<AlertEvent[]>(),
+      },
+    },
+  },
+  funding: {
+    getHistory: {
+      method: "GET" as const,
+      path: "/api/funding/:walletSubkey",
+      query: z.object({
+        from: z.string().optional(),
+        to: z.string().optional(),
+      }),
+      responses: {
+        200: z.custom<FundingHistoryResponse>(),
+        400: z.object({ message: z.string() }),
+      },
+    },
+  },
 };
 
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
@@ -6,6 +6,10 @@ export interface Strategy {
   id: number;
   walletSubkey: string;
   totalFundingPnl: string;
+  totalInterestPnl?: string;    // Spot lending interest on the hedge legs
+  totalBorrowCost?: string;     // Borrow interest paid on short spot legs (positive = cost)
+  totalTradingFees?: string;    // Taker/maker fees on the hedge legs (positive = paid)
+  totalRealizedPnl?: string;    // Trading PnL realized by reducing the hedge legs
   previousPeriodFundingPnl?: string;
   currentApy?: string;
   activeNotional?: string;
@@ -24,8 +28,10 @@ export interface DailyMetric {
   id: number;
   strategyId: number;
   date: string | Date;
-  dailyPnl: string;
+  dailyPnl: string;             // Total carry: funding + lending interest - borrow cost
   dailyFunding: string;
+  dailyInterest?: string;       // Set when spot interest is included
+  dailyBorrowCost?: string;     // Set when spot interest is included (positive = cost)
   cumulativePnl: string;
   notionalValue?: string;
   portfolioApy?: string;
@@ -34,6 +40,23 @@ export interface DailyMetric {
 
 export type StrategySide = "Short Perp + Long Spot" | "Long Perp + Short Spot";
 
+/** One account's share of a position when several accounts are aggregated. */
+export interface PositionAccountBreakdown {
+  account: string;              // Drift user account pubkey
+  label: string;
+  strategySide: StrategySide;
+  notionalSize: string;         // Token amount
+  fundingEarned: string;
+}
+
+/** Per-account funding history when several accounts are aggregated. */
+export interface AccountStrategy {
+  account: string;
+  label: string;
+  totalFundingPnl: string;
+  dailyMetrics: DailyMetric[];
+}
+
 export interface Position {
   id: number;
   strategyId: number;
@@ -42,17 +65,66 @@ export interface Position {
   strategySide: StrategySide;
   notionalSize: string;         // Token amount
   notionalValue: string;        // Token amount × current price (USD)
-  netPnl: string;
+  avgNotional?: string;         // Time-weighted notional over the period (USD), from each record's size and price
+  netPnl: string;               // fundingEarned + interestEarned - borrowCost - tradingFees + realizedPnl
   fundingEarned: string;
+  interestEarned?: string;      // Lending interest on the spot leg
+  borrowCost?: string;          // Borrow interest paid on the spot leg (reverse arb)
+  tradingFees?: string;         // Fees on both legs' fills (positive = paid)
+  realizedPnl?: string;         // Trading PnL realized on both legs
+  unrealizedPnl?: string;       // Perp leg mark-to-market (live account state)
+  unsettledPnl?: string;        // Perp PnL not yet settled to collateral (live account state)
+  spotLegPnl?: string;          // Hedged spot leg mark-to-market (live account state)
   roi: string;
   status: string;
-  longEntryPrice: string;
-  shortEntryPrice: string;
+  longEntryPrice: string;       // VWAP entry of the open long leg ("0.00" when unknown)
+  shortEntryPrice: string;      // VWAP entry of the open short leg ("0.00" when unknown)
   currentPrice: string;         // From candles API
   marketDailyMetrics?: DailyMetric[];  // Per-market PnL history for sparkline
+  accountBreakdown?: PositionAccountBreakdown[];  // Set when aggregating accounts
+}
+
+/** One fill from the account's point of view (perp or spot leg). */
+export interface TradeFill {
+  ts: number;                   // unix seconds
+  txSig: string;
+  account: string;              // Drift user account pubkey
+  marketType: "perp" | "spot";
+  marketIndex: number;
+  symbol: string;               // e.g. "SOL-PERP" or "SOL"
+  side: "buy" | "sell";
+  role: "taker" | "maker";
+  baseAmount: number;
+  quoteAmount: number;          // USD
+  price: number;
+  fee: number;                  // USD paid, negative for a maker rebate
+  realizedPnl: number;          // Trading PnL realized by this fill (before fees)
+  positionAfter: number;        // Signed leg size after the fill
+}
+
+/** One market's funding in this period vs the previous one (APY from time-weighted notional). */
+export interface MarketComparison {
+  pairName: string;
+  fundingEarned: string;
+  previousFundingEarned: string;
+  apy: string;                  // "" when the market had no notional in the period
+  previousApy: string;
+  avgNotional: string;
+  previousAvgNotional: string;
+}
+
+/** Funding in the equal-length period just before the current one. */
+export interface PreviousPeriod {
+  shiftSeconds: number;         // Period length: a bucket at t lines up with the current bucket at t + shiftSeconds
+  dailyMetrics: DailyMetric[];  // Funding only (no spot interest or fills)
+  markets: MarketComparison[];  // Largest funding drop first
 }
 
 export interface StrategyResponse extends Strategy {
   dailyMetrics: DailyMetric[];
   positions: Position[];
+  accounts?: AccountStrategy[];  // Set when aggregating accounts
+  fills?: TradeFill[];           // Set when trade history is included, newest first
+  previousPeriod?: PreviousPeriod;  // Set when the previous period's records are loaded
+  isPriceHistoryPartial?: boolean;  // Set when candles didn't cover the range: notional, ROI and APY leave out records without a price
 }
@@ -0,0 +1,169 @@
+/**
+ * Spot lending interest and borrow cost rebuilt from deposit/withdrawal records.
+ * Shared by the client dashboard and the /api/strategies endpoint.
+ *
+ * Each deposit record snapshots the market's cumulative deposit and borrow interest
+ * indices, so a balance held between two records grew by index₂ / index₁ (the deposit
+ * index while lending, the borrow index while borrowing). The balance is rebuilt from
+ * deposit/withdraw amounts and the growth between snapshots is spread evenly over the
+ * hours in between. After the last record, interest accrues at the current rate when
+ * known, otherwise at the last observed rate.
+ * Each hour's interest is valued at a price interpolated between the oracle prices at the
+ * records around it (the current price after the last record, when known), so interest on
+ * SOL or an LST follows the price rather than the last deposit's.
+ * Balance changes that aren't deposits or withdrawals (swaps, settled PnL) are not tracked.
+ */
+
+import type { DriftDepositRecord } from "./drift-types";
+import { getSpotMarketName } from "./market-names";
+
+const HOUR_SECONDS = 60 * 60;
+const YEAR_SECONDS = 365 * 24 * HOUR_SECONDS;
+
+/**
+ * Deposit history pages fetched per account (client and server). Past it the oldest records
+ * are missing, so balances can't be rebuilt and interest and capital flows are skipped.
+ */
+export const MAX_DEPOSIT_PAGES = 50;
+
+export type SpotInterestKind = "lending" | "borrow";
+
+/** Interest accrued by one account in one spot market during one hour */
+export interface SpotInterestRecord {
+  ts: number; // start of the hour (unix seconds)
+  user: string; // Drift user account pubkey
+  marketIndex: number; // spot market index
+  symbol: string; // spot symbol, e.g. "SOL"
+  kind: SpotInterestKind;
+  interest: number; // USD, positive = earned (lending), negative = paid (borrow)
+}
+
+export interface SpotInterestOptions {
+  /** Accrue up to this time (unix seconds); defaults to now */
+  now?: number;
+  /** Skip hours before this time (unix seconds) */
+  since?: number;
+  /** Current lending APY (%) per spot market index, used after the last record */
+  currentLendingApy?: Map<number, number>;
+  /** Current borrow rate (%/year) per spot market index, used after the last record */
+  currentBorrowRate?: Map<number, number>;
+  /** Current oracle price per spot market index, the price at `now` after the last record */
+  currentPrices?: Map<number, number>;
+}
+
+/**
+ * Split interest (tokens) evenly over the hours between fromTs and toTs, valuing each hour at
+ * the price interpolated between fromPrice and toPrice at its midpoint
+ */
+function accrueHourly(
+  out: SpotInterestRecord[],
+  base: Omit<SpotInterestRecord, "ts" | "kind" | "interest">,
+  kind: SpotInterestKind,
+  fromTs: number,
+  toTs: number,
+  interestTokens: number,
+  fromPrice: number,
+  toPrice: number,
+  since: number
+): void {
+  if (toTs <= fromTs || interestTokens === 0) return;
+  const duration = toTs - fromTs;
+  let start = fromTs;
+  while (start < toTs) {
+    const hourStart = Math.floor(start / HOUR_SECONDS) * HOUR_SECONDS;
+    const end = Math.min(hourStart + HOUR_SECONDS, toTs);
+    if (end > since) {
+      const price = fromPrice + ((toPrice - fromPrice) * ((start + end) / 2 - fromTs)) / duration;
+      out.push({ ...base, ts: hourStart, kind, interest: (interestTokens * price * (end - start)) / duration });
+    }
+    start = end;
+  }
+}
+
+/**
+ * Annualized rate (%) implied by an index moving from `from` to `to` over `seconds`
+ */
+function annualizedRate(from: number, to: number, seconds: number): number {
+  return (((to / from - 1) * YEAR_SECONDS) / seconds) * 100;
+}
+
+/**
+ * Hourly lending interest and borrow cost per account and spot market, oldest first
+ * Expects the full deposit history of each account (balances are rebuilt from zero)
+ */
+export function calculateSpotInterest(
+  records: DriftDepositRecord[],
+  options: SpotInterestOptions = {}
+): SpotInterestRecord[] {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const since = options.since ?? 0;
+
+  const groups = new Map<string, DriftDepositRecord[]>();
+  for (const record of records) {
+    const key = `${record.user}:${record.marketIndex}`;
+    const list = groups.get(key) ?? [];
+    list.push(record);
+    groups.set(key, list);
+  }
+
+  const out: SpotInterestRecord[] = [];
+
+  for (const group of groups.values()) {
+    const sorted = [...group].sort((a, b) => a.ts - b.ts || a.txSigIndex - b.txSigIndex);
+    const { user, marketIndex } = sorted[0];
+    const base = { user, marketIndex, symbol: getSpotMarketName(marketIndex) };
+
+    let balance = 0; // tokens, negative while borrowing
+    let lastDepositIndex = 0;
+    let lastBorrowIndex = 0;
+    let lastTs = sorted[0].ts;
+    let price = 0;
+    let observedLendingApy: number | null = null;
+    let observedBorrowRate: number | null = null;
+
+    for (const record of sorted) {
+      const depositIndex = parseFloat(record.marketCumulativeDepositInterest);
+      const borrowIndex = parseFloat(record.marketCumulativeBorrowInterest);
+      const elapsed = record.ts - lastTs;
+      const recordPrice = parseFloat(record.oraclePrice) || price;
+
+      if (elapsed > 0 && lastDepositIndex > 0 && depositIndex > 0) {
+        observedLendingApy = annualizedRate(lastDepositIndex, depositIndex, elapsed);
+        if (balance > 0) {
+          const interestTokens = balance * (depositIndex / lastDepositIndex - 1);
+          balance += interestTokens;
+          accrueHourly(out, base, "lending", lastTs, record.ts, interestTokens, price, recordPrice, since);
+        }
+      }
+      if (elapsed > 0 && lastBorrowIndex > 0 && borrowIndex > 0) {
+        observedBorrowRate = annualizedRate(lastBorrowIndex, borrowIndex, elapsed);
+        if (balance < 0) {
+          const interestTokens = balance * (borrowIndex / lastBorrowIndex - 1);
+          balance += interestTokens;
+          accrueHourly(out, base, "borrow", lastTs, record.ts, interestTokens, price, recordPrice, since);
+        }
+      }
+
+      const amount = parseFloat(record.amount) || 0;
+      balance += record.direction === "deposit" ? amount : -amount;
+      if (depositIndex > 0) lastDepositIndex = depositIndex;
+      if (borrowIndex > 0) lastBorrowIndex = borrowIndex;
+      lastTs = record.ts;
+      price = recordPrice;
+    }
+
+    // Still lending or borrowing after the last record: accrue up to now
+    const rate =
+      balance > 0
+        ? options.currentLendingApy?.get(marketIndex) ?? observedLendingApy
+        : options.currentBorrowRate?.get(marketIndex) ?? observedBorrowRate;
+    if (balance !== 0 && rate !== null && now > lastTs) {
+      const interestTokens = (balance * (rate / 100) * (now - lastTs)) / YEAR_SECONDS;
+      const kind = balance > 0 ? "lending" : "borrow";
+      const currentPrice = options.currentPrices?.get(marketIndex) ?? price;
+      accrueHourly(out, base, kind, lastTs, now, interestTokens, price, currentPrice, since);
+    }
+  }
+
+  return out.sort((a, b) => a.ts - b.ts);
+}
@@ -0,0 +1,769 @@
+/**
+ * Funding payment records → StrategyResponse.
+ * Shared by the client dashboard and the /api/strategies endpoint.
+ */
+
+import type { DriftFundingPaymentRecord, DailyCandleRecord } from "./drift-types";
+import type {
+  StrategyResponse,
+  DailyMetric,
+  Position,
+  DailyMarketBreakdown,
+  StrategySide,
+  AccountStrategy,
+} from "./schema";
+import { getMarketName } from "./market-names";
+import { getSpotSymbolForPerp } from "./perp-spot-mapping";
+import type { SpotInterestRecord } from "./spot-interest";
+import type { FillsLedger, LegSummary } from "./fills";
+import type { Timeframe, Resolution } from "./timeframe";
+import { getDefaultResolution, getTimeframeDays } from "./timeframe";
+import { formatDateKey, formatHourKey, getTodayKey, keyToUnix, zonedTimeToUnix } from "./timezone";
+
+export type { Timeframe, Resolution };
+
+export interface TransformOptions {
+  /** Bucket size for dailyMetrics; defaults to hourly for 24H, daily otherwise */
+  resolution?: Resolution;
+  /**
+   * User account pubkey → display label. When set, records are also grouped by
+   * record.user to fill Position.accountBreakdown and StrategyResponse.accounts.
+   */
+  accountLabels?: Map<string, string>;
+  /**
+   * Spot interest for the same period. Lending interest (and borrow cost) on the
+   * spot asset hedging a market is added to (subtracted from) that market's PnL
+   * and each bucket's carry.
+   */
+  interestRecords?: SpotInterestRecord[];
+  /**
+   * Fills ledger for the same period. Entry prices come from the perp and spot
+   * legs of each market; their fees are subtracted from and realized trading PnL
+   * added to the market's net PnL.
+   */
+  fills?: FillsLedger;
+  /**
+   * Length of the period in days, for time-weighted notional; defaults to the
+   * timeframe's length (pass it for custom ranges)
+   */
+  periodDays?: number;
+  /**
+   * Timezone for day/hour buckets and candle-to-day matching ("UTC" or IANA);
+   * defaults to the runtime's local timezone
+   */
+  timeZone?: string;
+}
+
+export interface EnrichedPositionData {
+  positions: Position[];
+  totalNotional: number;
+  /** Time-weighted notional over the period (current notional for positions without one) */
+  averageNotional: number;
+  apy: number;
+}
+
+interface MarketAggregation {
+  marketIndex: number;
+  totalFunding: number;
+  totalInterest: number;
+  totalBorrowCost: number;
+  records: DriftFundingPaymentRecord[];
+  latestBaseAssetAmount: string;
+  latestTimestamp: number;
+  dailyFunding: Map<string, number>;  // Per-day funding for sparkline
+  dailyInterest: Map<string, number>; // Per-day lending interest for sparkline
+  dailyBorrowCost: Map<string, number>; // Per-day borrow cost for sparkline
+  notionalHours: number; // Σ |baseAssetAmount| × price over funding intervals (USD·hours)
+}
+
+interface HourlyAggregation {
+  hourKey: string;
+  totalFunding: number;
+  totalInterest: number;
+  totalBorrowCost: number;
+  recordCount: number;
+  perMarketFunding: Map<number, number>; // marketIndex -> funding
+  perMarketBaseAsset: Map<number, number>; // marketIndex -> baseAssetAmount (absolute)
+}
+
+interface DailyRecordAggregation {
+  date: string;
+  totalFunding: number;
+  totalInterest: number;
+  totalBorrowCost: number;
+  recordCount: number;
+  perMarketFunding: Map<number, number>; // marketIndex -> funding
+  perMarketBaseHours: Map<number, number>; // marketIndex -> Σ |baseAssetAmount| over funding intervals
+}
+
+/** Drift settles funding hourly, so each funding record stands for one hour of exposure */
+const FUNDING_INTERVAL_HOURS = 1;
+
+/**
+ * Get oracle price for a specific date from candle data
+ * Falls back to currentPrice for today's date if no candle is available
+ */
+function getOraclePriceForDate(
+  candles: DailyCandleRecord[],
+  dateStr: string,
+  currentPrice?: number | null,
+  timeZone?: string
+): number | null {
+  // Day boundaries of dateStr (YYYY-MM-DD) in the display timezone
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const dateStart = zonedTimeToUnix(year, month, day, 0, timeZone);
+  const dateEnd = zonedTimeToUnix(year, month, day + 1, 0, timeZone);
+
+  // Find candle that falls within this day
+  const candle = candles.find((c) => c.ts >= dateStart && c.ts < dateEnd);
+
+  if (candle) {
+    return candle.oracleClose;
+  }
+
+  // For today's date, use current price as fallback if no daily candle yet
+  if (currentPrice && dateStr === getTodayKey(timeZone)) {
+    return currentPrice;
+  }
+
+  return null;
+}
+
+/**
+ * Oracle price at a funding record's time from the candles used for the buckets,
+ * falling back to the current price only for today's records (null leaves notional unset)
+ */
+function getRecordPrice(
+  record: DriftFundingPaymentRecord,
+  resolution: Resolution,
+  candleData?: Map<string, DailyCandleRecord[]>,
+  currentPrices?: Map<string, number>,
+  timeZone?: string
+): number | null {
+  const marketName = getMarketName(record.marketIndex);
+  const currentPrice = currentPrices?.get(marketName) ?? null;
+  const candles = candleData?.get(marketName) ?? [];
+  const dateKey = formatDateKey(record.ts, timeZone);
+  const price = resolution === "hour"
+    ? getOraclePriceForHour(candles, formatHourKey(record.ts, timeZone), timeZone)
+    : getOraclePriceForDate(candles, dateKey, currentPrice, timeZone);
+  return price ?? (dateKey === getTodayKey(timeZone) ? currentPrice : null);
+}
+
+/**
+ * Sum a numeric field across fill ledger legs
+ */
+function sumLegs(legs: LegSummary[], field: "fees" | "realizedPnl"): number {
+  return legs.reduce((sum, leg) => sum + leg[field], 0);
+}
+
+/**
+ * Size-weighted entry price of the open legs (several accounts can hold the same leg), 0 when flat
+ */
+function getEntryPrice(legs: LegSummary[]): number {
+  let size = 0;
+  let cost = 0;
+  for (const leg of legs) {
+    size += Math.abs(leg.position);
+    cost += Math.abs(leg.position) * leg.entryPrice;
+  }
+  return size > 0 ? cost / size : 0;
+}
+
+/**
+ * Get oracle price for a specific hour from hourly candle data
+ * hourKey format: YYYY-MM-DDTHH
+ * Uses a flexible matching approach to handle candle timestamps off the hour;
+ * null when no candle is within 2 hours
+ */
+function getOraclePriceForHour(
+  candles: DailyCandleRecord[],
+  hourKey: string,
+  timeZone?: string
+): number | null {
+  if (candles.length === 0) return null;
+
+  const targetTs = keyToUnix(hourKey, timeZone);
+
+  // Find candle within +/- 1 hour of target, or use the closest one
+  let bestCandle = candles[0];
+  let bestDiff = Math.abs(candles[0].ts - targetTs);
+
+  for (const candle of candles) {
+    const diff = Math.abs(candle.ts - targetTs);
+    if (diff < bestDiff) {
+      bestDiff = diff;
+      bestCandle = candle;
+    }
+  }
+
+  // Only use if within 2 hours (to avoid using very old prices)
+  return bestDiff <= 2 * 60 * 60 ? bestCandle.oracleClose : null;
+}
+
+/**
+ * Transform Drift API funding payment records into our StrategyResponse format
+ * Optional candleData parameter enables notional/APY enrichment for daily metrics
+ * Optional currentPrices parameter provides fallback prices for today's date
+ */
+export function transformDriftDataToStrategy(
+  userAddress: string,
+  records: DriftFundingPaymentRecord[],
+  timeframe: Timeframe = "7D",
+  candleData?: Map<string, DailyCandleRecord[]>,
+  currentPrices?: Map<string, number>,
+  options: TransformOptions = {}
+): StrategyResponse {
+  if (records.length === 0) {
+    // Return empty strategy if no records
+    return {
+      id: 1,
+      walletSubkey: userAddress,
+      totalFundingPnl: "0.00",
+      currentApy: "",
+      activeNotional: "",
+      updatedAt: new Date(),
+      dailyMetrics: [],
+      positions: [],
+    };
+  }
+
+  // Sort records by timestamp (newest first)
+  const sortedRecords = [...records].sort((a, b) => b.ts - a.ts);
+  const resolution = options.resolution ?? getDefaultResolution(timeframe);
+  const periodHours = (options.periodDays ?? getTimeframeDays(timeframe)) * 24;
+  const timeZone = options.timeZone;
+
+  // 1. Aggregate by market to get positions
+  const marketMap = new Map<number, MarketAggregation>();
+
+  for (const record of sortedRecords) {
+    const marketIndex = record.marketIndex;
+    if (!marketMap.has(marketIndex)) {
+      marketMap.set(marketIndex, {
+        marketIndex,
+        totalFunding: 0,
+        totalInterest: 0,
+        totalBorrowCost: 0,
+        records: [],
+        latestBaseAssetAmount: record.baseAssetAmount,
+        latestTimestamp: record.ts,
+        dailyFunding: new Map<string, number>(),
+        dailyInterest: new Map<string, number>(),
+        dailyBorrowCost: new Map<string, number>(),
+        notionalHours: 0,
+      });
+    }
+
+    const marketAgg = marketMap.get(marketIndex)!;
+    const fundingAmount = parseFloat(record.fundingPayment);
+    marketAgg.totalFunding += fundingAmount;
+    marketAgg.records.push(record);
+
+    // Track daily funding for this market
+    const dateKey = formatDateKey(record.ts, timeZone);
+    const currentDayFunding = marketAgg.dailyFunding.get(dateKey) || 0;
+    marketAgg.dailyFunding.set(dateKey, currentDayFunding + fundingAmount);
+
+    // Size × price at the time of the record, for the time-weighted notional
+    const price = getRecordPrice(record, resolution, candleData, currentPrices, timeZone);
+    if (price !== null) {
+      marketAgg.notionalHours += Math.abs(parseFloat(record.baseAssetAmount)) * price * FUNDING_INTERVAL_HOURS;
+    }
+
+    // Update latest position size if this record is newer
+    if (record.ts > marketAgg.latestTimestamp) {
+      marketAgg.latestTimestamp = record.ts;
+      marketAgg.latestBaseAssetAmount = record.baseAssetAmount;
+    }
+  }
+
+  // 1b. Attach spot interest to the market whose spot leg earned (or paid) it
+  const hasInterest = options.interestRecords !== undefined;
+  const marketBySpotSymbol = new Map<string, number>();
+  for (const marketIndex of marketMap.keys()) {
+    marketBySpotSymbol.set(getSpotSymbolForPerp(getMarketName(marketIndex)).toUpperCase(), marketIndex);
+  }
+  const interestRecords = (options.interestRecords ?? []).filter((r) =>
+    marketBySpotSymbol.has(r.symbol.toUpperCase())
+  );
+
+  for (const record of interestRecords) {
+    const marketAgg = marketMap.get(marketBySpotSymbol.get(record.symbol.toUpperCase())!)!;
+    const dateKey = formatDateKey(record.ts, timeZone);
+    if (record.kind === "borrow") {
+      marketAgg.totalBorrowCost -= record.interest;
+      marketAgg.dailyBorrowCost.set(dateKey, (marketAgg.dailyBorrowCost.get(dateKey) || 0) - record.interest);
+    } else {
+      marketAgg.totalInterest += record.interest;
+      marketAgg.dailyInterest.set(dateKey, (marketAgg.dailyInterest.get(dateKey) || 0) + record.interest);
+    }
+  }
+
+  // 1c. Perp and spot legs from the fills ledger, per market
+  const hasFills = options.fills !== undefined;
+  const legsByMarket = new Map<number, { perp: LegSummary[]; spot: LegSummary[] }>();
+  for (const leg of options.fills?.legs ?? []) {
+    const marketIndex = leg.marketType === "perp"
+      ? (marketMap.has(leg.marketIndex) ? leg.marketIndex : undefined)
+      : marketBySpotSymbol.get(leg.symbol.toUpperCase());
+    if (marketIndex === undefined) continue;
+    const entry = legsByMarket.get(marketIndex) ?? { perp: [], spot: [] };
+    entry[leg.marketType].push(leg);
+    legsByMarket.set(marketIndex, entry);
+  }
+  const matchedLegs = [...legsByMarket.values()].flatMap((l) => [...l.perp, ...l.spot]);
+
+  // 2. Create positions from market aggregations
+  const positions: Position[] = Array.from(marketMap.values()).map(
+    (marketAgg, index) => {
+      const rawBaseAsset = parseFloat(marketAgg.latestBaseAssetAmount);
+      const baseAsset = Math.abs(rawBaseAsset);
+      const fundingEarned = marketAgg.totalFunding;
+      const legs = legsByMarket.get(marketAgg.marketIndex) ?? { perp: [], spot: [] };
+      const tradingFees = sumLegs([...legs.perp, ...legs.spot], "fees");
+      const realizedPnl = sumLegs([...legs.perp, ...legs.spot], "realizedPnl");
+      const netPnl =
+        fundingEarned + marketAgg.totalInterest - marketAgg.totalBorrowCost - tradingFees + realizedPnl;
+      const strategySide: StrategySide = rawBaseAsset < 0
+        ? "Short Perp + Long Spot"
+        : "Long Perp + Short Spot";
+      const perpEntry = getEntryPrice(legs.perp);
+      const spotEntry = getEntryPrice(legs.spot);
+      const avgNotional = periodHours > 0 ? marketAgg.notionalHours / periodHours : 0;
+
+      // Build per-market daily metrics for sparkline
+      const sortedDays = [
+        ...new Set([
+          ...marketAgg.dailyFunding.keys(),
+          ...marketAgg.dailyInterest.keys(),
+          ...marketAgg.dailyBorrowCost.keys(),
+        ]),
+      ].sort((a, b) => a.localeCompare(b));
+
+      let cumulativePnl = 0;
+      const marketDailyMetrics: DailyMetric[] = sortedDays.map((date, idx) => {
+        const dailyFunding = marketAgg.dailyFunding.get(date) || 0;
+        const dailyInterest = marketAgg.dailyInterest.get(date) || 0;
+        const dailyBorrowCost = marketAgg.dailyBorrowCost.get(date) || 0;
+        const dailyPnl = dailyFunding + dailyInterest - dailyBorrowCost;
+        cumulativePnl += dailyPnl;
+        return {
+          id: idx + 1,
+          strategyId: 1,
+          date: new Date(keyToUnix(date, timeZone) * 1000),
+          dailyPnl: dailyPnl.toFixed(2),
+          dailyFunding: dailyFunding.toFixed(2),
+          ...(hasInterest && {
+            dailyInterest: dailyInterest.toFixed(2),
+            dailyBorrowCost: dailyBorrowCost.toFixed(2),
+          }),
+          cumulativePnl: cumulativePnl.toFixed(2),
+        };
+      });
+
+      return {
+        id: index + 1,
+        strategyId: 1,
+        pairName: getMarketName(marketAgg.marketIndex),
+        hedgeType: "Cash & Carry",
+        strategySide,
+        notionalSize: baseAsset.toFixed(2),
+        notionalValue: "0.00", // Will be calculated in useStrategy after fetching prices
+        ...(avgNotional > 0 && { avgNotional: avgNotional.toFixed(2) }),
+        netPnl: netPnl.toFixed(2),
+        fundingEarned: fundingEarned.toFixed(2),
+        ...(hasInterest && {
+          interestEarned: marketAgg.totalInterest.toFixed(2),
+          borrowCost: marketAgg.totalBorrowCost.toFixed(2),
+        }),
+        ...(hasFills && {
+          tradingFees: tradingFees.toFixed(2),
+          realizedPnl: realizedPnl.toFixed(2),
+        }),
+        roi: avgNotional > 0
+          ? ((netPnl / avgNotional) * 100).toFixed(2)
+          : baseAsset > 0 ? ((netPnl / baseAsset) * 100).toFixed(2) : "0.00",
+        status: baseAsset > 0 ? "Open" : "Closed",
+        longEntryPrice: (rawBaseAsset < 0 ? spotEntry : perpEntry).toFixed(2),
+        shortEntryPrice: (rawBaseAsset < 0 ? perpEntry : spotEntry).toFixed(2),
+        currentPrice: "0.00", // Will be fetched from candles API
+        marketDailyMetrics,
+      };
+    }
+  );
+
+  // 3. Aggregate by day or by hour (in the display timezone)
+  let dailyMetrics: DailyMetric[];
+
+  if (resolution === "hour") {
+    const hourlyMap = new Map<string, HourlyAggregation>();
+    for (const record of records) {
+      const hourKey = formatHourKey(record.ts, timeZone);
+      if (!hourlyMap.has(hourKey)) {
+        hourlyMap.set(hourKey, {
+          hourKey,
+          totalFunding: 0,
+          totalInterest: 0,
+          totalBorrowCost: 0,
+          recordCount: 0,
+          perMarketFunding: new Map(),
+          perMarketBaseAsset: new Map(),
+        });
+      }
+      const agg = hourlyMap.get(hourKey)!;
+      const funding = parseFloat(record.fundingPayment);
+      const baseAsset = Math.abs(parseFloat(record.baseAssetAmount));
+
+      agg.totalFunding += funding;
+      agg.recordCount++;
+
+      // Aggregate per-market data
+      const currentFunding = agg.perMarketFunding.get(record.marketIndex) || 0;
+      agg.perMarketFunding.set(record.marketIndex, currentFunding + funding);
+
+      // Keep the latest base asset amount for each market in this hour
+      agg.perMarketBaseAsset.set(record.marketIndex, baseAsset);
+    }
+    for (const record of interestRecords) {
+      const hourKey = formatHourKey(record.ts, timeZone);
+      if (!hourlyMap.has(hourKey)) {
+        hourlyMap.set(hourKey, {
+          hourKey,
+          totalFunding: 0,
+          totalInterest: 0,
+          totalBorrowCost: 0,
+          recordCount: 0,
+          perMarketFunding: new Map(),
+          perMarketBaseAsset: new Map(),
+        });
+      }
+      const agg = hourlyMap.get(hourKey)!;
+      if (record.kind === "borrow") {
+        agg.totalBorrowCost -= record.interest;
+      } else {
+        agg.totalInterest += record.interest;
+      }
+    }
+    const sortedHours = Array.from(hourlyMap.entries())
+      .sort(([a], [b]) => a.localeCompare(b));
+    let cumulativePnl = 0;
+    dailyMetrics = sortedHours.map(([hourKey, agg], index) => {
+      const totalCarry = agg.totalFunding + agg.totalInterest - agg.totalBorrowCost;
+      cumulativePnl += totalCarry;
+
+      const metric: DailyMetric = {
+        id: index + 1,
+        strategyId: 1,
+        date: new Date(keyToUnix(hourKey, timeZone) * 1000),
+        dailyPnl: totalCarry.toFixed(2),
+        dailyFunding: agg.totalFunding.toFixed(2),
+        ...(hasInterest && {
+          dailyInterest: agg.totalInterest.toFixed(2),
+          dailyBorrowCost: agg.totalBorrowCost.toFixed(2),
+        }),
+        cumulativePnl: cumulativePnl.toFixed(2),
+      };
+
+      // Enrich with notional/APY if hourly candle data is provided
+      if (candleData && candleData.size > 0) {
+        let totalNotional = 0;
+        const breakdowns: DailyMarketBreakdown[] = [];
+
+        for (const [marketIndex, marketFunding] of agg.perMarketFunding) {
+          const marketName = getMarketName(marketIndex);
+          const baseAsset = agg.perMarketBaseAsset.get(marketIndex) || 0;
+          const candles = candleData.get(marketName);
+          const price = candles ? getOraclePriceForHour(candles, hourKey, timeZone) : null;
+
+          if (price !== null && baseAsset > 0) {
+            const notional = baseAsset * price;
+            totalNotional += notional;
+            // For hourly, APY = hourly ROI * 24 * 365
+            const hourlyRoi = notional > 0 ? (marketFunding / notional) * 100 : 0;
+            const apy = hourlyRoi * 24 * 365;
+
+            breakdowns.push({
+              marketIndex,
+              marketName,
+              dailyFunding: marketFunding,
+              notionalValue: notional,
+              apy,
+            });
+          }
+        }
+
+        if (totalNotional > 0) {
+          metric.notionalValue = totalNotional.toFixed(2);
+          const hourlyRoi = (totalCarry / totalNotional) * 100;
+          const portfolioApy = hourlyRoi * 24 * 365;
+          metric.portfolioApy = portfolioApy.toFixed(2);
+          metric.perMarketBreakdown = breakdowns;
+        }
+      }
+
+      return metric;
+    });
+  } else {
+    const dailyMap = new Map<string, DailyRecordAggregation>();
+    for (const record of records) {
+      const date = formatDateKey(record.ts, timeZone);
+      if (!dailyMap.has(date)) {
+        dailyMap.set(date, {
+          date,
+          totalFunding: 0,
+          totalInterest: 0,
+          totalBorrowCost: 0,
+          recordCount: 0,
+          perMarketFunding: new Map(),
+          perMarketBaseHours: new Map(),
+        });
+      }
+      const dailyAgg = dailyMap.get(date)!;
+      const funding = parseFloat(record.fundingPayment);
+      const baseAsset = Math.abs(parseFloat(record.baseAssetAmount));
+
+      dailyAgg.totalFunding += funding;
+      dailyAgg.recordCount++;
+
+      // Aggregate per-market data
+      const currentFunding = dailyAgg.perMarketFunding.get(record.marketIndex) || 0;
+      dailyAgg.perMarketFunding.set(record.marketIndex, currentFunding + funding);
+
+      // Time-weight the size within the day (a resize mid-day counts for the hours it was held)
+      const baseHours = dailyAgg.perMarketBaseHours.get(record.marketIndex) || 0;
+      dailyAgg.perMarketBaseHours.set(record.marketIndex, baseHours + baseAsset * FUNDING_INTERVAL_HOURS);
+    }
+    for (const record of interestRecords) {
+      const date = formatDateKey(record.ts, timeZone);
+      if (!dailyMap.has(date)) {
+        dailyMap.set(date, {
+          date,
+          totalFunding: 0,
+          totalInterest: 0,
+          totalBorrowCost: 0,
+          recordCount: 0,
+          perMarketFunding: new Map(),
+          perMarketBaseHours: new Map(),
+        });
+      }
+      const dailyAgg = dailyMap.get(date)!;
+      if (record.kind === "borrow") {
+        dailyAgg.totalBorrowCost -= record.interest;
+      } else {
+        dailyAgg.totalInterest += record.interest;
+      }
+    }
+    const sortedDays = Array.from(dailyMap.entries())
+      .sort(([dateA], [dateB]) => dateA.localeCompare(dateB));
+    let cumulativePnl = 0;
+    dailyMetrics = sortedDays.map(([date, dailyAgg], index) => {
+      const totalCarry = dailyAgg.totalFunding + dailyAgg.totalInterest - dailyAgg.totalBorrowCost;
+      cumulativePnl += totalCarry;
+
+      const metric: DailyMetric = {
+        id: index + 1,
+        strategyId: 1,
+        date: new Date(keyToUnix(date, timeZone) * 1000),
+        dailyPnl: totalCarry.toFixed(2),
+        dailyFunding: dailyAgg.totalFunding.toFixed(2),
+        ...(hasInterest && {
+          dailyInterest: dailyAgg.totalInterest.toFixed(2),
+          dailyBorrowCost: dailyAgg.totalBorrowCost.toFixed(2),
+        }),
+        cumulativePnl: cumulativePnl.toFixed(2),
+      };
+
+      // Enrich with notional/APY if candle data is provided
+      if (candleData && candleData.size > 0) {
+        let totalNotional = 0;
+        const breakdowns: DailyMarketBreakdown[] = [];
+
+        for (const [marketIndex, marketFunding] of dailyAgg.perMarketFunding) {
+          const marketName = getMarketName(marketIndex);
+          const baseAsset = (dailyAgg.perMarketBaseHours.get(marketIndex) || 0) / 24;
+          const candles = candleData.get(marketName);
+          const currentPrice = currentPrices?.get(marketName) ?? null;
+          const price = getOraclePriceForDate(candles ?? [], date, currentPrice, timeZone);
+
+          if (price !== null && baseAsset > 0) {
+            const notional = baseAsset * price;
+            totalNotional += notional;
+            const dailyRoi = notional > 0 ? (marketFunding / notional) * 100 : 0;
+            const apy = dailyRoi * 365;
+
+            breakdowns.push({
+              marketIndex,
+              marketName,
+              dailyFunding: marketFunding,
+              notionalValue: notional,
+              apy,
+            });
+          }
+        }
+
+        if (totalNotional > 0) {
+          metric.notionalValue = totalNotional.toFixed(2);
+          const dailyRoi = (totalCarry / totalNotional) * 100;
+          const portfolioApy = dailyRoi * 365;
+          metric.portfolioApy = portfolioApy.toFixed(2);
+          metric.perMarketBreakdown = breakdowns;
+        }
+      }
+
+      return metric;
+    });
+  }
+
+  // 5. Calculate total funding PnL (and spot interest on the hedge legs)
+  const totalFundingPnl = records.reduce(
+    (sum, record) => sum + parseFloat(record.fundingPayment),
+    0
+  );
+  let totalInterestPnl = 0;
+  let totalBorrowCost = 0;
+  for (const record of interestRecords) {
+    if (record.kind === "borrow") totalBorrowCost -= record.interest;
+    else totalInterestPnl += record.interest;
+  }
+
+  const totalTradingFees = sumLegs(matchedLegs, "fees");
+  const totalRealizedPnl = sumLegs(matchedLegs, "realizedPnl");
+
+  // 6. Per-account breakdown when aggregating several accounts
+  let accounts: AccountStrategy[] | undefined;
+  if (options.accountLabels) {
+    const recordsByAccount = new Map<string, DriftFundingPaymentRecord[]>();
+    for (const record of records) {
+      const list = recordsByAccount.get(record.user) ?? [];
+      list.push(record);
+      recordsByAccount.set(record.user, list);
+    }
+
+    accounts = [];
+    for (const [account, accountRecords] of recordsByAccount) {
+      const label = options.accountLabels.get(account) ?? account;
+      const accountStrategy = transformDriftDataToStrategy(
+        account,
+        accountRecords,
+        timeframe,
+        candleData,
+        currentPrices,
+        {
+          resolution,
+          periodDays: options.periodDays,
+          timeZone,
+          interestRecords: options.interestRecords?.filter((r) => r.user === account),
+          fills: options.fills && {
+            fills: options.fills.fills.filter((f) => f.account === account),
+            legs: options.fills.legs.filter((l) => l.account === account),
+          },
+        }
+      );
+      accounts.push({
+        account,
+        label,
+        totalFundingPnl: accountStrategy.totalFundingPnl,
+        dailyMetrics: accountStrategy.dailyMetrics,
+      });
+
+      for (const accountPosition of accountStrategy.positions) {
+        const position = positions.find((p) => p.pairName === accountPosition.pairName);
+        if (!position) continue;
+        position.accountBreakdown = [
+          ...(position.accountBreakdown ?? []),
+          {
+            account,
+            label,
+            strategySide: accountPosition.strategySide,
+            notionalSize: accountPosition.notionalSize,
+            fundingEarned: accountPosition.fundingEarned,
+          },
+        ];
+      }
+    }
+    accounts.sort((a, b) => a.label.localeCompare(b.label));
+
+    // Latest size per account, netted: the market's size is the sum across accounts
+    for (const position of positions) {
+      if (!position.accountBreakdown) continue;
+      const netSize = position.accountBreakdown.reduce((sum, b) => {
+        const size = parseFloat(b.notionalSize);
+        return sum + (b.strategySide === "Short Perp + Long Spot" ? -size : size);
+      }, 0);
+      const baseAsset = Math.abs(netSize);
+      const netPnl = parseFloat(position.netPnl);
+      position.notionalSize = baseAsset.toFixed(2);
+      position.strategySide = netSize < 0 ? "Short Perp + Long Spot" : "Long Perp + Short Spot";
+      const avgNotional = parseFloat(position.avgNotional ?? "0");
+      position.roi = avgNotional > 0
+        ? ((netPnl / avgNotional) * 100).toFixed(2)
+        : baseAsset > 0 ? ((netPnl / baseAsset) * 100).toFixed(2) : "0.00";
+      position.status = baseAsset > 0 ? "Open" : "Closed";
+    }
+  }
+
+  return {
+    id: 1,
+    walletSubkey: userAddress,
+    totalFundingPnl: totalFundingPnl.toFixed(2),
+    ...(hasInterest && {
+      totalInterestPnl: totalInterestPnl.toFixed(2),
+      totalBorrowCost: totalBorrowCost.toFixed(2),
+    }),
+    ...(hasFills && {
+      totalTradingFees: totalTradingFees.toFixed(2),
+      totalRealizedPnl: totalRealizedPnl.toFixed(2),
+    }),
+    currentApy: "", // Leave empty as requested
+    activeNotional: "", // Leave empty as requested
+    updatedAt: new Date(),
+    dailyMetrics,
+    positions,
+    ...(accounts && { accounts }),
+    ...(options.fills && { fills: options.fills.fills }),
+  };
+}
+
+/**
+ * Enrich positions with current prices and calculate ROI/APY
+ * APY = ROI × (365 / days), where days is the length of the viewed period
+ * ROI uses netPnl, so spot interest, borrow cost, fees and realized PnL count towards APY,
+ * over the time-weighted notional (so resizes and price moves mid-period don't skew it)
+ */
+export function enrichPositionsWithPrices(
+  positions: Position[],
+  priceMap: Map<string, number>,
+  days: number
+): EnrichedPositionData {
+  let totalNotional = 0;
+  let averageNotional = 0;
+  let totalPnl = 0;
+
+  const enrichedPositions = positions.map((pos) => {
+    const price = priceMap.get(pos.pairName) || 0;
+    const tokenAmount = Math.abs(parseFloat(pos.notionalSize));
+    const notionalValue = tokenAmount * price;
+    const netPnl = parseFloat(pos.netPnl);
+    const avgNotional = parseFloat(pos.avgNotional ?? "0") || notionalValue;
+
+    totalNotional += notionalValue;
+    averageNotional += avgNotional;
+    totalPnl += netPnl;
+
+    // ROI over the capital deployed on average during the period
+    const roi = avgNotional > 0 ? (netPnl / avgNotional) * 100 : 0;
+
+    return {
+      ...pos,
+      currentPrice: price.toFixed(2),
+      notionalValue: notionalValue.toFixed(2),
+      roi: roi.toFixed(2),
+    };
+  });
+
+  const totalRoi = averageNotional > 0 ? (totalPnl / averageNotional) * 100 : 0;
+  const apy = days > 0 ? totalRoi * (365 / days) : 0;
+
+  return { positions: enrichedPositions, totalNotional, averageNotional, apy };
+}
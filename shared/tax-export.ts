@@ -0,0 +1,246 @@
+/**
+ * Accounting export: each funding payment valued at its timestamp, yearly totals per
+ * market, and column presets for crypto tax-tool imports.
+ * Payments settle in USDC, valued 1:1 in USD; the market's oracle price at payment time
+ * (hourly candle where available, daily otherwise) values the spot leg.
+ */
+
+import type { DailyCandleRecord, DriftFundingPaymentRecord } from "./drift-types";
+import { getMarketName } from "./market-names";
+import { getPerpBaseMultiplier, getSpotSymbolForPerp } from "./perp-spot-mapping";
+import { formatDateKey, getZonedParts } from "./timezone";
+import { toCsv, type ExportColumn } from "./export";
+
+const HOUR_SECONDS = 60 * 60;
+const DAY_SECONDS = 24 * HOUR_SECONDS;
+
+export type PriceSource = "hourly" | "daily";
+
+export interface ValuedPayment {
+  ts: number;
+  txSig: string;
+  txSigIndex: number;
+  account: string;
+  market: string;                    // Perp market, e.g. "SOL-PERP"
+  taxYear: number;                   // Calendar year in the export timezone
+  amount: number;                    // USDC, positive = received
+  usdValue: number;
+  spotSymbol: string;                // Spot token hedging the perp, e.g. "SOL"
+  spotPrice: number | null;          // USD per spot token at payment time
+  priceSource: PriceSource | null;
+  amountInSpot: number | null;       // Payment expressed in spot tokens
+  spotLegTokens: number;             // |perp base| in spot tokens
+  spotLegValueUsd: number | null;
+}
+
+export interface YearlyMarketTotal {
+  taxYear: number;
+  market: string;
+  payments: number;
+  received: number;                  // USD
+  paid: number;                      // USD, positive
+  net: number;
+}
+
+/**
+ * Open price of the candle containing ts (candles sorted oldest first), or null
+ */
+function getCandleOpenAt(candles: DailyCandleRecord[] | undefined, ts: number, span: number): number | null {
+  if (!candles) return null;
+  let lo = 0;
+  let hi = candles.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].ts <= ts) lo = mid + 1;
+    else hi = mid - 1;
+  }
+  const candle = candles[hi];
+  return candle && ts < candle.ts + span ? candle.oracleOpen : null;
+}
+
+/**
+ * Value every payment at its timestamp, oldest first
+ * Candle maps are keyed by perp market name, like fetchMultiple*Candles returns them.
+ */
+export function valueFundingPayments(
+  records: DriftFundingPaymentRecord[],
+  hourlyCandles: Map<string, DailyCandleRecord[]>,
+  dailyCandles: Map<string, DailyCandleRecord[]>,
+  timeZone?: string
+): ValuedPayment[] {
+  const sorted = (candles: Map<string, DailyCandleRecord[]>) =>
+    new Map([...candles].map(([symbol, list]) => [symbol, [...list].sort((a, b) => a.ts - b.ts)]));
+  const hourly = sorted(hourlyCandles);
+  const daily = sorted(dailyCandles);
+
+  return [...records]
+    .sort((a, b) => a.ts - b.ts || a.txSigIndex - b.txSigIndex)
+    .map((record) => {
+      const market = getMarketName(record.marketIndex);
+      const multiplier = getPerpBaseMultiplier(market);
+      const hourlyPrice = getCandleOpenAt(hourly.get(market), record.ts, HOUR_SECONDS);
+      const perpPrice = hourlyPrice ?? getCandleOpenAt(daily.get(market), record.ts, DAY_SECONDS);
+      const spotPrice = perpPrice !== null ? perpPrice / multiplier : null;
+      const amount = parseFloat(record.fundingPayment);
+      const spotLegTokens = Math.abs(parseFloat(record.baseAssetAmount)) * multiplier;
+      return {
+        ts: record.ts,
+        txSig: record.txSig,
+        txSigIndex: record.txSigIndex,
+        account: record.user,
+        market,
+        taxYear: getZonedParts(record.ts, timeZone).year,
+        amount,
+        usdValue: amount,
+        spotSymbol: getSpotSymbolForPerp(market),
+        spotPrice,
+        priceSource: hourlyPrice !== null ? "hourly" : perpPrice !== null ? "daily" : null,
+        amountInSpot: spotPrice ? amount / spotPrice : null,
+        spotLegTokens,
+        spotLegValueUsd: spotPrice !== null ? spotLegTokens * spotPrice : null,
+      };
+    });
+}
+
+/**
+ * Received, paid and net funding per tax year and market (by year, then market)
+ */
+export function getYearlyTotals(payments: ValuedPayment[]): YearlyMarketTotal[] {
+  const totals = new Map<string, YearlyMarketTotal>();
+  for (const p of payments) {
+    const key = `${p.taxYear}:${p.market}`;
+    let total = totals.get(key);
+    if (!total) {
+      total = { taxYear: p.taxYear, market: p.market, payments: 0, received: 0, paid: 0, net: 0 };
+      totals.set(key, total);
+    }
+    total.payments += 1;
+    if (p.usdValue >= 0) total.received += p.usdValue;
+    else total.paid -= p.usdValue;
+    total.net += p.usdValue;
+  }
+  return [...totals.values()].sort(
+    (a, b) => a.taxYear - b.taxYear || a.market.localeCompare(b.market)
+  );
+}
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+/** Wall-clock date/time parts in the export timezone. */
+function formatTime(ts: number, timeZone: string | undefined, layout: "iso" | "us"): string {
+  const p = getZonedParts(ts, timeZone);
+  const time = `${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+  return layout === "us"
+    ? `${pad(p.month)}/${pad(p.day)}/${p.year} ${time}`
+    : `${formatDateKey(ts, timeZone)} ${time}`;
+}
+
+const round = (value: number | null, digits: number) =>
+  value === null ? null : Number(value.toFixed(digits));
+
+const received = (p: ValuedPayment) => (p.amount > 0 ? round(p.amount, 6) : null);
+const sent = (p: ValuedPayment) => (p.amount < 0 ? round(-p.amount, 6) : null);
+const describe = (p: ValuedPayment) =>
+  `Drift ${p.market} funding ${p.amount >= 0 ? "received" : "paid"}`;
+
+export type TaxPreset = "detailed" | "koinly" | "cointracker" | "coinledger";
+
+export interface TaxPresetDefinition {
+  label: string;
+  description: string;
+  columns: (timeZone?: string) => ExportColumn<ValuedPayment>[];
+}
+
+/**
+ * Column layouts; the tool presets follow each tool's universal CSV import template
+ */
+export const TAX_PRESETS: Record<TaxPreset, TaxPresetDefinition> = {
+  detailed: {
+    label: "Detailed",
+    description: "Every valuation field, in the display timezone",
+    columns: (timeZone) => [
+      { key: "time", value: (p) => formatTime(p.ts, timeZone, "iso") },
+      { key: "ts", value: (p) => p.ts },
+      { key: "taxYear", value: (p) => p.taxYear },
+      { key: "account", value: (p) => p.account },
+      { key: "market", value: (p) => p.market },
+      { key: "amountUsdc", value: (p) => p.amount },
+      { key: "valueUsd", value: (p) => p.usdValue },
+      { key: "spotSymbol", value: (p) => p.spotSymbol },
+      { key: "spotPriceUsd", value: (p) => p.spotPrice },
+      { key: "priceSource", value: (p) => p.priceSource },
+      { key: "amountInSpot", value: (p) => round(p.amountInSpot, 9) },
+      { key: "spotLegTokens", value: (p) => p.spotLegTokens },
+      { key: "spotLegValueUsd", value: (p) => round(p.spotLegValueUsd, 2) },
+      { key: "txSig", value: (p) => p.txSig },
+      { key: "txSigIndex", value: (p) => p.txSigIndex },
+    ],
+  },
+  koinly: {
+    label: "Koinly",
+    description: "Koinly universal template",
+    columns: () => [
+      { key: "Date", value: (p) => `${formatTime(p.ts, "UTC", "iso")} UTC` },
+      { key: "Sent Amount", value: sent },
+      { key: "Sent Currency", value: (p) => (p.amount < 0 ? "USDC" : null) },
+      { key: "Received Amount", value: received },
+      { key: "Received Currency", value: (p) => (p.amount > 0 ? "USDC" : null) },
+      { key: "Fee Amount", value: () => null },
+      { key: "Fee Currency", value: () => null },
+      { key: "Net Worth Amount", value: (p) => round(Math.abs(p.usdValue), 6) },
+      { key: "Net Worth Currency", value: () => "USD" },
+      { key: "Label", value: (p) => (p.amount >= 0 ? "income" : "cost") },
+      { key: "Description", value: describe },
+      { key: "TxHash", value: (p) => p.txSig },
+    ],
+  },
+  cointracker: {
+    label: "CoinTracker",
+    description: "CoinTracker CSV import",
+    columns: () => [
+      { key: "Date", value: (p) => formatTime(p.ts, "UTC", "us") },
+      { key: "Received Quantity", value: received },
+      { key: "Received Currency", value: (p) => (p.amount > 0 ? "USDC" : null) },
+      { key: "Sent Quantity", value: sent },
+      { key: "Sent Currency", value: (p) => (p.amount < 0 ? "USDC" : null) },
+      { key: "Fee Amount", value: () => null },
+      { key: "Fee Currency", value: () => null },
+      { key: "Tag", value: (p) => (p.amount >= 0 ? "income" : null) },
+    ],
+  },
+  coinledger: {
+    label: "CoinLedger",
+    description: "CoinLedger universal template",
+    columns: () => [
+      { key: "Date (UTC)", value: (p) => formatTime(p.ts, "UTC", "us") },
+      { key: "Platform (Optional)", value: () => "Drift" },
+      { key: "Asset Sent", value: (p) => (p.amount < 0 ? "USDC" : null) },
+      { key: "Amount Sent", value: sent },
+      { key: "Asset Received", value: (p) => (p.amount > 0 ? "USDC" : null) },
+      { key: "Amount Received", value: received },
+      { key: "Fee Currency (Optional)", value: () => null },
+      { key: "Fee Amount (Optional)", value: () => null },
+      { key: "Type", value: (p) => (p.amount >= 0 ? "Interest" : "Investment Loss") },
+      { key: "Description (Optional)", value: describe },
+      { key: "TxHash (Optional)", value: (p) => p.txSig },
+    ],
+  },
+};
+
+export const YEARLY_TOTAL_COLUMNS: ExportColumn<YearlyMarketTotal>[] = [
+  { key: "taxYear", value: (t) => t.taxYear },
+  { key: "market", value: (t) => t.market },
+  { key: "payments", value: (t) => t.payments },
+  { key: "receivedUsd", value: (t) => round(t.received, 2) },
+  { key: "paidUsd", value: (t) => round(t.paid, 2) },
+  { key: "netUsd", value: (t) => round(t.net, 2) },
+];
+
+/**
+ * Valued payments as CSV in a preset's layout; the tool presets skip zero payments,
+ * which have neither a sent nor a received side
+ */
+export function buildTaxCsv(preset: TaxPreset, payments: ValuedPayment[], timeZone?: string): string {
+  const rows = preset === "detailed" ? payments : payments.filter((p) => p.amount !== 0);
+  return toCsv(rows, TAX_PRESETS[preset].columns(timeZone));
+}
@@ -0,0 +1,68 @@
+/**
+ * Dashboard timeframes shared by client and server.
+ */
+
+import { zonedTimeToUnix } from "./timezone";
+
+export type Timeframe = "24H" | "7D" | "30D" | "3M" | "6M" | "1Y";
+
+export const ALL_TIMEFRAMES: Timeframe[] = ["24H", "7D", "30D", "3M", "6M", "1Y"];
+
+export const EXTENDED_TIMEFRAMES: Timeframe[] = ["3M", "6M", "1Y"];
+
+/** Bucket size for dailyMetrics: hourly (24H view) or daily. */
+export type Resolution = "hour" | "day";
+
+/**
+ * Get timeframe duration in days
+ */
+export function getTimeframeDays(timeframe: Timeframe): number {
+  switch (timeframe) {
+    case "24H": return 1;
+    case "7D": return 7;
+    case "30D": return 30;
+    case "3M": return 90;
+    case "6M": return 180;
+    case "1Y": return 365;
+  }
+}
+
+/**
+ * Default bucket size for a timeframe (hourly for 24H, daily otherwise)
+ */
+export function getDefaultResolution(timeframe: Timeframe): Resolution {
+  return timeframe === "24H" ? "hour" : "day";
+}
+
+/** Custom from/to interval in unix seconds (fromTs inclusive, toTs exclusive) */
+export interface DateRange {
+  fromTs: number;
+  toTs: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Range length in days (fractional)
+ */
+export function getRangeDays(range: DateRange): number {
+  return (range.toTs - range.fromTs) / DAY_SECONDS;
+}
+
+/**
+ * Calendar month (1-12, overflow rolls over) as a range in a timezone
+ */
+export function getMonthRange(year: number, month: number, timeZone?: string): DateRange {
+  return {
+    fromTs: zonedTimeToUnix(year, month, 1, 0, timeZone),
+    toTs: zonedTimeToUnix(year, month + 1, 1, 0, timeZone),
+  };
+}
+
+/**
+ * Shortest preset covering a range's span; picks the bucket size and candle set for it
+ */
+export function getRangeTimeframe(range: DateRange): Timeframe {
+  const days = getRangeDays(range);
+  return ALL_TIMEFRAMES.find((tf) => getTimeframeDays(tf) >= days) ?? "1Y";
+}
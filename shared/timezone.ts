@@ -0,0 +1,138 @@
+/**
+ * Timezone-aware day/hour keys shared by client and server.
+ * `timeZone` is "UTC" or an IANA zone ("America/New_York"); undefined means the
+ * runtime's local zone (the browser on the client).
+ */
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Whether a string is a timezone Intl understands ("UTC" or IANA)
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock parts of a unix timestamp (seconds) in a timezone
+ */
+export function getZonedParts(ts: number, timeZone?: string): ZonedParts {
+  const date = new Date(ts * 1000);
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    };
+  }
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Unix timestamp (seconds) of a wall-clock time in a timezone
+ * (month is 1-12; day/hour overflow rolls over like Date.UTC)
+ */
+export function zonedTimeToUnix(
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  timeZone?: string
+): number {
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, 0, 0).getTime() / 1000;
+  }
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour) / 1000;
+  // Offset at the guess, then again at the corrected time (handles DST edges)
+  let ts = wallAsUtc - getOffsetSeconds(wallAsUtc, timeZone);
+  ts = wallAsUtc - getOffsetSeconds(ts, timeZone);
+  return ts;
+}
+
+/**
+ * Zone offset from UTC (seconds) at a timestamp
+ */
+function getOffsetSeconds(ts: number, timeZone: string): number {
+  const p = getZonedParts(ts, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) / 1000 - Math.floor(ts);
+}
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+/**
+ * Day key (YYYY-MM-DD) of a unix timestamp (seconds) in a timezone
+ */
+export function formatDateKey(ts: number, timeZone?: string): string {
+  const p = getZonedParts(ts, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * Hour key (YYYY-MM-DDTHH) of a unix timestamp (seconds) in a timezone
+ */
+export function formatHourKey(ts: number, timeZone?: string): string {
+  const p = getZonedParts(ts, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}`;
+}
+
+/**
+ * Unix timestamp (seconds) where a YYYY-MM-DD or YYYY-MM-DDTHH key starts in a timezone
+ */
+export function keyToUnix(key: string, timeZone?: string): number {
+  const [datePart, hourPart] = key.split("T");
+  const [year, month, day] = datePart.split("-").map(Number);
+  return zonedTimeToUnix(year, month, day, hourPart ? parseInt(hourPart, 10) : 0, timeZone);
+}
+
+/**
+ * Today's day key in a timezone
+ */
+export function getTodayKey(timeZone?: string): string {
+  return formatDateKey(Date.now() / 1000, timeZone);
+}
@@ -4,8 +4,34 @@
  * frontend consumes them via /api/yield/* endpoints.
  */
 
+/**
+ * Size of a perp market, all in USD at the oracle price. ammDepthUsd is what the AMM
+ * alone fills before its price moves 1% (the thinner side); DLOB and JIT makers add to it.
+ */
+export interface PerpLiquidity {
+  openInterestLongUsd: number;
+  openInterestShortUsd: number;
+  volume24hUsd: number;
+  ammDepthUsd: number;
+}
+
+/**
+ * What drives a market's next funding payment. Rates are hourly % from the short side
+ * (positive: shorts receive) unless named otherwise; TWAPs are in USD.
+ */
+export interface FundingBreakdown {
+  fundingRateLongHourPct: number;   // Predicted rate for longs (positive: longs receive)
+  lastFundingRateHourPct: number;   // Rate settled at the last funding update
+  nextFundingTs: number;            // Unix seconds of the next funding update
+  markTwap: number;
+  oracleTwap: number;
+  twapSpreadPct: number;            // (mark TWAP − oracle TWAP) / oracle TWAP
+  fundingCapHourPct: number;        // Largest hourly rate the market's contract tier allows
+  isFundingCapped: boolean;         // Predicted rate is clamped to fundingCapHourPct
+}
+
 /** A single perp market's live funding rate (hourly + annualized). */
-export interface FundingRateRow {
+export interface FundingRateRow extends PerpLiquidity, FundingBreakdown {
   symbol: string;
   marketIndex: number;
   fundingRateHourPct: number;
@@ -13,7 +39,7 @@ export interface FundingRateRow {
 }
 
 /** A perp market that has no corresponding spot market on Drift. */
-export interface PerpWithoutSpotRow {
+export interface PerpWithoutSpotRow extends PerpLiquidity {
   symbol: string;
   baseAsset: string;
   marketIndex: number;
@@ -23,7 +49,7 @@ export interface PerpWithoutSpotRow {
 }
 
 /** A delta-neutral pair (short perp + lend spot) with combined APY. */
-export interface DeltaNeutralRow {
+export interface DeltaNeutralRow extends PerpLiquidity {
   perpSymbol: string;
   spotSymbol: string;
   deltaNeutralApyPct: number;
@@ -33,8 +59,9 @@ export interface DeltaNeutralRow {
   borrowingRatePct?: number;
 }
 
-/** Spot market lending and borrowing rates. */
+/** Spot market lending and borrowing rates, with the market's oracle price. */
 export interface SpotRatesRow {
   lendingApyPct: number;
   borrowingRatePct: number;
+  oraclePrice: number;
 }
@@ -7,12 +7,16 @@ import { Header } from "@/components/Header";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import YieldScanner from "@/pages/YieldScanner";
+import MonthlyReport from "@/pages/MonthlyReport";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/wallet/:address" component={Home} />
+      <Route path="/authority/:address" component={Home} />
       <Route path="/scanner" component={YieldScanner} />
+      <Route path="/report" component={MonthlyReport} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { CalendarRange, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTimeZone } from "@/hooks/use-timezone";
+import { getMonthRange, type DateRange } from "@/types/loading-types";
+import {
+  formatDateKey,
+  getTodayKey,
+  getZonedParts,
+  keyToUnix,
+  zonedTimeToUnix,
+} from "../../shared/timezone";
+
+interface DateRangePickerProps {
+  /** Selected range, or null when a preset timeframe is in use */
+  value: DateRange | null;
+  onChange: (range: DateRange | null) => void;
+}
+
+/**
+ * Inclusive from/to day keys (YYYY-MM-DD) → range from the start of `from` to the end of `to`
+ * in the display timezone
+ */
+function toRange(from: string, to: string, timeZone?: string): DateRange | null {
+  if (!from || !to || from > to) return null;
+  const [year, month, day] = to.split("-").map(Number);
+  return {
+    fromTs: keyToUnix(from, timeZone),
+    toTs: zonedTimeToUnix(year, month, day + 1, 0, timeZone),
+  };
+}
+
+/**
+ * Calendar month containing `ts`, offset by `monthOffset` months
+ */
+function getMonthRangeAt(ts: number, monthOffset: number, timeZone?: string): DateRange {
+  const { year, month } = getZonedParts(ts, timeZone);
+  return getMonthRange(year, month + monthOffset, timeZone);
+}
+
+/**
+ * Custom from/to picker; days are whole days in the display timezone
+ */
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const timeZone = useTimeZone();
+  const [isOpen, setIsOpen] = useState(false);
+  const today = getTodayKey(timeZone);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState(today);
+
+  // Show the applied range when reopening
+  useEffect(() => {
+    if (!isOpen || !value) return;
+    setFrom(formatDateKey(value.fromTs, timeZone));
+    setTo(formatDateKey(value.toTs - 1, timeZone));
+  }, [isOpen, value, timeZone]);
+
+  const draft = toRange(from, to, timeZone);
+
+  // Ranges reaching into today end now, so the period length matches the data in it
+  const apply = (range: DateRange) => {
+    onChange({ ...range, toTs: Math.min(range.toTs, Math.floor(Date.now() / 1000) + 1) });
+    setIsOpen(false);
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+  const label = value
+    ? `${formatDateKey(value.fromTs, timeZone)} → ${formatDateKey(value.toTs - 1, timeZone)}`
+    : "Custom";
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex items-center rounded-lg ${value ? "bg-background shadow-sm" : "bg-muted"}`}
+      >
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className={`px-3 py-2 text-xs font-medium flex items-center gap-1.5 transition-colors ${
+            value ? "text-foreground" : "text-muted-foreground hover:text-foreground"
+          }`}
+        >
+          <CalendarRange className="w-3.5 h-3.5" />
+          {label}
+        </button>
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="pr-2 text-muted-foreground hover:text-foreground"
+            title="Back to preset timeframes"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-72 rounded-xl border border-border bg-card shadow-xl shadow-black/30 p-4 space-y-3">
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => apply(getMonthRangeAt(now, 0, timeZone))}
+            >
+              This month
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => apply(getMonthRangeAt(now, -1, timeZone))}
+            >
+              Last month
+            </Button>
+          </div>
+          <label className="block text-xs text-muted-foreground">
+            From
+            <Input
+              type="date"
+              value={from}
+              max={to || today}
+              onChange={(e) => setFrom(e.target.value)}
+              className="mt-1 h-8 text-xs"
+            />
+          </label>
+          <label className="block text-xs text-muted-foreground">
+            To
+            <Input
+              type="date"
+              value={to}
+              min={from || undefined}
+              max={today}
+              onChange={(e) => setTo(e.target.value)}
+              className="mt-1 h-8 text-xs"
+            />
+          </label>
+          <div className="flex justify-end gap-2 pt-1">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="button" size="sm" disabled={!draft} onClick={() => draft && apply(draft)}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getDriftIconUrl } from "@/lib/drift-icons";
+import {
+  HEDGE_TOLERANCE,
+  type HedgeStatus,
+  type MarketDelta,
+} from "@/services/hedge-monitor";
+
+interface DeltaMonitorProps {
+  deltas: MarketDelta[];
+}
+
+const STATUS_STYLES: Record<HedgeStatus, { label: string; className: string }> = {
+  hedged: {
+    label: "Hedged",
+    className: "bg-emerald-900/40 text-emerald-400 border-emerald-600/30",
+  },
+  "under-hedged": {
+    label: "Under-hedged",
+    className: "bg-orange-900/40 text-orange-400 border-orange-600/30",
+  },
+  "over-hedged": {
+    label: "Over-hedged",
+    className: "bg-orange-900/40 text-orange-400 border-orange-600/30",
+  },
+  unhedged: {
+    label: "Unhedged",
+    className: "bg-red-900/40 text-red-400 border-red-600/30",
+  },
+};
+
+const formatTokens = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: Math.abs(val) >= 1000 ? 0 : 4,
+    signDisplay: "exceptZero",
+  }).format(val);
+
+const formatUsd = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    signDisplay: "exceptZero",
+  }).format(val);
+
+/**
+ * Per-market hedge ratio and net delta from live perp positions and spot balances
+ */
+export function DeltaMonitor({ deltas }: DeltaMonitorProps) {
+  const totalNetDeltaUsd = deltas.reduce((sum, d) => sum + d.netDeltaUsd, 0);
+  const flaggedCount = deltas.filter((d) => d.status !== "hedged").length;
+
+  return (
+    <div className="rounded-2xl border border-border bg-card shadow-lg shadow-black/20 overflow-hidden">
+      <div className="p-6 border-b border-border flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-medium">Delta Monitor</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Perp legs matched against spot balances · hedged within ±{HEDGE_TOLERANCE * 100}%
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {flaggedCount > 0 && (
+            <Badge variant="outline" className="font-mono text-xs text-orange-400 border-orange-600/30">
+              {flaggedCount} FLAGGED
+            </Badge>
+          )}
+          <Badge variant="outline" className="font-mono text-xs">
+            NET {formatUsd(totalNetDeltaUsd)}
+          </Badge>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader className="bg-muted/30">
+          <TableRow className="hover:bg-transparent border-border">
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider">Market</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Perp</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Spot</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Hedge Ratio</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Net Delta</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Net Delta (USD)</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider">Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {deltas.map((d) => {
+            const status = STATUS_STYLES[d.status];
+            return (
+              <TableRow key={`${d.perpSymbol ?? "spot"}-${d.spotSymbol}`} className="border-border/50">
+                <TableCell className="font-mono font-medium">
+                  <div className="flex items-center gap-2">
+                    <img
+                      src={getDriftIconUrl(d.perpSymbol ?? d.spotSymbol)}
+                      alt=""
+                      className="w-6 h-6 rounded-full object-contain bg-muted/50"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).style.visibility = "hidden";
+                      }}
+                    />
+                    <div className="flex flex-col">
+                      <span>{d.perpSymbol ?? d.spotSymbol}</span>
+                      {d.perpSymbol && (
+                        <span className="text-[10px] font-sans font-normal text-muted-foreground">
+                          vs {d.spotSymbol} spot
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {d.perpSymbol ? formatTokens(d.perpTokens) : "—"}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatTokens(d.spotTokens)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {d.hedgeRatio !== null ? `${(d.hedgeRatio * 100).toFixed(1)}%` : "—"}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatTokens(d.netDeltaTokens)} {d.spotSymbol}
+                </TableCell>
+                <TableCell
+                  className={cn(
+                    "text-right font-mono font-medium",
+                    d.status === "hedged" ? "text-muted-foreground" : "text-orange-400"
+                  )}
+                >
+                  {formatUsd(d.netDeltaUsd)}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary" className={cn("font-normal text-xs border", status.className)}>
+                    {status.label}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
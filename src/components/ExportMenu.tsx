@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { useTimeZone } from "@/hooks/use-timezone";
+import { downloadFile } from "@/lib/download";
+import type { DailyMetric, Position } from "@/types/schema";
+import type { DriftFundingPaymentRecord } from "@/services/drift-types";
+import type { DateRange } from "@/types/loading-types";
+import { fetchValuedPayments } from "@/services/accounting-export";
+import {
+  buildExport,
+  toCsv,
+  toRows,
+  type ExportDataset,
+  type ExportFormat,
+} from "../../shared/export";
+import {
+  TAX_PRESETS,
+  YEARLY_TOTAL_COLUMNS,
+  buildTaxCsv,
+  getYearlyTotals,
+  type TaxPreset,
+} from "../../shared/tax-export";
+import { formatDateKey } from "../../shared/timezone";
+
+interface ExportMenuProps {
+  /** Wallet, authority or portfolio name, used in file names */
+  name: string;
+  records: DriftFundingPaymentRecord[];
+  dailyMetrics: DailyMetric[];
+  positions: Position[];
+  /** Period shown on screen, used in file names */
+  period: DateRange;
+}
+
+const DATASETS: { id: ExportDataset; label: string; description: string }[] = [
+  { id: "funding", label: "Funding ledger", description: "Raw funding payments" },
+  { id: "daily", label: "Daily metrics", description: "PnL, carry and notional per bucket" },
+  { id: "daily-markets", label: "Daily by market", description: "Per-market breakdown per bucket" },
+  { id: "positions", label: "Positions", description: "Positions with notional and PnL" },
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+};
+
+type AccountingExport = TaxPreset | "yearly-csv" | "yearly-json";
+
+/**
+ * Download the funding ledger, daily metrics and positions as CSV or JSON, and
+ * payments valued at payment time for accounting
+ */
+export function ExportMenu({ name, records, dailyMetrics, positions, period }: ExportMenuProps) {
+  const timeZone = useTimeZone();
+  const [isOpen, setIsOpen] = useState(false);
+  const [preparing, setPreparing] = useState<AccountingExport | null>(null);
+  const [accountingError, setAccountingError] = useState<string | null>(null);
+
+  const getFileName = (dataset: string, format: ExportFormat) => {
+    const from = formatDateKey(period.fromTs, timeZone);
+    const to = formatDateKey(period.toTs - 1, timeZone);
+    const safeName = name.replace(/[^A-Za-z0-9_-]+/g, "-").slice(0, 44);
+    return `perplens-${safeName}-${dataset}-${from}_${to}.${format}`;
+  };
+
+  const handleExport = (dataset: ExportDataset, format: ExportFormat) => {
+    const content = buildExport(dataset, format, { records, dailyMetrics, positions, timeZone });
+    downloadFile(getFileName(dataset, format), content, MIME_TYPES[format]);
+  };
+
+  // Candles are fetched on demand, so the valuation only runs when asked for
+  const handleAccountingExport = async (kind: AccountingExport) => {
+    setPreparing(kind);
+    setAccountingError(null);
+    try {
+      const payments = await fetchValuedPayments(records, timeZone);
+      if (kind === "yearly-csv" || kind === "yearly-json") {
+        const totals = getYearlyTotals(payments);
+        const format: ExportFormat = kind === "yearly-csv" ? "csv" : "json";
+        const content =
+          format === "csv"
+            ? toCsv(totals, YEARLY_TOTAL_COLUMNS)
+            : JSON.stringify(toRows(totals, YEARLY_TOTAL_COLUMNS), null, 2);
+        downloadFile(getFileName("yearly-totals", format), content, MIME_TYPES[format]);
+      } else {
+        downloadFile(
+          getFileName(`accounting-${kind}`, "csv"),
+          buildTaxCsv(kind, payments, timeZone),
+          MIME_TYPES.csv
+        );
+      }
+    } catch (err) {
+      setAccountingError(err instanceof Error ? err.message : "Failed to value payments.");
+    } finally {
+      setPreparing(null);
+    }
+  };
+
+  const accountingButtonClass =
+    "px-2 py-1 rounded-md border border-border text-[11px] font-mono text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-30 disabled:pointer-events-none flex items-center gap-1";
+
+  const counts: Record<ExportDataset, number> = {
+    funding: records.length,
+    daily: dailyMetrics.length,
+    "daily-markets": dailyMetrics.reduce((sum, m) => sum + (m.perMarketBreakdown?.length ?? 0), 0),
+    positions: positions.length,
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="px-3 py-2 rounded-lg bg-muted text-xs font-medium flex items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Download className="w-3.5 h-3.5" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-80 rounded-xl border border-border bg-card shadow-xl shadow-black/30 p-2">
+          {DATASETS.map((dataset) => (
+            <div
+              key={dataset.id}
+              className="flex items-center justify-between gap-3 rounded-lg px-2 py-2 hover:bg-muted/40"
+            >
+              <div className="min-w-0">
+                <p className="text-xs font-medium">{dataset.label}</p>
+                <p className="text-[11px] text-muted-foreground">
+                  {dataset.description} · {counts[dataset.id]} rows
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {(["csv", "json"] as ExportFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    disabled={counts[dataset.id] === 0}
+                    onClick={() => handleExport(dataset.id, format)}
+                    className="px-2 py-1 rounded-md border border-border text-[11px] font-mono uppercase text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-30 disabled:pointer-events-none"
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="border-t border-border mt-2 pt-2 px-2 pb-1 space-y-2">
+            <div>
+              <p className="text-xs font-medium">Accounting</p>
+              <p className="text-[11px] text-muted-foreground">
+                Payments valued at payment time, with the spot leg's token value. Covers the
+                period on screen; pick a custom range for a full tax year
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(TAX_PRESETS) as TaxPreset[]).map((preset) => (
+                <button
+                  key={preset}
+                  type="button"
+                  disabled={records.length === 0 || preparing !== null}
+                  onClick={() => handleAccountingExport(preset)}
+                  className={accountingButtonClass}
+                  title={TAX_PRESETS[preset].description}
+                >
+                  {preparing === preset && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {TAX_PRESETS[preset].label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-[11px] text-muted-foreground">Yearly totals per market</p>
+              <div className="flex gap-1 shrink-0">
+                {(["yearly-csv", "yearly-json"] as const).map((kind) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    disabled={records.length === 0 || preparing !== null}
+                    onClick={() => handleAccountingExport(kind)}
+                    className={`${accountingButtonClass} uppercase`}
+                  >
+                    {preparing === kind && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {kind === "yearly-csv" ? "csv" : "json"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {accountingError && <p className="text-[11px] text-destructive">{accountingError}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
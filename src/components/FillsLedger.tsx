@@ -0,0 +1,175 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useTimeZone } from "@/hooks/use-timezone";
+import type { TradeFill } from "@/types/schema";
+
+interface FillsLedgerProps {
+  /** Fills within the timeframe, newest first */
+  fills: TradeFill[];
+  /** Account pubkey → label; adds an account column when several accounts are aggregated */
+  accountLabels?: Map<string, string>;
+}
+
+/** Rows shown before "Show all" */
+const PAGE_SIZE = 25;
+
+const formatUsd = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+  }).format(val);
+
+const formatPrice = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: val < 1 ? 6 : 2,
+  }).format(val);
+
+const formatTokens = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: Math.abs(val) >= 1000 ? 0 : 4,
+  }).format(val);
+
+const formatTime = (ts: number, timeZone?: string) =>
+  new Date(ts * 1000).toLocaleString("en-US", {
+    timeZone,
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+/**
+ * Perp and spot fills with fees and realized PnL, newest first
+ */
+export function FillsLedger({ fills, accountLabels }: FillsLedgerProps) {
+  const [showAll, setShowAll] = useState(false);
+  const timeZone = useTimeZone();
+  const showAccount = accountLabels !== undefined && accountLabels.size > 1;
+
+  const totalFees = fills.reduce((sum, f) => sum + f.fee, 0);
+  const totalRealized = fills.reduce((sum, f) => sum + f.realizedPnl, 0);
+  const totalVolume = fills.reduce((sum, f) => sum + f.quoteAmount, 0);
+  const visibleFills = showAll ? fills : fills.slice(0, PAGE_SIZE);
+
+  return (
+    <div className="rounded-2xl border border-border bg-card shadow-lg shadow-black/20 overflow-hidden">
+      <div className="p-6 border-b border-border flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-medium">Fills Ledger</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            {fills.length} fills · {formatUsd(totalVolume)} volume
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge
+            variant="outline"
+            className={cn("font-mono text-xs", totalFees > 0 ? "text-destructive" : "text-primary")}
+          >
+            FEES {formatUsd(-totalFees)}
+          </Badge>
+          <Badge
+            variant="outline"
+            className={cn("font-mono text-xs", totalRealized >= 0 ? "text-primary" : "text-destructive")}
+          >
+            REALIZED {formatUsd(totalRealized)}
+          </Badge>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader className="bg-muted/30">
+          <TableRow className="hover:bg-transparent border-border">
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider">Time</TableHead>
+            {showAccount && (
+              <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider">Account</TableHead>
+            )}
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider">Market</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider">Side</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Size</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Price</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Notional</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Fee</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Realized</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleFills.map((fill) => (
+            <TableRow
+              key={`${fill.txSig}-${fill.account}-${fill.role}-${fill.marketType}-${fill.marketIndex}-${fill.ts}`}
+              className="border-border/50"
+            >
+              <TableCell className="font-mono text-xs text-muted-foreground whitespace-nowrap">
+                {formatTime(fill.ts, timeZone)}
+              </TableCell>
+              {showAccount && (
+                <TableCell className="text-xs">{accountLabels.get(fill.account) ?? fill.account.slice(0, 6)}</TableCell>
+              )}
+              <TableCell className="font-mono font-medium">
+                {fill.symbol}
+                <span className="ml-2 text-[10px] font-sans font-normal text-muted-foreground uppercase">
+                  {fill.marketType}
+                </span>
+              </TableCell>
+              <TableCell>
+                <span className={cn("text-xs font-medium uppercase", fill.side === "buy" ? "text-primary" : "text-destructive")}>
+                  {fill.side}
+                </span>
+                <span className="ml-2 text-[10px] text-muted-foreground">{fill.role}</span>
+              </TableCell>
+              <TableCell className="text-right font-mono text-muted-foreground">
+                {formatTokens(fill.baseAmount)}
+              </TableCell>
+              <TableCell className="text-right font-mono">{formatPrice(fill.price)}</TableCell>
+              <TableCell className="text-right font-mono text-muted-foreground">
+                {formatUsd(fill.quoteAmount)}
+              </TableCell>
+              <TableCell className={cn("text-right font-mono", fill.fee > 0 ? "text-destructive" : "text-primary")}>
+                {formatUsd(-fill.fee)}
+              </TableCell>
+              <TableCell
+                className={cn(
+                  "text-right font-mono",
+                  fill.realizedPnl === 0
+                    ? "text-muted-foreground"
+                    : fill.realizedPnl > 0
+                      ? "text-primary"
+                      : "text-destructive"
+                )}
+              >
+                {fill.realizedPnl === 0 ? "—" : formatUsd(fill.realizedPnl)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {fills.length > PAGE_SIZE && (
+        <div className="p-3 border-t border-border flex justify-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowAll((prev) => !prev)}
+            className="text-muted-foreground"
+          >
+            {showAll ? "Show latest" : `Show all ${fills.length} fills`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { ArrowUp, Fuel } from "lucide-react";
 import { fetchMarketCandle } from "@/services/drift-api";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
 
 export function Header() {
   const [location] = useLocation();
@@ -18,11 +19,12 @@ export function Header() {
     };
   }, []);
 
-  const isDashboard = location === "/";
+  const isDashboard =
+    location === "/" || location.startsWith("/wallet/") || location.startsWith("/authority/");
   const isScanner = location === "/scanner";
 
   return (
-    <header className="sticky top-0 z-50 h-16 flex justify-between items-center border-b border-white/5 bg-background/80 backdrop-blur-md px-4 sm:px-6 lg:px-8">
+    <header className="print:hidden sticky top-0 z-50 h-16 flex justify-between items-center border-b border-white/5 bg-background/80 backdrop-blur-md px-4 sm:px-6 lg:px-8">
       <div className="flex items-center">
         <Link href="/" className="flex items-center gap-4">
           <span className="text-xl font-display font-bold tracking-tight text-foreground">
@@ -55,6 +57,7 @@ export function Header() {
       </div>
 
       <div className="flex items-center gap-3">
+        <TimeZoneSelect />
         <div className="flex items-center gap-3 bg-secondary/30 rounded-full px-4 py-1.5 border border-white/5">
           <span className="flex items-center gap-1.5 text-primary font-medium text-sm">
             <ArrowUp className="w-3.5 h-3.5" />
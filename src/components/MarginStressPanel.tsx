@@ -0,0 +1,232 @@
+import { useMemo, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getDriftIconUrl } from "@/lib/drift-icons";
+import {
+  STRESS_SCENARIOS,
+  applyShock,
+  assetShock,
+  estimateLiquidationPrices,
+  getPriceGroups,
+  type MarginModel,
+  type StressResult,
+} from "@/services/margin-stress";
+
+interface MarginStressPanelProps {
+  model: MarginModel;
+}
+
+const formatUsd = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+  }).format(val);
+
+const formatPrice = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumSignificantDigits: val >= 1000 ? undefined : 5,
+    maximumFractionDigits: val >= 1000 ? 2 : undefined,
+  }).format(val);
+
+const formatTokens = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: Math.abs(val) >= 1000 ? 0 : 4,
+  }).format(Math.abs(val));
+
+const formatPct = (val: number) => `${val > 0 ? "+" : ""}${(val * 100).toFixed(1)}%`;
+
+const getHealthColor = (health: number) =>
+  health >= 70 ? "hsl(142,71%,45%)" : health >= 40 ? "hsl(35,92%,50%)" : "hsl(0,100%,65%)";
+
+/** Distance to liquidation below 15% is red, below 35% orange */
+const getDistanceClass = (distance: number) =>
+  Math.abs(distance) < 0.15 ? "text-red-400" : Math.abs(distance) < 0.35 ? "text-orange-400" : "text-emerald-400";
+
+const HEAD_CLASS = "font-semibold text-muted-foreground text-xs uppercase tracking-wider";
+
+function HealthCell({ result }: { result: StressResult }) {
+  if (result.health <= 0) {
+    return (
+      <Badge variant="secondary" className="font-normal text-xs border bg-red-900/40 text-red-400 border-red-600/30">
+        Liquidated
+      </Badge>
+    );
+  }
+  return (
+    <div className="flex items-center justify-end gap-3">
+      <div className="w-24 h-1.5 rounded-full bg-muted/50 overflow-hidden">
+        <div
+          className="h-full rounded-full"
+          style={{ width: `${result.health}%`, background: getHealthColor(result.health) }}
+        />
+      </div>
+      <span className="font-mono w-14 text-right">{result.health.toFixed(1)}%</span>
+    </div>
+  );
+}
+
+/**
+ * Estimated liquidation prices and account health under price shocks, from live account state
+ */
+export function MarginStressPanel({ model }: MarginStressPanelProps) {
+  const assets = useMemo(() => getPriceGroups(model), [model]);
+  const [customAsset, setCustomAsset] = useState(assets[0] ?? "");
+  const [customChange, setCustomChange] = useState("50");
+
+  const liquidations = useMemo(() => estimateLiquidationPrices(model), [model]);
+  const current = applyShock(model, () => 0);
+  const scenarios = STRESS_SCENARIOS.map((scenario) => ({
+    ...scenario,
+    result: applyShock(model, scenario.shock),
+  }));
+
+  const asset = assets.includes(customAsset) ? customAsset : assets[0];
+  const change = Number(customChange) / 100;
+  const customResult =
+    asset && Number.isFinite(change) && change > -1 ? applyShock(model, assetShock(asset, change)) : null;
+
+  return (
+    <div className="rounded-2xl border border-border bg-card shadow-lg shadow-black/20 overflow-hidden">
+      <div className="p-6 border-b border-border flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-medium">Liquidation Risk</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Estimated from collateral, health and approximate maintenance weights · shocks move oracle prices
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="font-mono text-xs">
+            BUFFER {formatUsd(Math.max(model.collateral - model.requirement, 0))}
+          </Badge>
+          <Badge variant="outline" className="font-mono text-xs" style={{ color: getHealthColor(current.health) }}>
+            HEALTH {current.health.toFixed(1)}%
+          </Badge>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader className="bg-muted/30">
+          <TableRow className="hover:bg-transparent border-border">
+            <TableHead className={HEAD_CLASS}>Market</TableHead>
+            <TableHead className={HEAD_CLASS}>Side</TableHead>
+            <TableHead className={cn(HEAD_CLASS, "text-right")}>Size</TableHead>
+            <TableHead className={cn(HEAD_CLASS, "text-right")}>Oracle</TableHead>
+            <TableHead className={cn(HEAD_CLASS, "text-right")}>Est. Liq. Price</TableHead>
+            <TableHead className={cn(HEAD_CLASS, "text-right")}>Distance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {liquidations.map((l) => (
+            <TableRow key={l.symbol} className="border-border/50">
+              <TableCell className="font-mono font-medium">
+                <div className="flex items-center gap-2">
+                  <img
+                    src={getDriftIconUrl(l.symbol)}
+                    alt=""
+                    className="w-6 h-6 rounded-full object-contain bg-muted/50"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).style.visibility = "hidden";
+                    }}
+                  />
+                  <span>{l.symbol}</span>
+                </div>
+              </TableCell>
+              <TableCell className={cn("text-xs uppercase", l.side === "short" ? "text-red-400" : "text-emerald-400")}>
+                {l.side}
+              </TableCell>
+              <TableCell className="text-right font-mono text-muted-foreground">{formatTokens(l.baseAmount)}</TableCell>
+              <TableCell className="text-right font-mono text-muted-foreground">{formatPrice(l.price)}</TableCell>
+              <TableCell className="text-right font-mono">
+                {l.liquidationPrice !== null ? formatPrice(l.liquidationPrice) : "—"}
+              </TableCell>
+              <TableCell
+                className={cn(
+                  "text-right font-mono font-medium",
+                  l.distance !== null ? getDistanceClass(l.distance) : "text-muted-foreground"
+                )}
+              >
+                {l.distance !== null ? formatPct(l.distance) : "None"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Table>
+        <TableHeader className="bg-muted/30">
+          <TableRow className="hover:bg-transparent border-border">
+            <TableHead className={HEAD_CLASS}>Scenario</TableHead>
+            <TableHead className={cn(HEAD_CLASS, "text-right")}>Collateral</TableHead>
+            <TableHead className={cn(HEAD_CLASS, "text-right")}>Maint. Requirement</TableHead>
+            <TableHead className={cn(HEAD_CLASS, "text-right")}>Health After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {scenarios.map((s) => (
+            <TableRow key={s.id} className="border-border/50">
+              <TableCell>
+                <div className="flex flex-col">
+                  <span className="font-medium">{s.label}</span>
+                  <span className="text-[10px] text-muted-foreground">{s.description}</span>
+                </div>
+              </TableCell>
+              <TableCell className="text-right font-mono text-muted-foreground">{formatUsd(s.result.collateral)}</TableCell>
+              <TableCell className="text-right font-mono text-muted-foreground">{formatUsd(s.result.requirement)}</TableCell>
+              <TableCell className="text-right">
+                <HealthCell result={s.result} />
+              </TableCell>
+            </TableRow>
+          ))}
+          <TableRow className="border-border/50">
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <select
+                  value={asset}
+                  onChange={(e) => setCustomAsset(e.target.value)}
+                  className="h-7 rounded-md bg-muted/50 border border-border px-2 text-xs"
+                  aria-label="Asset"
+                >
+                  {assets.map((a) => (
+                    <option key={a} value={a}>
+                      {a}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="5"
+                  min="-99"
+                  value={customChange}
+                  onChange={(e) => setCustomChange(e.target.value)}
+                  className="h-7 w-20 rounded-md bg-muted/50 border border-border px-2 text-xs font-mono"
+                  aria-label="Price change (%)"
+                />
+                <span className="text-xs text-muted-foreground">%</span>
+              </div>
+            </TableCell>
+            <TableCell className="text-right font-mono text-muted-foreground">
+              {customResult ? formatUsd(customResult.collateral) : "—"}
+            </TableCell>
+            <TableCell className="text-right font-mono text-muted-foreground">
+              {customResult ? formatUsd(customResult.requirement) : "—"}
+            </TableCell>
+            <TableCell className="text-right">
+              {customResult ? <HealthCell result={customResult} /> : "—"}
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getDriftIconUrl } from "@/lib/drift-icons";
+import type { MarketComparison } from "@/types/schema";
+
+interface PeriodComparisonTableProps {
+  markets: MarketComparison[];
+}
+
+const formatUsd = (val: number, signed = false) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    signDisplay: signed ? "exceptZero" : "auto",
+  }).format(val);
+
+const formatApy = (val: string) => (val ? `${parseFloat(val).toFixed(2)}%` : "—");
+
+/**
+ * Percentage change of the previous value, or null when it was zero
+ */
+function getPercentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+const changeClass = (val: number) =>
+  val > 0 ? "text-emerald-400" : val < 0 ? "text-red-400" : "text-muted-foreground";
+
+/**
+ * Per-market funding, APY and notional this period vs the previous one,
+ * largest funding drop first
+ */
+export function PeriodComparisonTable({ markets }: PeriodComparisonTableProps) {
+  const totalChange = markets.reduce(
+    (sum, m) => sum + parseFloat(m.fundingEarned) - parseFloat(m.previousFundingEarned),
+    0
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card shadow-lg shadow-black/20 overflow-hidden">
+      <div className="p-6 border-b border-border flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-medium">Period Comparison</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            This period vs the equal-length period before it · largest funding drop first
+          </p>
+        </div>
+        <Badge variant="outline" className={cn("font-mono text-xs", changeClass(totalChange))}>
+          Δ {formatUsd(totalChange, true)}
+        </Badge>
+      </div>
+
+      <Table>
+        <TableHeader className="bg-muted/30">
+          <TableRow className="hover:bg-transparent border-border">
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider">Market</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Funding</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Previous</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Δ Funding</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">APY</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Prev. APY</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Avg Notional</TableHead>
+            <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Δ Notional</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {markets.map((m) => {
+            const funding = parseFloat(m.fundingEarned);
+            const previousFunding = parseFloat(m.previousFundingEarned);
+            const fundingChange = funding - previousFunding;
+            const fundingChangePct = getPercentChange(funding, previousFunding);
+            const notional = parseFloat(m.avgNotional);
+            const notionalChangePct = getPercentChange(notional, parseFloat(m.previousAvgNotional));
+            return (
+              <TableRow key={m.pairName} className="border-border/50">
+                <TableCell className="font-mono font-medium">
+                  <div className="flex items-center gap-2">
+                    <img
+                      src={getDriftIconUrl(m.pairName)}
+                      alt=""
+                      className="w-6 h-6 rounded-full object-contain bg-muted/50"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).style.visibility = "hidden";
+                      }}
+                    />
+                    <span>{m.pairName}</span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatUsd(funding)}</TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatUsd(previousFunding)}
+                </TableCell>
+                <TableCell className={cn("text-right font-mono font-medium", changeClass(fundingChange))}>
+                  <div className="flex flex-col items-end">
+                    <span>{formatUsd(fundingChange, true)}</span>
+                    {fundingChangePct !== null && (
+                      <span className="text-[10px] opacity-70">
+                        {fundingChangePct > 0 ? "+" : ""}
+                        {fundingChangePct.toFixed(1)}%
+                      </span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatApy(m.apy)}</TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatApy(m.previousApy)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {notional > 0 ? formatUsd(notional) : "—"}
+                </TableCell>
+                <TableCell
+                  className={cn(
+                    "text-right font-mono",
+                    notionalChangePct !== null ? changeClass(notionalChangePct) : "text-muted-foreground"
+                  )}
+                >
+                  {notionalChangePct !== null
+                    ? `${notionalChangePct > 0 ? "+" : ""}${notionalChangePct.toFixed(1)}%`
+                    : "—"}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
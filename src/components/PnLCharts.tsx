@@ -11,9 +11,10 @@ import {
   Bar,
   Cell,
   ReferenceLine,
+  ReferenceDot,
 } from "recharts";
 import { motion, AnimatePresence } from "framer-motion";
-import { type DailyMetric } from "@/types/schema";
+import { type DailyMetric, type AccountStrategy, type PreviousPeriod } from "@/types/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -23,34 +24,61 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import type { Timeframe } from "@/hooks/use-strategies";
+import type { ChartTab } from "@/hooks/use-dashboard-url";
+import type { CapitalFlow } from "../../shared/capital-flows";
+import { getZonedParts, keyToUnix, zonedTimeToUnix } from "../../shared/timezone";
+import { useTimeZone } from "@/hooks/use-timezone";
+import {
+  BENCHMARK_IDS,
+  DEFAULT_HURDLE_RATE_PCT,
+  getBenchmarkSeries,
+  getExcessReturn,
+  type BenchmarkId,
+  type BenchmarkInputs,
+} from "../../shared/benchmarks";
 
 interface PnLChartsProps {
   data: DailyMetric[];
   timeframe?: Timeframe;
+  /** Per-account metrics when several accounts are aggregated; enables the account filter */
+  accounts?: AccountStrategy[];
+  /** Deposits/withdrawals (oldest first); enables the equity curve */
+  capitalFlows?: CapitalFlow[];
+  /** End of a custom range (unix seconds, exclusive); defaults to now */
+  periodEndTs?: number;
+  /** Previous period's funding; enables compare mode */
+  previousPeriod?: PreviousPeriod;
+  /** Notional and market data for the cumulative chart's benchmarks */
+  benchmarks?: Omit<BenchmarkInputs, "hurdleRatePct">;
+  /** Selected chart (kept in the dashboard URL) */
+  activeTab: ChartTab;
+  onTabChange: (tab: ChartTab) => void;
 }
 
+const ALL_ACCOUNTS = "all";
+
 /**
- * Parse date string (YYYY-MM-DD or ISO with time) as local date
+ * Parse a metric date: Date/ISO instants as-is, bare YYYY-MM-DD or
+ * YYYY-MM-DDTHH:00:00 keys as wall-clock time in the display timezone
  */
-function parseLocalDate(dateStr: string | Date): Date {
+function parseMetricDate(dateStr: string | Date, timeZone?: string): Date {
   if (dateStr instanceof Date) {
     return dateStr;
   }
-  // ISO with time (e.g. hourly "YYYY-MM-DDTHH:00:00")
-  if (dateStr.includes("T")) {
+  // Full ISO instant (e.g. serialized from the API)
+  if (dateStr.endsWith("Z") || /[+-]\d{2}:\d{2}$/.test(dateStr)) {
     return new Date(dateStr);
   }
-  // Parse YYYY-MM-DD as local time by using date parts
-  const [year, month, day] = dateStr.split("-").map(Number);
-  return new Date(year, month - 1, day);
+  return new Date(keyToUnix(dateStr.slice(0, 13), timeZone) * 1000);
 }
 
 /**
- * Format date to "MMM dd" in local timezone, or "HH:00" when hourly
+ * Format date to "MMM dd" in the display timezone, or "HH:00" when hourly
  */
-function formatDateLabel(date: Date, isHourly: boolean): string {
+function formatDateLabel(date: Date, isHourly: boolean, timeZone?: string): string {
+  const parts = getZonedParts(date.getTime() / 1000, timeZone);
   if (isHourly) {
-    return `${date.getHours().toString().padStart(2, "0")}:00`;
+    return `${parts.hour.toString().padStart(2, "0")}:00`;
   }
   const months = [
     "Jan",
@@ -66,7 +94,7 @@ function formatDateLabel(date: Date, isHourly: boolean): string {
     "Nov",
     "Dec",
   ];
-  return `${months[date.getMonth()]} ${date.getDate().toString().padStart(2, "0")}`;
+  return `${months[parts.month - 1]} ${parts.day.toString().padStart(2, "0")}`;
 }
 
 const ApyTooltip = ({ active, payload, label }: any) => {
@@ -123,25 +151,216 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
+const FUNDING_COLOR = "#27d388";
+const INTEREST_COLOR = "#818cf8";
+const BORROW_COLOR = "#f59e0b";
+
+/**
+ * Funding, lending interest, borrow cost and total carry for one point (daily or cumulative values)
+ */
+const CarryTooltip = ({ active, payload, label, cumulative }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    const funding = cumulative ? point.cumulativeFundingNum : point.dailyFundingNum;
+    const interest = cumulative ? point.cumulativeInterestNum : point.dailyInterestNum;
+    const borrow = cumulative ? point.cumulativeBorrowNum : point.dailyBorrowNum;
+    const rows = [
+      { name: "Funding", value: funding, color: FUNDING_COLOR },
+      { name: "Lending Interest", value: interest, color: INTEREST_COLOR },
+      ...(borrow !== 0 ? [{ name: "Borrow Cost", value: borrow, color: BORROW_COLOR }] : []),
+    ];
+    const total = funding + interest + borrow;
+    return (
+      <div className="bg-card/95 backdrop-blur-md border border-border/50 p-4 rounded-xl shadow-xl">
+        <p className="text-muted-foreground text-sm mb-2">{label}</p>
+        {rows.map((row) => (
+          <div key={row.name} className="flex items-center gap-2 text-sm font-mono">
+            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: row.color }} />
+            <span className="text-foreground font-semibold">${row.value.toFixed(2)}</span>
+            <span className="text-muted-foreground">{row.name}</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 text-sm font-mono border-t border-border/50 mt-2 pt-2">
+          <span className={`font-semibold ${total >= 0 ? "text-primary" : "text-destructive"}`}>
+            ${total.toFixed(2)}
+          </span>
+          <span className="text-muted-foreground">Total Carry</span>
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+const PREVIOUS_COLOR = "#a1a1aa";
+
+/**
+ * This period's funding vs the previous period's at the same offset (daily or cumulative values)
+ */
+const CompareTooltip = ({ active, payload, label, cumulative }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    const current = cumulative ? point.cumulativeFundingNum : point.dailyFundingNum;
+    const previous = cumulative ? point.previousCumulativeNum : point.previousDailyNum;
+    const change = (current ?? 0) - previous;
+    return (
+      <div className="bg-card/95 backdrop-blur-md border border-border/50 p-4 rounded-xl shadow-xl space-y-1">
+        <p className="text-muted-foreground text-sm mb-2">
+          {label} <span className="text-muted-foreground/60">vs {point.previousLabel}</span>
+        </p>
+        <div className="flex items-center gap-2 text-sm font-mono">
+          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: FUNDING_COLOR }} />
+          <span className="text-foreground font-semibold">${(current ?? 0).toFixed(2)}</span>
+          <span className="text-muted-foreground">This period</span>
+        </div>
+        <div className="flex items-center gap-2 text-sm font-mono">
+          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: PREVIOUS_COLOR }} />
+          <span className="text-foreground font-semibold">${previous.toFixed(2)}</span>
+          <span className="text-muted-foreground">Previous period</span>
+        </div>
+        <div className={`text-xs font-mono pt-1 ${change >= 0 ? "text-primary" : "text-destructive"}`}>
+          {change >= 0 ? "+" : "-"}${Math.abs(change).toFixed(2)} change
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+const BENCHMARK_CONFIG: Record<BenchmarkId, { label: string; color: string; dataKey: string }> = {
+  "usdc-lending": { label: "USDC lending", color: "#2775ca", dataKey: "usdcLendingNum" },
+  "hold-sol": { label: "Hold SOL", color: "#9945ff", dataKey: "holdSolNum" },
+  hurdle: { label: "Hurdle", color: "#f472b6", dataKey: "hurdleNum" },
+};
+
+/**
+ * Strategy vs each shown benchmark at one point, with the excess return
+ */
+const BenchmarkTooltip = ({ active, payload, label, benchmarks }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    const strategy = point.cumulativePnlNum;
+    return (
+      <div className="bg-card/95 backdrop-blur-md border border-border/50 p-4 rounded-xl shadow-xl">
+        <p className="text-muted-foreground text-sm mb-2">{label}</p>
+        <div className="flex items-center gap-2 text-sm font-mono">
+          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: FUNDING_COLOR }} />
+          <span className="text-foreground font-semibold">${strategy.toFixed(2)}</span>
+          <span className="text-muted-foreground">Strategy</span>
+        </div>
+        {(benchmarks as BenchmarkId[]).map((id) => {
+          const config = BENCHMARK_CONFIG[id];
+          const value = point[config.dataKey];
+          if (value === null || value === undefined) return null;
+          const excess = strategy - value;
+          return (
+            <div key={id} className="flex items-center gap-2 text-sm font-mono">
+              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: config.color }} />
+              <span className="text-foreground font-semibold">${value.toFixed(2)}</span>
+              <span className="text-muted-foreground">{config.label}</span>
+              <span className={excess >= 0 ? "text-primary" : "text-destructive"}>
+                {excess >= 0 ? "+" : "-"}${Math.abs(excess).toFixed(2)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+  return null;
+};
+
+const EQUITY_COLOR = "#38bdf8";
+
+/**
+ * Equity with the carry PnL and deposits/withdrawals in the bucket
+ */
+const EquityTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="bg-card/95 backdrop-blur-md border border-border/50 p-4 rounded-xl shadow-xl space-y-1">
+        <p className="text-muted-foreground text-sm mb-2">{label}</p>
+        <div className="flex items-center gap-2 text-sm font-mono">
+          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: EQUITY_COLOR }} />
+          <span className="text-foreground font-semibold">${point.equityNum.toFixed(2)}</span>
+          <span className="text-muted-foreground">Equity</span>
+        </div>
+        <div className="text-xs font-mono text-muted-foreground">
+          Cumulative PnL ${point.cumulativePnlNum.toFixed(2)}
+        </div>
+        {point.depositsNum > 0 && (
+          <div className="text-xs font-mono text-primary">Deposits +${point.depositsNum.toFixed(2)}</div>
+        )}
+        {point.withdrawalsNum > 0 && (
+          <div className="text-xs font-mono text-destructive">Withdrawals -${point.withdrawalsNum.toFixed(2)}</div>
+        )}
+      </div>
+    );
+  }
+  return null;
+};
+
 type DailyChartMode = "pnl" | "apy";
 
-export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
-  const [activeTab, setActiveTab] = useState("cumulative");
+export function PnLCharts({
+  data,
+  timeframe = "7D",
+  accounts,
+  capitalFlows,
+  periodEndTs,
+  previousPeriod,
+  benchmarks,
+  activeTab: selectedTab,
+  onTabChange,
+}: PnLChartsProps) {
+  const [isComparing, setIsComparing] = useState(false);
+  const [activeBenchmarks, setActiveBenchmarks] = useState<BenchmarkId[]>([]);
+  const [hurdleRatePct, setHurdleRatePct] = useState(DEFAULT_HURDLE_RATE_PCT);
   const [dailyChartMode, setDailyChartMode] = useState<DailyChartMode>("pnl");
+  const [selectedAccount, setSelectedAccount] = useState(ALL_ACCOUNTS);
   const isHourly = timeframe === "24H";
+  const timeZone = useTimeZone();
+  const hasAccountFilter = accounts !== undefined && accounts.length > 1;
+
+  // Metrics for the selected account (falls back to all if it's no longer present)
+  const metrics = useMemo(() => {
+    if (selectedAccount === ALL_ACCOUNTS || !accounts) return data;
+    return accounts.find((a) => a.account === selectedAccount)?.dailyMetrics ?? data;
+  }, [data, accounts, selectedAccount]);
+
+  // Spot interest present: funding, interest and borrow cost are shown as stacked series
+  const hasInterest = useMemo(
+    () =>
+      metrics.some(
+        (d) => Number(d.dailyInterest ?? 0) !== 0 || Number(d.dailyBorrowCost ?? 0) !== 0
+      ),
+    [metrics]
+  );
+  const hasBorrowCost = useMemo(
+    () => metrics.some((d) => Number(d.dailyBorrowCost ?? 0) !== 0),
+    [metrics]
+  );
 
-  // Transform dates for charts (using local timezone) - base data without initial zero point
+  // Transform dates for charts (in the display timezone) - base data without initial zero point
   const baseChartData = useMemo(() => {
-    return data
+    let cumulativeFundingNum = 0;
+    let cumulativeInterestNum = 0;
+    let cumulativeBorrowNum = 0;
+    return metrics
       .map((d) => {
-        const localDate = parseLocalDate(d.date);
+        const localDate = parseMetricDate(d.date, timeZone);
         const cumulativePnlNum = Number(d.cumulativePnl);
         const apyNum = d.portfolioApy ? parseFloat(d.portfolioApy) : null;
         return {
           ...d,
-          formattedDate: formatDateLabel(localDate, isHourly),
+          formattedDate: formatDateLabel(localDate, isHourly, timeZone),
           localDate,
           dailyPnlNum: Number(d.dailyPnl),
+          dailyFundingNum: Number(d.dailyFunding),
+          dailyInterestNum: Number(d.dailyInterest ?? 0),
+          // Negative so it stacks below zero
+          dailyBorrowNum: -Number(d.dailyBorrowCost ?? 0),
           cumulativePnlNum,
           apyNum,
           notionalValue: d.notionalValue,
@@ -149,45 +368,195 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
           perMarketBreakdown: d.perMarketBreakdown,
         };
       })
-      .sort((a, b) => a.localDate.getTime() - b.localDate.getTime());
-  }, [data, isHourly]);
+      .sort((a, b) => a.localDate.getTime() - b.localDate.getTime())
+      .map((d) => {
+        cumulativeFundingNum += d.dailyFundingNum;
+        cumulativeInterestNum += d.dailyInterestNum;
+        cumulativeBorrowNum += d.dailyBorrowNum;
+        return { ...d, cumulativeFundingNum, cumulativeInterestNum, cumulativeBorrowNum };
+      });
+  }, [metrics, isHourly, timeZone]);
 
   // Chart data with initial 0 point (for cumulative chart only)
   const cumulativeChartData = useMemo(() => {
     if (baseChartData.length === 0) return [];
 
-    const firstDate = baseChartData[0].localDate;
-    const startDate = new Date(firstDate);
-    startDate.setDate(startDate.getDate() - 1);
+    // One bucket before the first, in the display timezone
+    const first = getZonedParts(baseChartData[0].localDate.getTime() / 1000, timeZone);
+    const startDate = new Date(
+      (isHourly
+        ? zonedTimeToUnix(first.year, first.month, first.day, first.hour - 1, timeZone)
+        : zonedTimeToUnix(first.year, first.month, first.day - 1, 0, timeZone)) * 1000
+    );
 
     return [
       {
-        formattedDate: formatDateLabel(startDate, isHourly),
+        formattedDate: formatDateLabel(startDate, isHourly, timeZone),
         localDate: startDate,
         dailyPnlNum: 0,
         cumulativePnlNum: 0,
+        cumulativeFundingNum: 0,
+        cumulativeInterestNum: 0,
+        cumulativeBorrowNum: 0,
         date: startDate,
         dailyPnl: "0",
         cumulativePnl: "0",
       } as any,
       ...baseChartData,
     ];
-  }, [baseChartData, isHourly]);
+  }, [baseChartData, isHourly, timeZone]);
 
   // Use baseChartData for daily/heatmap, cumulativeChartData for cumulative
   const chartData = baseChartData;
 
+  // Flows of the selected account(s)
+  const flows = useMemo(() => {
+    if (!capitalFlows) return [];
+    if (selectedAccount === ALL_ACCOUNTS || !accounts) return capitalFlows;
+    return capitalFlows.filter((f) => f.user === selectedAccount);
+  }, [capitalFlows, accounts, selectedAccount]);
+  const hasEquity = flows.length > 0 && baseChartData.length > 0;
+
+  // A linked equity tab shows the cumulative chart until (or unless) flows are there
+  const activeTab: ChartTab = selectedTab === "equity" && !hasEquity ? "cumulative" : selectedTab;
+
+  // Equity = net contributions up to the end of each bucket + cumulative PnL in the period
+  const equityChartData = useMemo(() => {
+    if (!hasEquity) return [];
+    const lastEndTs = periodEndTs ?? Math.floor(Date.now() / 1000) + 1;
+    let flowIdx = 0;
+    let contributions = 0;
+    return baseChartData.map((d, i) => {
+      const startTs = Math.floor(d.localDate.getTime() / 1000);
+      const next = baseChartData[i + 1];
+      const endTs = next ? Math.floor(next.localDate.getTime() / 1000) : lastEndTs;
+      let depositsNum = 0;
+      let withdrawalsNum = 0;
+      while (flowIdx < flows.length && flows[flowIdx].ts < endTs) {
+        const flow = flows[flowIdx++];
+        contributions += flow.valueUsd;
+        // Flows before the period only set the starting equity; mark the ones inside it
+        if (i > 0 || flow.ts >= startTs) {
+          if (flow.valueUsd > 0) depositsNum += flow.valueUsd;
+          else withdrawalsNum -= flow.valueUsd;
+        }
+      }
+      return {
+        ...d,
+        equityNum: contributions + d.cumulativePnlNum,
+        depositsNum,
+        withdrawalsNum,
+      };
+    });
+  }, [hasEquity, baseChartData, flows, periodEndTs]);
+
+  // The previous period covers every account, so compare mode needs the combined view
+  const canCompare =
+    previousPeriod !== undefined &&
+    previousPeriod.dailyMetrics.length > 0 &&
+    selectedAccount === ALL_ACCOUNTS;
+  const showCompare = canCompare && isComparing && (activeTab === "cumulative" || activeTab === "daily");
+
+  // Previous period's funding shifted onto this period's buckets (same offset from the start)
+  const compareChartData = useMemo(() => {
+    if (!canCompare) return [];
+    const halfBucket = (isHourly ? 60 * 60 : 24 * 60 * 60) / 2;
+    const shifted = previousPeriod!.dailyMetrics.map((m) => ({
+      ts: parseMetricDate(m.date, timeZone).getTime() / 1000 + previousPeriod!.shiftSeconds,
+      funding: Number(m.dailyFunding),
+    }));
+    return cumulativeChartData.map((d) => {
+      const ts = d.localDate.getTime() / 1000;
+      let previousDailyNum = 0;
+      let previousCumulativeNum = 0;
+      for (const p of shifted) {
+        if (p.ts >= ts + halfBucket) continue;
+        previousCumulativeNum += p.funding;
+        if (p.ts >= ts - halfBucket) previousDailyNum += p.funding;
+      }
+      const previousLabel = formatDateLabel(
+        new Date((ts - previousPeriod!.shiftSeconds) * 1000),
+        isHourly,
+        timeZone
+      );
+      return { ...d, previousDailyNum, previousCumulativeNum, previousLabel };
+    });
+  }, [canCompare, previousPeriod, cumulativeChartData, isHourly, timeZone]);
+
+  // Benchmarks run on the combined notional, so they need the combined view
+  const canBenchmark =
+    benchmarks !== undefined &&
+    benchmarks.notional > 0 &&
+    selectedAccount === ALL_ACCOUNTS &&
+    cumulativeChartData.length > 1;
+  const showBenchmarks =
+    canBenchmark && activeTab === "cumulative" && !showCompare && activeBenchmarks.length > 0;
+
+  // Cumulative PnL of every benchmark at each point of the cumulative chart
+  const benchmarkSeries = useMemo(() => {
+    if (!canBenchmark) return null;
+    const inputs: BenchmarkInputs = { ...benchmarks!, hurdleRatePct };
+    const timestamps = cumulativeChartData.map((d) => d.localDate.getTime() / 1000);
+    return Object.fromEntries(
+      BENCHMARK_IDS.map((id) => [id, getBenchmarkSeries(id, inputs, timestamps)])
+    ) as Record<BenchmarkId, (number | null)[]>;
+  }, [canBenchmark, benchmarks, hurdleRatePct, cumulativeChartData]);
+
+  const benchmarkChartData = useMemo(() => {
+    if (!benchmarkSeries) return cumulativeChartData;
+    return cumulativeChartData.map((d, i) => ({
+      ...d,
+      ...Object.fromEntries(
+        BENCHMARK_IDS.map((id) => [BENCHMARK_CONFIG[id].dataKey, benchmarkSeries[id][i]])
+      ),
+    }));
+  }, [benchmarkSeries, cumulativeChartData]);
+
+  // Excess return over each benchmark at the end of the period
+  const benchmarkExcess = useMemo(() => {
+    const excess = new Map<BenchmarkId, ReturnType<typeof getExcessReturn>>();
+    if (!benchmarkSeries) return excess;
+    const last = cumulativeChartData[cumulativeChartData.length - 1];
+    const days =
+      (last.localDate.getTime() - cumulativeChartData[0].localDate.getTime()) / (24 * 60 * 60 * 1000);
+    for (const id of BENCHMARK_IDS) {
+      const benchmarkPnl = benchmarkSeries[id][benchmarkSeries[id].length - 1];
+      if (benchmarkPnl === null) continue;
+      excess.set(id, getExcessReturn(last.cumulativePnlNum, benchmarkPnl, benchmarks!.notional, days));
+    }
+    return excess;
+  }, [benchmarkSeries, cumulativeChartData, benchmarks]);
+
+  const toggleBenchmark = (id: BenchmarkId) =>
+    setActiveBenchmarks((prev) =>
+      prev.includes(id) ? prev.filter((b) => b !== id) : [...prev, id]
+    );
+
   // Dynamic Y domain for daily bar chart so bars fill more space
   const dailyMax = useMemo(() => {
     if (chartData.length === 0) return 30;
-    const max = Math.max(...chartData.map((d) => d.dailyPnlNum), 0);
+    const max = Math.max(
+      ...chartData.map((d) =>
+        Math.max(d.dailyPnlNum, d.dailyFundingNum, Math.max(d.dailyFundingNum, 0) + Math.max(d.dailyInterestNum, 0))
+      ),
+      0
+    );
     // Add 10% padding
     return Math.ceil(max * 1.1) || 30;
   }, [chartData]);
 
   const dailyMin = useMemo(() => {
     if (chartData.length === 0) return 0;
-    const min = Math.min(...chartData.map((d) => d.dailyPnlNum), 0);
+    const min = Math.min(
+      ...chartData.map((d) =>
+        Math.min(
+          d.dailyPnlNum,
+          d.dailyFundingNum,
+          Math.min(d.dailyFundingNum, 0) + Math.min(d.dailyInterestNum, 0) + d.dailyBorrowNum
+        )
+      ),
+      0
+    );
     // Only go negative if there are actual negative values
     if (min >= 0) return 0;
     return Math.floor(min * 1.1);
@@ -239,8 +608,43 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
   return (
     <Card className="bg-card border-border shadow-lg shadow-black/20 col-span-1 lg:col-span-2 overflow-hidden h-full">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-        <CardTitle className="text-lg font-medium">PnL Analysis</CardTitle>
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-auto">
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg font-medium">PnL Analysis</CardTitle>
+          {hasInterest && (activeTab === "cumulative" || activeTab === "daily") && (
+            <div className="hidden sm:flex items-center gap-3 text-[11px] text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: FUNDING_COLOR }} />
+                Funding
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: INTEREST_COLOR }} />
+                Interest
+              </span>
+              {hasBorrowCost && (
+                <span className="flex items-center gap-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: BORROW_COLOR }} />
+                  Borrow
+                </span>
+              )}
+            </div>
+          )}
+          {hasAccountFilter && (
+            <select
+              value={selectedAccount}
+              onChange={(e) => setSelectedAccount(e.target.value)}
+              className="h-7 rounded-md bg-muted/50 border border-border px-2 text-xs text-foreground focus:outline-none"
+              aria-label="Filter by account"
+            >
+              <option value={ALL_ACCOUNTS}>All accounts</option>
+              {accounts!.map((a) => (
+                <option key={a.account} value={a.account}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <Tabs value={activeTab} onValueChange={(tab) => onTabChange(tab as ChartTab)} className="w-auto">
           <TabsList className="bg-muted/50 p-1">
             <TabsTrigger value="cumulative" className="text-xs px-3 py-1.5">
               Cumulative
@@ -251,20 +655,109 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
             <TabsTrigger value="heatmap" className="text-xs px-3 py-1.5">
               Heatmap
             </TabsTrigger>
+            {hasEquity && (
+              <TabsTrigger value="equity" className="text-xs px-3 py-1.5">
+                Equity
+              </TabsTrigger>
+            )}
           </TabsList>
         </Tabs>
       </CardHeader>
 
       <AnimatePresence>
-        {activeTab === "daily" && (
+        {(activeTab === "daily" || (activeTab === "cumulative" && (canCompare || canBenchmark))) && (
           <motion.div
             key="daily-option"
             initial={{ opacity: 0, y: -6 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -6 }}
             transition={{ duration: 0.2 }}
-            className="flex justify-end px-6 pb-1"
+            className="flex justify-end items-center gap-4 px-6 pb-1"
           >
+            {activeTab === "cumulative" && canBenchmark && !showCompare && (
+              <div className="flex items-center gap-3 text-[11px] font-mono">
+                {BENCHMARK_IDS.map((id) => {
+                  const config = BENCHMARK_CONFIG[id];
+                  const isActive = activeBenchmarks.includes(id);
+                  const excess = benchmarkExcess.get(id);
+                  const rateLabel =
+                    id === "usdc-lending" && benchmarks!.usdcLendingApy !== null
+                      ? ` ${benchmarks!.usdcLendingApy.toFixed(1)}%`
+                      : id === "hurdle" && !isActive
+                        ? ` ${hurdleRatePct}%`
+                        : "";
+                  return (
+                    <button
+                      key={id}
+                      onClick={() => toggleBenchmark(id)}
+                      disabled={!excess}
+                      className={`flex items-center gap-1.5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+                        isActive ? "text-foreground" : "text-muted-foreground/50 hover:text-muted-foreground"
+                      }`}
+                      title={
+                        excess
+                          ? `Excess return: ${excess.excessUsd >= 0 ? "+" : "-"}$${Math.abs(excess.excessUsd).toFixed(2)}` +
+                            (excess.excessApy !== null
+                              ? ` (${excess.excessApy >= 0 ? "+" : ""}${excess.excessApy.toFixed(2)}% APY)`
+                              : "")
+                          : "No data for this benchmark"
+                      }
+                    >
+                      <span
+                        className="w-2 h-2 rounded-full border"
+                        style={{
+                          borderColor: config.color,
+                          backgroundColor: isActive ? config.color : "transparent",
+                        }}
+                      />
+                      {config.label}
+                      {rateLabel}
+                      {isActive && excess && (
+                        <span className={excess.excessUsd >= 0 ? "text-primary" : "text-destructive"}>
+                          {excess.excessUsd >= 0 ? "+" : "-"}${Math.abs(excess.excessUsd).toFixed(2)}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+                {activeBenchmarks.includes("hurdle") && (
+                  <label className="flex items-center gap-1 text-muted-foreground">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={hurdleRatePct}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (Number.isFinite(value) && value >= 0) setHurdleRatePct(value);
+                      }}
+                      className="h-6 w-14 rounded-md bg-muted/50 border border-border px-1.5 text-[11px] text-foreground focus:outline-none"
+                      aria-label="Hurdle rate (% APY)"
+                    />
+                    %
+                  </label>
+                )}
+              </div>
+            )}
+            {canCompare && (
+              <button
+                onClick={() => setIsComparing((prev) => !prev)}
+                className={`flex items-center gap-1.5 text-[11px] font-mono transition-colors ${
+                  isComparing ? "text-foreground" : "text-muted-foreground/50 hover:text-muted-foreground"
+                }`}
+                title="Overlay the previous period's funding"
+              >
+                <span
+                  className="w-2 h-2 rounded-full border"
+                  style={{
+                    borderColor: PREVIOUS_COLOR,
+                    backgroundColor: isComparing ? PREVIOUS_COLOR : "transparent",
+                  }}
+                />
+                vs previous period
+              </button>
+            )}
+            {activeTab === "daily" && !showCompare && (
             <div className="flex items-center gap-1.5 text-[11px] font-mono">
               <button
                 onClick={() => setDailyChartMode("pnl")}
@@ -288,13 +781,102 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
                 APY%
               </button>
             </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
 
       <CardContent className="h-[350px] p-4">
         <AnimatePresence mode="wait">
-          {activeTab === "cumulative" && (
+          {showCompare && (
+            <motion.div
+              key={`compare-${activeTab}`}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="h-full w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                {activeTab === "cumulative" ? (
+                  <AreaChart data={compareChartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#2a2a2d" vertical={false} />
+                    <XAxis
+                      dataKey="formattedDate"
+                      stroke="#52525b"
+                      tick={{ fontSize: 12 }}
+                      tickLine={false}
+                      axisLine={false}
+                      minTickGap={30}
+                    />
+                    <YAxis
+                      stroke="#52525b"
+                      tick={{ fontSize: 12 }}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => `$${value}`}
+                    />
+                    <Tooltip
+                      content={<CompareTooltip cumulative />}
+                      cursor={{ stroke: "#52525b", strokeWidth: 1, strokeDasharray: "4 4" }}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="previousCumulativeNum"
+                      stroke={PREVIOUS_COLOR}
+                      strokeWidth={2}
+                      strokeDasharray="5 4"
+                      fill="none"
+                      name="Previous period"
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="cumulativeFundingNum"
+                      stroke={FUNDING_COLOR}
+                      strokeWidth={2}
+                      fill={FUNDING_COLOR}
+                      fillOpacity={0.2}
+                      name="This period"
+                    />
+                  </AreaChart>
+                ) : (
+                  <BarChart data={compareChartData.slice(1)} barGap={2}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#2a2a2d" vertical={false} />
+                    <XAxis
+                      dataKey="formattedDate"
+                      stroke="#52525b"
+                      tick={{ fontSize: 12 }}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <YAxis
+                      stroke="#52525b"
+                      tick={{ fontSize: 12 }}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => `$${value}`}
+                    />
+                    <ReferenceLine y={0} stroke="#52525b" strokeDasharray="3 3" />
+                    <Tooltip content={<CompareTooltip />} cursor={{ fill: "rgba(255,255,255,0.03)" }} />
+                    <Bar
+                      dataKey="previousDailyNum"
+                      name="Previous period"
+                      fill={PREVIOUS_COLOR}
+                      fillOpacity={0.6}
+                      radius={[4, 4, 0, 0]}
+                    />
+                    <Bar
+                      dataKey="dailyFundingNum"
+                      name="This period"
+                      fill={FUNDING_COLOR}
+                      radius={[4, 4, 0, 0]}
+                    />
+                  </BarChart>
+                )}
+              </ResponsiveContainer>
+            </motion.div>
+          )}
+
+          {activeTab === "cumulative" && !showCompare && (
             <motion.div
               key="cumulative"
               initial={{ opacity: 0 }}
@@ -303,7 +885,7 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
               className="h-full w-full"
             >
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={cumulativeChartData}>
+                <AreaChart data={showBenchmarks ? benchmarkChartData : cumulativeChartData}>
                   <defs>
                     {/* Split gradient: green above 0, red below 0 */}
                     <linearGradient
@@ -378,28 +960,87 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
                     />
                   )}
                   <Tooltip
-                    content={<CustomTooltip />}
+                    content={
+                      showBenchmarks ? (
+                        <BenchmarkTooltip benchmarks={activeBenchmarks} />
+                      ) : hasInterest ? (
+                        <CarryTooltip cumulative />
+                      ) : (
+                        <CustomTooltip />
+                      )
+                    }
                     cursor={{
                       stroke: "#52525b",
                       strokeWidth: 1,
                       strokeDasharray: "4 4",
                     }}
                   />
-                  <Area
-                    type="monotone"
-                    dataKey="cumulativePnlNum"
-                    stroke="url(#splitColorLine)"
-                    strokeWidth={2}
-                    fillOpacity={1}
-                    fill="url(#splitColorFill)"
-                    name="Cumulative PnL"
-                  />
+                  {hasInterest ? (
+                    <>
+                      <Area
+                        type="monotone"
+                        dataKey="cumulativeFundingNum"
+                        stackId="carry"
+                        stroke={FUNDING_COLOR}
+                        strokeWidth={2}
+                        fill={FUNDING_COLOR}
+                        fillOpacity={0.25}
+                        name="Funding"
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="cumulativeInterestNum"
+                        stackId="carry"
+                        stroke={INTEREST_COLOR}
+                        strokeWidth={2}
+                        fill={INTEREST_COLOR}
+                        fillOpacity={0.25}
+                        name="Lending Interest"
+                      />
+                      {hasBorrowCost && (
+                        <Area
+                          type="monotone"
+                          dataKey="cumulativeBorrowNum"
+                          stackId="borrow"
+                          stroke={BORROW_COLOR}
+                          strokeWidth={2}
+                          fill={BORROW_COLOR}
+                          fillOpacity={0.25}
+                          name="Borrow Cost"
+                        />
+                      )}
+                    </>
+                  ) : (
+                    <Area
+                      type="monotone"
+                      dataKey="cumulativePnlNum"
+                      stroke="url(#splitColorLine)"
+                      strokeWidth={2}
+                      fillOpacity={1}
+                      fill="url(#splitColorFill)"
+                      name="Cumulative PnL"
+                    />
+                  )}
+                  {showBenchmarks &&
+                    activeBenchmarks.map((id) => (
+                      <Area
+                        key={id}
+                        type="monotone"
+                        dataKey={BENCHMARK_CONFIG[id].dataKey}
+                        stroke={BENCHMARK_CONFIG[id].color}
+                        strokeWidth={1.5}
+                        strokeDasharray="5 4"
+                        fill="none"
+                        connectNulls
+                        name={BENCHMARK_CONFIG[id].label}
+                      />
+                    ))}
                 </AreaChart>
               </ResponsiveContainer>
             </motion.div>
           )}
 
-          {activeTab === "daily" && (
+          {activeTab === "daily" && !showCompare && (
             <motion.div
               key="daily"
               initial={{ opacity: 0 }}
@@ -408,7 +1049,7 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
               className="h-full w-full"
             >
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={chartData}>
+                <BarChart data={chartData} stackOffset="sign">
                   <CartesianGrid
                     strokeDasharray="3 3"
                     stroke="#2a2a2d"
@@ -447,38 +1088,134 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
                   <Tooltip
                     content={
                       dailyChartMode === "pnl" ? (
-                        <CustomTooltip />
+                        hasInterest ? <CarryTooltip /> : <CustomTooltip />
                       ) : (
                         <ApyTooltip />
                       )
                     }
                     cursor={{ fill: "rgba(255,255,255,0.03)" }}
                   />
-                  <Bar
-                    dataKey={
-                      dailyChartMode === "pnl" ? "dailyPnlNum" : "apyNum"
-                    }
-                    name={dailyChartMode === "pnl" ? "Daily PnL" : "APY"}
-                    radius={[4, 4, 0, 0]}
-                  >
-                    {chartData.map((entry, index) => {
-                      const val =
-                        dailyChartMode === "pnl"
-                          ? entry.dailyPnlNum
-                          : (entry.apyNum ?? 0);
-                      return (
-                        <Cell
-                          key={`cell-${index}`}
-                          fill={val >= 0 ? "#27d388" : "#ff4d4d"}
+                  {dailyChartMode === "pnl" && hasInterest ? (
+                    <>
+                      <Bar dataKey="dailyFundingNum" stackId="carry" name="Funding">
+                        {chartData.map((entry, index) => (
+                          <Cell
+                            key={`funding-${index}`}
+                            fill={entry.dailyFundingNum >= 0 ? FUNDING_COLOR : "#ff4d4d"}
+                          />
+                        ))}
+                      </Bar>
+                      <Bar
+                        dataKey="dailyInterestNum"
+                        stackId="carry"
+                        name="Lending Interest"
+                        fill={INTEREST_COLOR}
+                        radius={[4, 4, 0, 0]}
+                      />
+                      {hasBorrowCost && (
+                        <Bar
+                          dataKey="dailyBorrowNum"
+                          stackId="carry"
+                          name="Borrow Cost"
+                          fill={BORROW_COLOR}
+                          radius={[0, 0, 4, 4]}
                         />
-                      );
-                    })}
-                  </Bar>
+                      )}
+                    </>
+                  ) : (
+                    <Bar
+                      dataKey={
+                        dailyChartMode === "pnl" ? "dailyPnlNum" : "apyNum"
+                      }
+                      name={dailyChartMode === "pnl" ? "Daily PnL" : "APY"}
+                      radius={[4, 4, 0, 0]}
+                    >
+                      {chartData.map((entry, index) => {
+                        const val =
+                          dailyChartMode === "pnl"
+                            ? entry.dailyPnlNum
+                            : (entry.apyNum ?? 0);
+                        return (
+                          <Cell
+                            key={`cell-${index}`}
+                            fill={val >= 0 ? "#27d388" : "#ff4d4d"}
+                          />
+                        );
+                      })}
+                    </Bar>
+                  )}
                 </BarChart>
               </ResponsiveContainer>
             </motion.div>
           )}
 
+          {activeTab === "equity" && hasEquity && (
+            <motion.div
+              key="equity"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="h-full w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={equityChartData}>
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke="#2a2a2d"
+                    vertical={false}
+                  />
+                  <XAxis
+                    dataKey="formattedDate"
+                    stroke="#52525b"
+                    tick={{ fontSize: 12 }}
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={30}
+                  />
+                  <YAxis
+                    stroke="#52525b"
+                    tick={{ fontSize: 12 }}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => `$${value}`}
+                    domain={["auto", "auto"]}
+                  />
+                  <Tooltip
+                    content={<EquityTooltip />}
+                    cursor={{
+                      stroke: "#52525b",
+                      strokeWidth: 1,
+                      strokeDasharray: "4 4",
+                    }}
+                  />
+                  <Area
+                    type="stepAfter"
+                    dataKey="equityNum"
+                    stroke={EQUITY_COLOR}
+                    strokeWidth={2}
+                    fill={EQUITY_COLOR}
+                    fillOpacity={0.1}
+                    name="Equity"
+                  />
+                  {/* Deposit (green) / withdrawal (red) markers */}
+                  {equityChartData
+                    .filter((d) => d.depositsNum > 0 || d.withdrawalsNum > 0)
+                    .map((d) => (
+                      <ReferenceDot
+                        key={`flow-${d.localDate.getTime()}`}
+                        x={d.formattedDate}
+                        y={d.equityNum}
+                        r={5}
+                        fill={d.depositsNum >= d.withdrawalsNum ? "#27d388" : "#ff4d4d"}
+                        stroke="#0a0a0b"
+                        strokeWidth={2}
+                      />
+                    ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </motion.div>
+          )}
+
           {activeTab === "heatmap" && (
             <motion.div
               key="heatmap"
@@ -560,6 +1297,36 @@ export function PnLCharts({ data, timeframe = "7D" }: PnLChartsProps) {
                                   ${pnl.toFixed(2)}
                                 </span>
                               </div>
+                              {hasInterest && (
+                                <>
+                                  <div className="flex justify-between text-xs">
+                                    <span className="text-muted-foreground">
+                                      Funding
+                                    </span>
+                                    <span className="font-mono">
+                                      ${day.dailyFundingNum.toFixed(2)}
+                                    </span>
+                                  </div>
+                                  <div className="flex justify-between text-xs">
+                                    <span className="text-muted-foreground">
+                                      Lending Interest
+                                    </span>
+                                    <span className="font-mono">
+                                      ${day.dailyInterestNum.toFixed(2)}
+                                    </span>
+                                  </div>
+                                  {day.dailyBorrowNum !== 0 && (
+                                    <div className="flex justify-between text-xs">
+                                      <span className="text-muted-foreground">
+                                        Borrow Cost
+                                      </span>
+                                      <span className="font-mono">
+                                        ${day.dailyBorrowNum.toFixed(2)}
+                                      </span>
+                                    </div>
+                                  )}
+                                </>
+                              )}
                               {notional !== null && (
                                 <div className="flex justify-between text-xs">
                                   <span className="text-muted-foreground">
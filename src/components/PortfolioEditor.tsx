@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Portfolio } from "@/hooks/use-portfolios";
+
+interface PortfolioEditorProps {
+  /** Portfolio to edit, or null to create a new one */
+  portfolio: Portfolio | null;
+  onSave: (portfolio: Omit<Portfolio, "id"> & { id?: string }) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+interface WalletDraft {
+  label: string;
+  address: string;
+}
+
+const EMPTY_WALLET: WalletDraft = { label: "", address: "" };
+
+/**
+ * Modal for creating or editing a named portfolio of labelled wallets
+ */
+export function PortfolioEditor({ portfolio, onSave, onDelete, onClose }: PortfolioEditorProps) {
+  const [name, setName] = useState(portfolio?.name ?? "");
+  const [wallets, setWallets] = useState<WalletDraft[]>(
+    portfolio && portfolio.wallets.length > 0 ? portfolio.wallets : [{ ...EMPTY_WALLET }]
+  );
+
+  const updateWallet = (index: number, patch: Partial<WalletDraft>) => {
+    setWallets((prev) => prev.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+  };
+
+  const validWallets = wallets
+    .map((w) => ({ label: w.label.trim(), address: w.address.trim() }))
+    .filter((w) => w.address !== "");
+  const addresses = validWallets.map((w) => w.address);
+  const hasDuplicates = new Set(addresses).size !== addresses.length;
+  const canSave = name.trim() !== "" && validWallets.length > 0 && !hasDuplicates;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      id: portfolio?.id,
+      name: name.trim(),
+      wallets: validWallets.map((w, i) => ({
+        address: w.address,
+        label: w.label || `Wallet ${i + 1}`,
+      })),
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-card border border-border rounded-2xl p-6 max-w-xl w-full shadow-2xl relative"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-xl font-bold mb-4">
+          {portfolio ? "Edit Portfolio" : "New Portfolio"}
+        </h2>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <label className="text-xs font-medium text-muted-foreground">Name</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. SOL basis desk"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-medium text-muted-foreground">Wallets</label>
+            <div className="space-y-2 max-h-[320px] overflow-y-auto">
+              {wallets.map((wallet, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={wallet.label}
+                    onChange={(e) => updateWallet(index, { label: e.target.value })}
+                    placeholder="Label"
+                    className="w-32 shrink-0"
+                  />
+                  <Input
+                    value={wallet.address}
+                    onChange={(e) => updateWallet(index, { address: e.target.value })}
+                    placeholder="Drift PubKey"
+                    className="font-mono text-xs"
+                  />
+                  <button
+                    onClick={() => setWallets((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={wallets.length === 1}
+                    className="p-2 rounded hover:bg-destructive/20 transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+                    title="Remove wallet"
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setWallets((prev) => [...prev, { ...EMPTY_WALLET }])}
+              className="text-muted-foreground"
+            >
+              <Plus className="w-3 h-3 mr-2" />
+              Add wallet
+            </Button>
+            {hasDuplicates && (
+              <p className="text-xs text-destructive">Each wallet can only be added once.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-3 w-full mt-6">
+          {portfolio && onDelete && (
+            <Button
+              variant="outline"
+              onClick={() => onDelete(portfolio.id)}
+              className="text-destructive border-destructive/40 hover:bg-destructive/10"
+            >
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex-1 bg-primary hover:bg-primary/90"
+          >
+            Save Portfolio
+          </Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo, Fragment } from "react";
+import { useMemo, Fragment } from "react";
 import { type Position } from "@/types/schema";
 import {
   Table,
@@ -14,14 +14,25 @@ import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { getDriftIconUrl } from "@/lib/drift-icons";
 import { useTableControls } from "@/hooks/use-table-controls";
+import { useTimeZone } from "@/hooks/use-timezone";
 import { SortableHeader } from "@/components/SortableHeader";
 import { Sparkline } from "@/components/Sparkline";
+import { getZonedParts } from "../../shared/timezone";
+import {
+  Tooltip as RadixTooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
 import {
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
 } from "recharts";
 
 type PositionSortKey = "notional" | "fundingPnl" | "roi";
 
+// Segment colors for per-account contribution bars
+const ACCOUNT_COLORS = ["#27d388", "#818cf8", "#f59e0b", "#38bdf8", "#f472b6", "#a3e635", "#fb923c", "#c084fc"];
+
 const positionExtractors: Record<PositionSortKey, (p: Position) => number> = {
   notional: (p) => Number(p.notionalValue) || 0,
   fundingPnl: (p) => Number(p.fundingEarned) || 0,
@@ -30,6 +41,10 @@ const positionExtractors: Record<PositionSortKey, (p: Position) => number> = {
 
 interface PositionRowProps {
   pos: Position;
+  accountLabel: string;
+  accountColors: Map<string, string> | null;
+  /** Live mark-to-market is available; adds the Price PnL column */
+  showPricePnl: boolean;
   isExpanded: boolean;
   onToggle: () => void;
   formatCurrency: (val: string | number) => string;
@@ -37,9 +52,17 @@ interface PositionRowProps {
   formatTokenAmount: (val: string | number) => string;
 }
 
-function PositionRow({ pos, isExpanded, onToggle, formatCurrency, formatPercent, formatTokenAmount }: PositionRowProps) {
+function PositionRow({ pos, accountLabel, accountColors, showPricePnl, isExpanded, onToggle, formatCurrency, formatPercent, formatTokenAmount }: PositionRowProps) {
   const netPnl = Number(pos.netPnl);
   const isProfit = netPnl >= 0;
+  const fundingEarned = Number(pos.fundingEarned);
+  // Spot interest, borrow cost, fees or realized PnL move net PnL away from funding alone
+  const hasNetAdjustments = Math.abs(netPnl - fundingEarned) >= 0.005;
+  const hasEntryPrices = Number(pos.longEntryPrice) > 0 || Number(pos.shortEntryPrice) > 0;
+  // Perp and spot mark-to-market offset each other; what's left is basis drift
+  const perpMtm = Number(pos.unrealizedPnl ?? 0);
+  const spotMtm = Number(pos.spotLegPnl ?? 0);
+  const basisPnl = perpMtm + spotMtm;
   const hasNotionalValue = Number(pos.notionalValue) > 0;
 
   // Prepare sparkline data from marketDailyMetrics
@@ -59,22 +82,36 @@ function PositionRow({ pos, isExpanded, onToggle, formatCurrency, formatPercent,
   const sparklineColor = lastCumulativePnl >= 0 ? "#27d388" : "#ff4d4d";
 
   // Prepare expanded chart data
+  const timeZone = useTimeZone();
   const chartData = useMemo(() => {
     if (!pos.marketDailyMetrics || pos.marketDailyMetrics.length === 0) {
       return [];
     }
     return pos.marketDailyMetrics.map((m) => {
       const date = m.date instanceof Date ? m.date : new Date(m.date);
+      const parts = getZonedParts(date.getTime() / 1000, timeZone);
       const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
       return {
-        date: `${months[date.getMonth()]} ${date.getDate()}`,
+        date: `${months[parts.month - 1]} ${parts.day}`,
         cumulativePnl: Number(m.cumulativePnl),
       };
     });
-  }, [pos.marketDailyMetrics]);
+  }, [pos.marketDailyMetrics, timeZone]);
 
   const hasNegativeValues = chartData.some((d) => d.cumulativePnl < 0);
 
+  // Per-account rows, largest funding contribution first
+  const accountRows = useMemo(() => {
+    if (!pos.accountBreakdown || pos.accountBreakdown.length === 0) return [];
+    const price = Number(pos.currentPrice);
+    return [...pos.accountBreakdown]
+      .map((b) => ({
+        ...b,
+        notionalValue: price > 0 ? Number(b.notionalSize) * price : null,
+      }))
+      .sort((a, b) => Number(b.fundingEarned) - Number(a.fundingEarned));
+  }, [pos.accountBreakdown, pos.currentPrice]);
+
   // Calculate gradient split point for expanded chart (where 0 line sits)
   const zeroLinePercent = useMemo(() => {
     if (chartData.length === 0) return 100;
@@ -122,7 +159,14 @@ function PositionRow({ pos, isExpanded, onToggle, formatCurrency, formatPercent,
                 {pos.pairName.substring(0, 1)}
               </span>
             </div>
-            {pos.pairName}
+            <div className="flex flex-col">
+              <span>{pos.pairName}</span>
+              {accountRows.length > 1 && (
+                <span className="text-[10px] font-sans font-normal text-muted-foreground">
+                  {accountRows.length} {accountLabel.toLowerCase()}s
+                </span>
+              )}
+            </div>
           </div>
         </TableCell>
         <TableCell>
@@ -141,12 +185,62 @@ function PositionRow({ pos, isExpanded, onToggle, formatCurrency, formatPercent,
         <TableCell className="text-right font-mono text-muted-foreground">
           {hasNotionalValue ? formatCurrency(pos.notionalValue) : `${formatTokenAmount(pos.notionalSize)} ${pos.pairName.split("-")[0]}`}
         </TableCell>
-        <TableCell className={cn("text-right font-mono font-medium", isProfit ? "text-primary" : "text-destructive")}>
-          {isProfit ? '+' : ''}{formatCurrency(pos.fundingEarned)}
+        <TableCell className={cn("text-right font-mono font-medium", fundingEarned >= 0 ? "text-primary" : "text-destructive")}>
+          {fundingEarned >= 0 ? '+' : ''}{formatCurrency(pos.fundingEarned)}
+          {hasNetAdjustments && (
+            <div className={cn("text-[10px] font-normal", isProfit ? "text-primary/70" : "text-destructive/70")}>
+              Net {isProfit ? '+' : ''}{formatCurrency(netPnl)}
+            </div>
+          )}
         </TableCell>
+        {showPricePnl && (
+          <TableCell className="text-right font-mono">
+            {pos.unrealizedPnl !== undefined ? (
+              <RadixTooltip>
+                <TooltipTrigger asChild>
+                  <div className="cursor-help">
+                    <div className={cn("font-medium", basisPnl >= 0 ? "text-primary" : "text-destructive")}>
+                      {basisPnl >= 0 ? '+' : ''}{formatCurrency(basisPnl)}
+                    </div>
+                    <div className="text-[10px] text-muted-foreground">
+                      perp {formatCurrency(perpMtm)} · spot {formatCurrency(spotMtm)}
+                    </div>
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent side="top" className="text-xs space-y-1">
+                  <div className="flex justify-between gap-6">
+                    <span className="text-muted-foreground">Perp unrealized</span>
+                    <span className="font-mono">{formatCurrency(perpMtm)}</span>
+                  </div>
+                  <div className="flex justify-between gap-6">
+                    <span className="text-muted-foreground">Spot leg</span>
+                    <span className="font-mono">{formatCurrency(spotMtm)}</span>
+                  </div>
+                  {Number(pos.unsettledPnl ?? 0) !== 0 && (
+                    <div className="flex justify-between gap-6">
+                      <span className="text-muted-foreground">Unsettled</span>
+                      <span className="font-mono">{formatCurrency(pos.unsettledPnl!)}</span>
+                    </div>
+                  )}
+                </TooltipContent>
+              </RadixTooltip>
+            ) : (
+              <span className="text-muted-foreground">—</span>
+            )}
+          </TableCell>
+        )}
         <TableCell className={cn("text-right font-mono font-medium", Number(pos.roi) >= 0 ? "text-primary" : "text-destructive")}>
           {formatPercent(pos.roi)}
         </TableCell>
+        {accountColors && (
+          <TableCell onClick={(e) => e.stopPropagation()}>
+            <ContributionBar
+              rows={accountRows}
+              accountColors={accountColors}
+              formatCurrency={formatCurrency}
+            />
+          </TableCell>
+        )}
         <TableCell className="text-center" onClick={(e) => e.stopPropagation()}>
           <div className="flex justify-center">
             <Sparkline data={sparklineData} width={80} height={28} color={sparklineColor} />
@@ -157,7 +251,7 @@ function PositionRow({ pos, isExpanded, onToggle, formatCurrency, formatPercent,
       <AnimatePresence>
         {isExpanded && (
           <TableRow key={`${pos.id}-detail`} className="hover:bg-transparent border-border/30 bg-muted/10">
-            <TableCell colSpan={7} className="p-0">
+            <TableCell colSpan={7 + (accountColors ? 1 : 0) + (showPricePnl ? 1 : 0)} className="p-0">
               <motion.div
                 initial={{ height: 0, opacity: 0 }}
                 animate={{ height: "auto", opacity: 1 }}
@@ -184,7 +278,66 @@ function PositionRow({ pos, isExpanded, onToggle, formatCurrency, formatPercent,
                         <p className="text-xs text-muted-foreground mt-1">
                           {formatTokenAmount(pos.notionalSize)} {pos.pairName.split("-")[0]}
                         </p>
+                        {pos.avgNotional !== undefined && (
+                          <p className="text-xs text-muted-foreground">
+                            {formatCurrency(pos.avgNotional)} time-weighted avg (ROI basis)
+                          </p>
+                        )}
                       </div>
+                      {pos.interestEarned !== undefined && (
+                        <div className="border-t border-border/50 pt-3">
+                          <p className="text-xs text-muted-foreground uppercase mb-1">Lending Interest</p>
+                          <p className="font-mono text-xl font-bold text-foreground">
+                            {formatCurrency(pos.interestEarned)}
+                          </p>
+                        </div>
+                      )}
+                      {Number(pos.borrowCost ?? 0) !== 0 && (
+                        <div className="border-t border-border/50 pt-3">
+                          <p className="text-xs text-muted-foreground uppercase mb-1">Borrow Cost</p>
+                          <p className="font-mono text-xl font-bold text-destructive">
+                            -{formatCurrency(pos.borrowCost!)}
+                          </p>
+                        </div>
+                      )}
+                      {hasEntryPrices && (
+                        <div className="border-t border-border/50 pt-3">
+                          <p className="text-xs text-muted-foreground uppercase mb-1">Entry (VWAP)</p>
+                          <div className="flex justify-between text-sm font-mono">
+                            <span className="text-muted-foreground">Long</span>
+                            <span>{Number(pos.longEntryPrice) > 0 ? formatCurrency(pos.longEntryPrice) : "—"}</span>
+                          </div>
+                          <div className="flex justify-between text-sm font-mono">
+                            <span className="text-muted-foreground">Short</span>
+                            <span>{Number(pos.shortEntryPrice) > 0 ? formatCurrency(pos.shortEntryPrice) : "—"}</span>
+                          </div>
+                        </div>
+                      )}
+                      {pos.tradingFees !== undefined && (
+                        <div className="border-t border-border/50 pt-3">
+                          <p className="text-xs text-muted-foreground uppercase mb-1">Trading</p>
+                          <div className="flex justify-between text-sm font-mono">
+                            <span className="text-muted-foreground">Fees</span>
+                            <span className={Number(pos.tradingFees) > 0 ? "text-destructive" : "text-primary"}>
+                              {formatCurrency(-Number(pos.tradingFees))}
+                            </span>
+                          </div>
+                          <div className="flex justify-between text-sm font-mono">
+                            <span className="text-muted-foreground">Realized</span>
+                            <span className={Number(pos.realizedPnl ?? 0) >= 0 ? "text-primary" : "text-destructive"}>
+                              {formatCurrency(pos.realizedPnl ?? 0)}
+                            </span>
+                          </div>
+                        </div>
+                      )}
+                      {hasNetAdjustments && (
+                        <div className="border-t border-border/50 pt-3">
+                          <p className="text-xs text-muted-foreground uppercase mb-1">Net PnL</p>
+                          <p className={cn("font-mono text-xl font-bold", isProfit ? "text-primary" : "text-destructive")}>
+                            {formatCurrency(pos.netPnl)}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -253,6 +406,45 @@ function PositionRow({ pos, isExpanded, onToggle, formatCurrency, formatPercent,
                     </div>
                   </div>
                 </div>
+
+                {/* Per-account breakdown (aggregated accounts only) */}
+                {accountRows.length > 0 && (
+                  <div className="px-6 pb-6 space-y-2">
+                    <h4 className="text-xs uppercase text-muted-foreground font-semibold tracking-wider">
+                      By {accountLabel}
+                    </h4>
+                    <div className="bg-background/50 rounded-lg border border-border/50 overflow-hidden">
+                      <table className="w-full text-sm">
+                        <thead className="text-xs text-muted-foreground">
+                          <tr className="border-b border-border/50">
+                            <th className="text-left font-medium px-4 py-2">{accountLabel}</th>
+                            <th className="text-left font-medium px-4 py-2">Side</th>
+                            <th className="text-right font-medium px-4 py-2">Size</th>
+                            <th className="text-right font-medium px-4 py-2">Notional</th>
+                            <th className="text-right font-medium px-4 py-2">Funding PnL</th>
+                          </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                          {accountRows.map((row) => (
+                            <tr key={row.account} className="border-b border-border/30 last:border-0">
+                              <td className="px-4 py-2 font-sans" title={row.account}>{row.label}</td>
+                              <td className="px-4 py-2 font-sans text-xs text-muted-foreground">{row.strategySide}</td>
+                              <td className="px-4 py-2 text-right text-muted-foreground">
+                                {formatTokenAmount(row.notionalSize)} {pos.pairName.split("-")[0]}
+                              </td>
+                              <td className="px-4 py-2 text-right text-muted-foreground">
+                                {row.notionalValue !== null ? formatCurrency(row.notionalValue) : "—"}
+                              </td>
+                              <td className={cn("px-4 py-2 text-right", Number(row.fundingEarned) >= 0 ? "text-primary" : "text-destructive")}>
+                                {Number(row.fundingEarned) >= 0 ? "+" : ""}{formatCurrency(row.fundingEarned)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
               </motion.div>
             </TableCell>
           </TableRow>
@@ -262,12 +454,84 @@ function PositionRow({ pos, isExpanded, onToggle, formatCurrency, formatPercent,
   );
 }
 
+interface ContributionBarProps {
+  rows: { account: string; label: string; fundingEarned: string }[];
+  accountColors: Map<string, string>;
+  formatCurrency: (val: string | number) => string;
+}
+
+/**
+ * Stacked bar of each account's share of a position's funding PnL
+ * Shares use absolute values so losses still show up as a slice
+ */
+function ContributionBar({ rows, accountColors, formatCurrency }: ContributionBarProps) {
+  const total = rows.reduce((sum, r) => sum + Math.abs(Number(r.fundingEarned)), 0);
+  if (rows.length === 0 || total === 0) {
+    return <span className="text-xs text-muted-foreground">—</span>;
+  }
+
+  return (
+    <RadixTooltip>
+      <TooltipTrigger asChild>
+        <div className="flex h-2 w-full min-w-[80px] rounded-full overflow-hidden bg-muted">
+          {rows.map((r) => (
+            <div
+              key={r.account}
+              style={{
+                width: `${(Math.abs(Number(r.fundingEarned)) / total) * 100}%`,
+                backgroundColor: accountColors.get(r.account),
+              }}
+            />
+          ))}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="p-3">
+        <table className="text-xs">
+          <tbody>
+            {rows.map((r) => {
+              const value = Number(r.fundingEarned);
+              return (
+                <tr key={r.account} className="tabular-nums">
+                  <td className="pr-3">
+                    <span className="inline-flex items-center gap-1.5">
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: accountColors.get(r.account) }}
+                      />
+                      {r.label}
+                    </span>
+                  </td>
+                  <td className={cn("pr-3 text-right font-mono", value >= 0 ? "text-primary" : "text-destructive")}>
+                    {formatCurrency(value)}
+                  </td>
+                  <td className="text-right font-mono text-muted-foreground">
+                    {((Math.abs(value) / total) * 100).toFixed(1)}%
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </TooltipContent>
+    </RadixTooltip>
+  );
+}
+
 interface PositionsTableProps {
   positions: Position[];
+  /** What an aggregated account is called in the breakdown ("Sub-account", "Wallet") */
+  accountLabel?: string;
+  /** Markets whose rows are expanded (kept in the dashboard URL) */
+  expandedMarkets: string[];
+  onExpandedChange: (markets: string[]) => void;
 }
 
-export function PositionsTable({ positions }: PositionsTableProps) {
-  const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
+export function PositionsTable({
+  positions,
+  accountLabel = "Account",
+  expandedMarkets,
+  onExpandedChange,
+}: PositionsTableProps) {
 
   const { sortConfig, toggleSort, processedItems: sortedPositions } = useTableControls<Position, PositionSortKey>({
     items: positions,
@@ -276,14 +540,27 @@ export function PositionsTable({ positions }: PositionsTableProps) {
     valueExtractors: positionExtractors,
   });
 
-  const toggleRow = (id: number) => {
-    const newExpanded = new Set(expandedRows);
-    if (newExpanded.has(id)) {
-      newExpanded.delete(id);
-    } else {
-      newExpanded.add(id);
+  // One color per aggregated account, stable across rows (null when not aggregating)
+  const accountColors = useMemo(() => {
+    const accounts = new Map<string, string>();
+    for (const pos of positions) {
+      for (const b of pos.accountBreakdown ?? []) accounts.set(b.account, b.label);
     }
-    setExpandedRows(newExpanded);
+    if (accounts.size === 0) return null;
+    const sorted = [...accounts.entries()].sort(([, a], [, b]) => a.localeCompare(b));
+    return new Map(
+      sorted.map(([account], i) => [account, ACCOUNT_COLORS[i % ACCOUNT_COLORS.length]])
+    );
+  }, [positions]);
+
+  const showPricePnl = positions.some((p) => p.unrealizedPnl !== undefined);
+
+  const toggleRow = (market: string) => {
+    onExpandedChange(
+      expandedMarkets.includes(market)
+        ? expandedMarkets.filter((m) => m !== market)
+        : [...expandedMarkets, market]
+    );
   };
 
   const formatCurrency = (val: string | number) => {
@@ -317,6 +594,7 @@ export function PositionsTable({ positions }: PositionsTableProps) {
         </Badge>
       </div>
 
+      <TooltipProvider delayDuration={100}>
       <Table>
         <TableHeader className="bg-muted/30">
           <TableRow className="hover:bg-transparent border-border">
@@ -332,13 +610,16 @@ export function PositionsTable({ positions }: PositionsTableProps) {
               align="right"
             />
             <SortableHeader<PositionSortKey>
-              label="Funding PnL"
+              label={showPricePnl ? "Realized Funding" : "Funding PnL"}
               sortKey="fundingPnl"
               activeSortKey={sortConfig.key}
               activeDirection={sortConfig.direction}
               onSort={toggleSort}
               align="right"
             />
+            {showPricePnl && (
+              <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider text-right">Price PnL</TableHead>
+            )}
             <SortableHeader<PositionSortKey>
               label="ROI"
               sortKey="roi"
@@ -347,6 +628,9 @@ export function PositionsTable({ positions }: PositionsTableProps) {
               onSort={toggleSort}
               align="right"
             />
+            {accountColors && (
+              <TableHead className="font-semibold text-muted-foreground text-xs uppercase tracking-wider w-[140px]">{accountLabel} Contribution</TableHead>
+            )}
             <TableHead className="text-center font-semibold text-muted-foreground text-xs uppercase tracking-wider w-[100px]">Trend</TableHead>
           </TableRow>
         </TableHeader>
@@ -355,8 +639,11 @@ export function PositionsTable({ positions }: PositionsTableProps) {
             <PositionRow
               key={pos.id}
               pos={pos}
-              isExpanded={expandedRows.has(pos.id)}
-              onToggle={() => toggleRow(pos.id)}
+              accountLabel={accountLabel}
+              accountColors={accountColors}
+              showPricePnl={showPricePnl}
+              isExpanded={expandedMarkets.includes(pos.pairName)}
+              onToggle={() => toggleRow(pos.pairName)}
               formatCurrency={formatCurrency}
               formatPercent={formatPercent}
               formatTokenAmount={formatTokenAmount}
@@ -364,6 +651,7 @@ export function PositionsTable({ positions }: PositionsTableProps) {
           ))}
         </TableBody>
       </Table>
+      </TooltipProvider>
     </div>
   );
 }
@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { Globe } from "lucide-react";
+import { useTimeZoneSetting } from "@/hooks/use-timezone";
+import {
+  BROWSER_TIMEZONE,
+  COMMON_TIMEZONES,
+  setTimeZoneSetting,
+} from "@/services/display-timezone";
+
+/**
+ * Every IANA zone the runtime knows (Intl.supportedValuesOf is ES2022, absent on older browsers)
+ */
+function getSupportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+  try {
+    return intl.supportedValuesOf?.("timeZone") ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Display timezone picker: browser, UTC, common zones, then every IANA zone
+ */
+export function TimeZoneSelect() {
+  const setting = useTimeZoneSetting();
+  const browserZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+  const otherZones = useMemo(
+    () => getSupportedTimeZones().filter((tz) => tz !== "UTC" && !COMMON_TIMEZONES.includes(tz)),
+    []
+  );
+  // Keep a stored zone selectable even if the runtime doesn't list it
+  const isListed =
+    setting === BROWSER_TIMEZONE ||
+    setting === "UTC" ||
+    COMMON_TIMEZONES.includes(setting) ||
+    otherZones.includes(setting);
+
+  return (
+    <label className="flex items-center gap-1.5 text-muted-foreground">
+      <Globe className="w-3.5 h-3.5" aria-hidden />
+      <select
+        value={setting}
+        onChange={(e) => setTimeZoneSetting(e.target.value)}
+        className="h-7 max-w-[10rem] rounded-md bg-muted/50 border border-border px-2 text-xs text-foreground focus:outline-none"
+        aria-label="Display timezone"
+      >
+        <option value={BROWSER_TIMEZONE}>Browser ({browserZone})</option>
+        <option value="UTC">UTC</option>
+        {!isListed && <option value={setting}>{setting}</option>}
+        <optgroup label="Common">
+          {COMMON_TIMEZONES.map((tz) => (
+            <option key={tz} value={tz}>
+              {tz}
+            </option>
+          ))}
+        </optgroup>
+        {otherZones.length > 0 && (
+          <optgroup label="All timezones">
+            {otherZones.map((tz) => (
+              <option key={tz} value={tz}>
+                {tz}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+    </label>
+  );
+}
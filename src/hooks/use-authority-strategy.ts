@@ -0,0 +1,68 @@
+/**
+ * Consolidated strategy for every Drift sub-account under an authority
+ * Sub-accounts are discovered server-side (/api/accounts/:authority)
+ */
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchSubAccounts, getSubAccountLabel } from "@/services/account-api";
+import type { DateRange, Timeframe } from "@/types/loading-types";
+import {
+  useMultiAccountStrategy,
+  type LabelledAccount,
+  type UseMultiAccountStrategyResult,
+} from "./use-multi-account-strategy";
+
+export interface UseAuthorityStrategyResult extends UseMultiAccountStrategyResult {
+  accounts: LabelledAccount[];
+}
+
+/**
+ * Pass an empty authority to disable (no requests, data is null)
+ */
+export function useAuthorityStrategy(
+  authority: string,
+  timeframe: Timeframe,
+  range?: DateRange
+): UseAuthorityStrategyResult {
+  const subAccountsQuery = useQuery({
+    queryKey: ["accounts", authority],
+    queryFn: () => fetchSubAccounts(authority),
+    enabled: authority !== "",
+    staleTime: 5 * 60_000,
+  });
+
+  const accounts = useMemo<LabelledAccount[]>(
+    () =>
+      (subAccountsQuery.data?.accounts ?? []).map((account) => ({
+        address: account.address,
+        label: getSubAccountLabel(account),
+      })),
+    [subAccountsQuery.data]
+  );
+
+  const strategy = useMultiAccountStrategy(authority, accounts, timeframe, range);
+
+  const error = useMemo(() => {
+    if (subAccountsQuery.error) return subAccountsQuery.error as Error;
+    if (subAccountsQuery.data && accounts.length === 0) {
+      return new Error("No Drift accounts found for this authority.");
+    }
+    return strategy.error;
+  }, [subAccountsQuery.error, subAccountsQuery.data, accounts.length, strategy.error]);
+
+  const { refetch: refetchStrategy } = strategy;
+  const { refetch: refetchAccounts } = subAccountsQuery;
+
+  return {
+    ...strategy,
+    accounts,
+    isLoading: (authority !== "" && subAccountsQuery.isLoading) || strategy.isLoading,
+    isError: error !== null,
+    error,
+    refetch: () => {
+      refetchAccounts();
+      refetchStrategy();
+    },
+  };
+}
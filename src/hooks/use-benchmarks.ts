@@ -0,0 +1,40 @@
+/**
+ * Market data for the cumulative chart's benchmarks: the current USDC lending APY
+ * (from /api/yield when the server is available) and SOL candles
+ */
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchSpotRates } from "@/services/yield-api";
+import type { DailyCandleRecord } from "@/services/drift-types";
+import type { Timeframe } from "@/types/loading-types";
+import { USDC_SPOT_MARKET_INDEX } from "../../shared/benchmarks";
+import { useMarketCandles } from "./use-market-candles";
+
+const BENCHMARK_SYMBOLS = ["SOL"];
+
+export interface BenchmarkData {
+  usdcLendingApy: number | null;
+  solCandles: DailyCandleRecord[];
+}
+
+/**
+ * USDC lending APY (null while loading or without the server) and SOL candles
+ * (hourly for 24H, daily otherwise)
+ */
+export function useBenchmarkData(timeframe: Timeframe, enabled: boolean = true): BenchmarkData {
+  const ratesQuery = useQuery({
+    queryKey: ["benchmark-usdc-rate"],
+    queryFn: () => fetchSpotRates(USDC_SPOT_MARKET_INDEX),
+    enabled,
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+  const { candleData } = useMarketCandles(BENCHMARK_SYMBOLS, timeframe, enabled);
+
+  const usdcLendingApy = ratesQuery.data?.lendingApyPct ?? null;
+  return useMemo(
+    () => ({ usdcLendingApy, solCandles: candleData.get("SOL") ?? [] }),
+    [usdcLendingApy, candleData]
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * Deposits and withdrawals as USD capital flows (equity curve, XIRR)
+ */
+
+import { useMemo } from "react";
+import { toCapitalFlows, type CapitalFlow } from "../../shared/capital-flows";
+import { useDepositRecords } from "./use-deposit-records";
+
+/**
+ * Capital flows of all accounts, oldest first, or undefined while loading/disabled
+ */
+export function useCapitalFlows(
+  accounts: string[],
+  enabled: boolean = true
+): CapitalFlow[] | undefined {
+  const deposits = useDepositRecords(accounts, enabled);
+  return useMemo(() => (deposits ? toCapitalFlows(deposits) : undefined), [deposits]);
+}
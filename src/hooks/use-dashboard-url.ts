@@ -0,0 +1,122 @@
+/**
+ * Dashboard view state kept in the URL so a view can be shared as a link:
+ * /wallet/:address (single account) or /authority/:address (all sub-accounts), with
+ * ?tf=30D or ?from=&to= (unix seconds), ?tab= for the chart and ?open= per expanded market.
+ * Wallet switches push a history entry; view changes replace the current one.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useLocation, useRoute, useSearch } from "wouter";
+import { ALL_TIMEFRAMES, type DateRange } from "@/types/loading-types";
+import type { Timeframe } from "@/hooks/use-strategies";
+
+export type WalletMode = "account" | "authority";
+
+export const CHART_TABS = ["cumulative", "daily", "heatmap", "equity"] as const;
+export type ChartTab = (typeof CHART_TABS)[number];
+
+export interface DashboardView {
+  wallet: string | null;          // null: the demo account
+  mode: WalletMode;
+  timeframe: Timeframe | null;    // null: not in the URL, the dashboard picks a default
+  range: DateRange | null;        // Custom from/to, overrides the timeframe
+  tab: ChartTab;
+  expanded: string[];             // Expanded position rows, by market
+}
+
+const DEFAULT_VIEW: Omit<DashboardView, "wallet" | "mode"> = {
+  timeframe: null,
+  range: null,
+  tab: "cumulative",
+  expanded: [],
+};
+
+function parseRange(params: URLSearchParams): DateRange | null {
+  const fromTs = Number(params.get("from"));
+  const toTs = Number(params.get("to"));
+  if (!params.has("from") || !params.has("to")) return null;
+  if (!Number.isInteger(fromTs) || !Number.isInteger(toTs) || fromTs >= toTs) return null;
+  return { fromTs, toTs };
+}
+
+/**
+ * Parse a dashboard URL; unknown or malformed params fall back to the defaults
+ */
+export function parseDashboardView(
+  wallet: string | null,
+  mode: WalletMode,
+  search: string
+): DashboardView {
+  const params = new URLSearchParams(search);
+  const tf = params.get("tf");
+  const tab = params.get("tab");
+  return {
+    wallet,
+    mode,
+    timeframe: ALL_TIMEFRAMES.find((t) => t === tf) ?? null,
+    range: parseRange(params),
+    tab: CHART_TABS.find((t) => t === tab) ?? DEFAULT_VIEW.tab,
+    expanded: params.getAll("open").filter(Boolean),
+  };
+}
+
+/**
+ * Path and query for a view, leaving defaults out
+ */
+export function getDashboardPath(view: DashboardView): string {
+  const base = view.wallet
+    ? `/${view.mode === "authority" ? "authority" : "wallet"}/${encodeURIComponent(view.wallet)}`
+    : "/";
+  const params = new URLSearchParams();
+  if (view.range) {
+    params.set("from", String(view.range.fromTs));
+    params.set("to", String(view.range.toTs));
+  } else if (view.timeframe) {
+    params.set("tf", view.timeframe);
+  }
+  if (view.tab !== DEFAULT_VIEW.tab) params.set("tab", view.tab);
+  for (const market of view.expanded) params.append("open", market);
+  const query = params.toString();
+  return query ? `${base}?${query}` : base;
+}
+
+export function useDashboardUrl() {
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
+  const [isAccount, accountParams] = useRoute<{ address: string }>("/wallet/:address");
+  const [isAuthority, authorityParams] = useRoute<{ address: string }>("/authority/:address");
+
+  const wallet = isAccount ? accountParams.address : isAuthority ? authorityParams.address : null;
+  const mode: WalletMode = isAuthority ? "authority" : "account";
+  const view = useMemo(() => parseDashboardView(wallet, mode, search), [wallet, mode, search]);
+  const currentPath = search ? `${location}?${search}` : location;
+
+  const navigate = useCallback(
+    (next: DashboardView, push: boolean) => {
+      const path = getDashboardPath(next);
+      if (path !== currentPath) setLocation(path, { replace: !push });
+    },
+    [currentPath, setLocation]
+  );
+
+  /** Change the view of the current wallet (replaces the history entry) */
+  const setView = useCallback(
+    (changes: Partial<Omit<DashboardView, "wallet" | "mode">>) =>
+      navigate({ ...view, ...changes }, false),
+    [view, navigate]
+  );
+
+  /** Open a wallet (null: demo account); a different wallet starts from the default view */
+  const openWallet = useCallback(
+    (nextWallet: string | null, nextMode: WalletMode) =>
+      navigate(
+        nextWallet === view.wallet
+          ? { ...view, mode: nextMode }
+          : { ...DEFAULT_VIEW, wallet: nextWallet, mode: nextMode },
+        true
+      ),
+    [view, navigate]
+  );
+
+  return { view, setView, openWallet };
+}
@@ -0,0 +1,58 @@
+/**
+ * Full deposit/withdrawal history for one or more Drift accounts
+ * Shared by spot interest (balances are rebuilt from it) and capital flows (XIRR, equity curve)
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { fetchDepositRecords } from "@/services/drift-api";
+import type { DriftDepositRecord } from "@/services/drift-types";
+import { MAX_DEPOSIT_PAGES } from "../../shared/spot-interest";
+
+/**
+ * An account's deposit history, or null when it couldn't be read in full within MAX_DEPOSIT_PAGES
+ */
+async function fetchAllDepositRecords(account: string): Promise<DriftDepositRecord[] | null> {
+  const records: DriftDepositRecord[] = [];
+  let nextPage: string | undefined;
+  let pages = 0;
+  do {
+    const response = await fetchDepositRecords(account, nextPage);
+    if (!response.success || !response.records) break;
+    records.push(...response.records);
+    nextPage = response.meta?.nextPage;
+  } while (nextPage && ++pages < MAX_DEPOSIT_PAGES);
+  if (nextPage) {
+    console.warn(`Deposit history for ${account} exceeds ${MAX_DEPOSIT_PAGES} pages; skipping interest and capital flows`);
+    return null;
+  }
+  return records;
+}
+
+/**
+ * Deposit records of all accounts, or undefined while loading/disabled or when an
+ * account's history is incomplete (balances rebuilt from part of it would be wrong)
+ */
+export function useDepositRecords(
+  accounts: string[],
+  enabled: boolean = true
+): DriftDepositRecord[] | undefined {
+  // Stable key so a new array with the same accounts doesn't refetch
+  const accountsKey = [...accounts].sort().join(",");
+
+  const depositsQuery = useQuery({
+    queryKey: ["deposits", accountsKey],
+    queryFn: async () => {
+      const records: DriftDepositRecord[] = [];
+      for (const account of accountsKey.split(",")) {
+        const accountRecords = await fetchAllDepositRecords(account);
+        if (!accountRecords) return null;
+        records.push(...accountRecords);
+      }
+      return records;
+    },
+    enabled: enabled && accountsKey !== "",
+    staleTime: 5 * 60_000,
+  });
+
+  return depositsQuery.data ?? undefined;
+}
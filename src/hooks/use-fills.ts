@@ -0,0 +1,78 @@
+/**
+ * Fills ledger for one or more Drift accounts
+ * Full trade history comes from the Data API (it's needed to rebuild entry prices);
+ * fees and realized PnL only count within the timeframe
+ */
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchTradeRecords } from "@/services/drift-api";
+import type { DriftTradeRecord } from "@/services/drift-types";
+import type { DateRange, Timeframe } from "@/types/loading-types";
+import { getTimeframeDays } from "@/types/loading-types";
+import { buildFillsLedger, MAX_TRADE_PAGES, type FillsLedger } from "../../shared/fills";
+
+/**
+ * An account's trade history, or null when it couldn't be read in full within MAX_TRADE_PAGES
+ */
+async function fetchAllTradeRecords(account: string): Promise<DriftTradeRecord[] | null> {
+  const records: DriftTradeRecord[] = [];
+  let nextPage: string | undefined;
+  let pages = 0;
+  do {
+    const response = await fetchTradeRecords(account, nextPage);
+    if (!response.success || !response.records) break;
+    records.push(...response.records);
+    nextPage = response.meta?.nextPage;
+  } while (nextPage && ++pages < MAX_TRADE_PAGES);
+  if (nextPage) {
+    console.warn(`Trade history for ${account} exceeds ${MAX_TRADE_PAGES} pages; skipping fills ledger`);
+    return null;
+  }
+  return records;
+}
+
+/**
+ * Fills ledger within the timeframe (or the custom range, which overrides it),
+ * or undefined while loading/disabled or when an account's history is incomplete
+ */
+export function useFills(
+  accounts: string[],
+  timeframe: Timeframe,
+  enabled: boolean = true,
+  range?: DateRange
+): FillsLedger | undefined {
+  // Stable key so a new array with the same accounts doesn't refetch
+  const accountsKey = [...accounts].sort().join(",");
+
+  const tradesQuery = useQuery({
+    queryKey: ["trades", accountsKey],
+    queryFn: async () => {
+      const records: DriftTradeRecord[] = [];
+      for (const account of accountsKey.split(",")) {
+        const accountRecords = await fetchAllTradeRecords(account);
+        if (!accountRecords) return null;
+        records.push(...accountRecords);
+      }
+      return records;
+    },
+    enabled: enabled && accountsKey !== "",
+    staleTime: 5 * 60_000,
+  });
+
+  return useMemo(() => {
+    if (!tradesQuery.data) return undefined;
+    if (range) {
+      // Legs as of the range end, so entry prices match the positions then
+      return buildFillsLedger(
+        tradesQuery.data.filter((r) => r.ts < range.toTs),
+        accountsKey.split(","),
+        { since: range.fromTs }
+      );
+    }
+    const now = Math.floor(Date.now() / 1000);
+    return buildFillsLedger(tradesQuery.data, accountsKey.split(","), {
+      since: now - getTimeframeDays(timeframe) * 24 * 60 * 60,
+    });
+  }, [tradesQuery.data, accountsKey, timeframe, range]);
+}
@@ -0,0 +1,91 @@
+/**
+ * Hook for candle data and current prices used to enrich daily metrics
+ * Hourly candles for 24H, daily candles otherwise (both cached in localStorage); a custom
+ * range fetches candles back to the start of its previous period
+ */
+
+import { useState, useEffect } from "react";
+import {
+  fetchMultipleCandlesInRange,
+  fetchMultipleDailyCandles,
+  fetchMultipleHourlyCandles,
+  fetchMultipleMarketPrices,
+} from "@/services/drift-api";
+import type { DailyCandleRecord } from "@/services/drift-types";
+import type { DateRange, Timeframe } from "@/types/loading-types";
+import { getDefaultResolution } from "../../shared/timeframe";
+
+export interface MarketCandles {
+  candleData: Map<string, DailyCandleRecord[]>;
+  currentPrices: Map<string, number>;
+}
+
+/**
+ * Fetch candle data for heatmap and current prices for today's fallback
+ * Refetches when the set of market symbols, the timeframe or the range changes
+ */
+export function useMarketCandles(
+  symbols: string[],
+  timeframe: Timeframe,
+  enabled: boolean = true,
+  range?: DateRange
+): MarketCandles {
+  const [candleData, setCandleData] = useState<
+    Map<string, DailyCandleRecord[]>
+  >(new Map());
+  const [currentPrices, setCurrentPrices] = useState<Map<string, number>>(
+    new Map()
+  );
+
+  // Stable key so a new array with the same symbols doesn't refetch
+  const symbolsKey = [...symbols].sort().join(",");
+  const rangeFrom = range?.fromTs;
+  const rangeTo = range?.toTs;
+
+  useEffect(() => {
+    if (!enabled || symbolsKey === "") {
+      setCandleData(new Map());
+      setCurrentPrices(new Map());
+      return;
+    }
+
+    const symbolList = symbolsKey.split(",");
+    let cancelled = false;
+
+    // Fetch current prices for today's notional fallback
+    fetchMultipleMarketPrices(symbolList)
+      .then((prices) => {
+        if (!cancelled) setCurrentPrices(prices);
+      })
+      .catch(console.error);
+
+    if (rangeFrom !== undefined && rangeTo !== undefined) {
+      // Custom range: candles back to the start of the previous period
+      fetchMultipleCandlesInRange(symbolList, getDefaultResolution(timeframe), rangeFrom - (rangeTo - rangeFrom), rangeTo)
+        .then((candles) => {
+          if (!cancelled) setCandleData(candles);
+        })
+        .catch(console.error);
+    } else if (timeframe === "24H") {
+      // Fetch hourly candles for 24H timeframe
+      fetchMultipleHourlyCandles(symbolList)
+        .then((candles) => {
+          if (!cancelled) setCandleData(candles);
+        })
+        .catch(console.error);
+    } else {
+      // Fetch daily candles (366 days cached, only fetches diff on subsequent calls)
+      fetchMultipleDailyCandles(symbolList)
+        .then((candles) => {
+          if (!cancelled) setCandleData(candles);
+        })
+        .catch(console.error);
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbolsKey, timeframe, enabled, rangeFrom, rangeTo]);
+
+  return { candleData, currentPrices };
+}
@@ -0,0 +1,295 @@
+/**
+ * Hook that merges several Drift accounts into one strategy
+ * Used for an authority's sub-accounts; each account's funding history is
+ * fetched through the monthly endpoints (localStorage month cache) and the
+ * merged records go through the same transformer as a single wallet
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { transformDriftDataToStrategy } from "@/services/drift-transformer";
+import { buildPreviousPeriod } from "../../shared/period-comparison";
+import { fetchDateRange, fetchExtendedTimeframe } from "@/services/funding-fetcher";
+import { clearCurrentMonthFundingCache } from "@/services/cache-utils";
+import { getMarketName } from "@/services/drift-types";
+import type { DriftFundingPaymentRecord } from "@/services/drift-types";
+import type { StrategyResponse } from "@/types/schema";
+import type { DateRange, Timeframe, LoadingProgress } from "@/types/loading-types";
+import { getRangeDays, getTimeframeDays } from "@/types/loading-types";
+import { usePriceEnrichment } from "./use-price-enrichment";
+import { useMarketCandles } from "./use-market-candles";
+import { useSpotInterest } from "./use-spot-interest";
+import { useFills } from "./use-fills";
+import { useTimeZone } from "./use-timezone";
+
+export interface LabelledAccount {
+  address: string; // Drift user account pubkey
+  label: string;
+}
+
+export interface UseMultiAccountStrategyResult {
+  data: StrategyResponse | null;
+  records: DriftFundingPaymentRecord[];  // Merged funding payments in the period, newest first
+  isLoading: boolean;
+  loadingProgress: LoadingProgress | null;
+  isError: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Timeframe to fetch so the previous period is available for comparison
+ * (24H and 7D show "vs last period"; longer timeframes don't)
+ */
+function getFetchTimeframe(timeframe: Timeframe): Timeframe {
+  if (timeframe === "24H") return "7D";
+  if (timeframe === "7D") return "30D";
+  return timeframe;
+}
+
+/**
+ * Window shown on screen: the custom range, or the trailing timeframe
+ */
+function getPeriod(timeframe: Timeframe, range?: DateRange): DateRange {
+  if (range) return range;
+  const now = Math.floor(Date.now() / 1000);
+  return { fromTs: now - getTimeframeDays(timeframe) * 24 * 60 * 60, toTs: now + 1 };
+}
+
+/**
+ * Records in the previous period (same window length, just before it)
+ */
+function getPreviousPeriodRecords(
+  records: DriftFundingPaymentRecord[],
+  period: DateRange
+): DriftFundingPaymentRecord[] {
+  const span = period.toTs - period.fromTs;
+  return records.filter((r) => r.ts >= period.fromTs - span && r.ts < period.fromTs);
+}
+
+/**
+ * Merged strategy for several accounts
+ * displayName is used as the strategy's walletSubkey (e.g. the authority).
+ * A custom range overrides the timeframe's trailing window; only the months it
+ * (and the equal-length period before it, for comparison) touches are fetched.
+ */
+export function useMultiAccountStrategy(
+  displayName: string,
+  accounts: LabelledAccount[],
+  timeframe: Timeframe,
+  range?: DateRange
+): UseMultiAccountStrategyResult {
+  const [recordsByAccount, setRecordsByAccount] = useState<
+    Map<string, DriftFundingPaymentRecord[]>
+  >(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingProgress, setLoadingProgress] =
+    useState<LoadingProgress | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  // Stable key so a new array with the same accounts doesn't refetch
+  const accountsKey = accounts.map((a) => a.address).join(",");
+  const fetchTimeframe = getFetchTimeframe(timeframe);
+  const rangeFrom = range?.fromTs;
+  const rangeTo = range?.toTs;
+
+  // Fetch each account sequentially (keeps Drift API request rate down)
+  useEffect(() => {
+    if (accountsKey === "") {
+      setRecordsByAccount(new Map());
+      setIsLoading(false);
+      setLoadingProgress(null);
+      setError(null);
+      return;
+    }
+
+    const addresses = accountsKey.split(",");
+    let cancelled = false;
+
+    const fetchAll = async () => {
+      setIsLoading(true);
+      setError(null);
+      const next = new Map<string, DriftFundingPaymentRecord[]>();
+
+      for (let i = 0; i < addresses.length; i++) {
+        if (cancelled) return;
+        const address = addresses[i];
+        const callbacks: Parameters<typeof fetchDateRange>[2] = {
+          onRecords: () => {},
+          onProgress: (progress) => {
+            if (cancelled) return;
+            setLoadingProgress({
+              loadedMonths: i * progress.totalMonths + progress.loadedMonths,
+              totalMonths: addresses.length * progress.totalMonths,
+              phase: progress.phase === "complete" && i < addresses.length - 1
+                ? "fetch"
+                : progress.phase,
+            });
+          },
+          onComplete: (records) => {
+            next.set(address, records);
+          },
+          onError: (err) => {
+            if (!cancelled) setError(err);
+          },
+        };
+        if (rangeFrom !== undefined && rangeTo !== undefined) {
+          const span = rangeTo - rangeFrom;
+          await fetchDateRange(address, { fromTs: rangeFrom - span, toTs: rangeTo }, callbacks);
+        } else {
+          await fetchExtendedTimeframe(address, fetchTimeframe, callbacks);
+        }
+      }
+
+      if (cancelled) return;
+      setRecordsByAccount(next);
+      setIsLoading(false);
+      setLoadingProgress(null);
+    };
+
+    fetchAll();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountsKey, fetchTimeframe, rangeFrom, rangeTo, reloadToken]);
+
+  // Label lookup keyed by record.user (the account each record belongs to)
+  const accountLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const account of accounts) {
+      labels.set(account.address, account.label);
+      for (const record of recordsByAccount.get(account.address) ?? []) {
+        if (!labels.has(record.user)) labels.set(record.user, account.label);
+      }
+    }
+    return labels;
+  }, [accounts, recordsByAccount]);
+
+  const allRecords = useMemo(() => {
+    const seen = new Set<string>();
+    const merged: DriftFundingPaymentRecord[] = [];
+    for (const records of recordsByAccount.values()) {
+      for (const r of records) {
+        const key = `${r.txSig}-${r.txSigIndex}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        merged.push(r);
+      }
+    }
+    return merged.sort((a, b) => b.ts - a.ts);
+  }, [recordsByAccount]);
+
+  const period = useMemo(() => getPeriod(timeframe, range), [timeframe, range]);
+
+  const filteredRecords = useMemo(
+    () => allRecords.filter((r) => r.ts >= period.fromTs && r.ts < period.toTs),
+    [allRecords, period]
+  );
+
+  const marketSymbols = useMemo(
+    () => [...new Set(filteredRecords.map((r) => getMarketName(r.marketIndex)))],
+    [filteredRecords]
+  );
+  const { candleData, currentPrices } = useMarketCandles(marketSymbols, timeframe, true, range);
+  const interestRecords = useSpotInterest(
+    accounts.map((a) => a.address),
+    timeframe,
+    filteredRecords.length > 0,
+    range
+  );
+  const fills = useFills(
+    accounts.map((a) => a.address),
+    timeframe,
+    filteredRecords.length > 0,
+    range
+  );
+
+  const timeZone = useTimeZone();
+
+  const baseData = useMemo(() => {
+    if (filteredRecords.length === 0) return null;
+    return transformDriftDataToStrategy(
+      displayName,
+      filteredRecords,
+      timeframe,
+      candleData,
+      currentPrices,
+      {
+        // A single account has nothing to break down
+        accountLabels: accounts.length > 1 ? accountLabels : undefined,
+        interestRecords,
+        fills,
+        timeZone,
+        periodDays: range && getRangeDays(range),
+      }
+    );
+  }, [displayName, filteredRecords, timeframe, candleData, currentPrices, accounts.length, accountLabels, interestRecords, fills, timeZone, range]);
+
+  const { enrichedData } = usePriceEnrichment(
+    baseData?.positions || [],
+    timeframe,
+    baseData !== null,
+    range && getRangeDays(range)
+  );
+
+  // Only custom ranges, 24H and 7D fetch the previous period
+  const previousRecords = useMemo(
+    () =>
+      range || timeframe === "24H" || timeframe === "7D"
+        ? getPreviousPeriodRecords(allRecords, period)
+        : null,
+    [range, timeframe, allRecords, period]
+  );
+
+  // Previous period's funding series and per-market changes
+  const previousPeriod = useMemo(() => {
+    if (!baseData || !previousRecords || previousRecords.length === 0) return undefined;
+    const periodDays = getRangeDays(period);
+    const previous = transformDriftDataToStrategy(
+      displayName,
+      previousRecords,
+      timeframe,
+      candleData,
+      currentPrices,
+      { timeZone, periodDays }
+    );
+    return buildPreviousPeriod(baseData, previous, periodDays);
+  }, [baseData, previousRecords, period, displayName, timeframe, candleData, currentPrices, timeZone]);
+
+  const data: StrategyResponse | null = useMemo(() => {
+    if (!baseData) return null;
+
+    const previousPeriodFundingPnl = previousRecords
+      ?.reduce((sum, r) => sum + parseFloat(r.fundingPayment), 0)
+      .toFixed(2);
+
+    return {
+      ...baseData,
+      ...(previousPeriodFundingPnl !== undefined && { previousPeriodFundingPnl }),
+      ...(previousPeriod && { previousPeriod }),
+      ...(enrichedData && {
+        positions: enrichedData.positions,
+        activeNotional: enrichedData.totalNotional.toFixed(2),
+        currentApy: enrichedData.apy.toFixed(2),
+      }),
+    };
+  }, [baseData, previousRecords, previousPeriod, enrichedData]);
+
+  const refetch = useCallback(() => {
+    for (const account of accountsKey.split(",")) {
+      if (account) clearCurrentMonthFundingCache(account);
+    }
+    setReloadToken((t) => t + 1);
+  }, [accountsKey]);
+
+  return {
+    data,
+    records: filteredRecords,
+    isLoading,
+    loadingProgress,
+    isError: error !== null,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Named portfolios: labelled sets of wallets stored in localStorage
+ */
+
+import { useState, useCallback } from "react";
+import type { LabelledAccount } from "./use-multi-account-strategy";
+
+const PORTFOLIOS_KEY = "drift:portfolios";
+
+export interface Portfolio {
+  id: string;
+  name: string;
+  wallets: LabelledAccount[];
+}
+
+function loadPortfolios(): Portfolio[] {
+  try {
+    const stored = localStorage.getItem(PORTFOLIOS_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.warn("Failed to load portfolios:", e);
+  }
+  return [];
+}
+
+function savePortfolios(portfolios: Portfolio[]) {
+  try {
+    localStorage.setItem(PORTFOLIOS_KEY, JSON.stringify(portfolios));
+  } catch (e) {
+    console.warn("Failed to save portfolios:", e);
+  }
+}
+
+function createPortfolioId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Portfolio list with persistence. savePortfolio creates when id is omitted.
+ */
+export function usePortfolios() {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>(loadPortfolios);
+
+  const update = useCallback((fn: (prev: Portfolio[]) => Portfolio[]) => {
+    setPortfolios((prev) => {
+      const next = fn(prev);
+      savePortfolios(next);
+      return next;
+    });
+  }, []);
+
+  const savePortfolio = useCallback(
+    (portfolio: Omit<Portfolio, "id"> & { id?: string }): Portfolio => {
+      const saved: Portfolio = { ...portfolio, id: portfolio.id ?? createPortfolioId() };
+      update((prev) =>
+        prev.some((p) => p.id === saved.id)
+          ? prev.map((p) => (p.id === saved.id ? saved : p))
+          : [...prev, saved]
+      );
+      return saved;
+    },
+    [update]
+  );
+
+  const deletePortfolio = useCallback(
+    (id: string) => {
+      update((prev) => prev.filter((p) => p.id !== id));
+    },
+    [update]
+  );
+
+  return { portfolios, savePortfolio, deletePortfolio };
+}
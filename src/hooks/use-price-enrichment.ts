@@ -5,6 +5,8 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { fetchMultipleMarketPrices } from "@/services/drift-api";
+import { enrichPositionsWithPrices } from "@/services/drift-transformer";
+import type { EnrichedPositionData } from "@/services/drift-transformer";
 import type { Position } from "@/types/schema";
 import type { Timeframe } from "@/types/loading-types";
 import { getTimeframeDays } from "@/types/loading-types";
@@ -16,21 +18,17 @@ const pricesCache = new Map<
 >();
 const PRICE_CACHE_TTL = 60 * 1000; // 1 minute
 
-export interface EnrichedPositionData {
-  positions: Position[];
-  totalNotional: number;
-  apy: number;
-}
+export type { EnrichedPositionData };
 
 /**
- * Enrich positions with current prices and calculate ROI/APY
+ * Fetch (or reuse cached) prices, then enrich positions with ROI/APY
  */
-async function enrichPositionsWithPrices(
+async function fetchAndEnrichPositions(
   positions: Position[],
-  timeframe: Timeframe
+  periodDays: number
 ): Promise<EnrichedPositionData> {
   if (positions.length === 0) {
-    return { positions: [], totalNotional: 0, apy: 0 };
+    return { positions: [], totalNotional: 0, averageNotional: 0, apy: 0 };
   }
 
   // Get unique market symbols
@@ -51,45 +49,18 @@ async function enrichPositionsWithPrices(
     pricesCache.set(cacheKey, { prices: priceMap, timestamp: now });
   }
 
-  // Enrich positions with prices and calculate values
-  let totalNotional = 0;
-  let totalFunding = 0;
-
-  const enrichedPositions = positions.map((pos) => {
-    const price = priceMap.get(pos.pairName) || 0;
-    const tokenAmount = Math.abs(parseFloat(pos.notionalSize));
-    const notionalValue = tokenAmount * price;
-    const fundingPnl = parseFloat(pos.fundingEarned);
-
-    totalNotional += notionalValue;
-    totalFunding += fundingPnl;
-
-    // Calculate ROI based on actual notional value
-    const roi = notionalValue > 0 ? (fundingPnl / notionalValue) * 100 : 0;
-
-    return {
-      ...pos,
-      currentPrice: price.toFixed(2),
-      notionalValue: notionalValue.toFixed(2),
-      roi: roi.toFixed(2),
-    };
-  });
-
-  // Calculate APY: ROI * (365 / days_in_timeframe)
-  const days = getTimeframeDays(timeframe);
-  const totalRoi = totalNotional > 0 ? (totalFunding / totalNotional) * 100 : 0;
-  const apy = totalRoi * (365 / days);
-
-  return { positions: enrichedPositions, totalNotional, apy };
+  return enrichPositionsWithPrices(positions, priceMap, periodDays);
 }
 
 /**
  * Hook for price enrichment with caching
+ * periodDays overrides the timeframe's length (custom ranges)
  */
 export function usePriceEnrichment(
   positions: Position[],
   timeframe: Timeframe,
-  enabled: boolean = true
+  enabled: boolean = true,
+  periodDays?: number
 ): {
   enrichedData: EnrichedPositionData | null;
   isLoading: boolean;
@@ -112,7 +83,10 @@ export function usePriceEnrichment(
     setError(null);
 
     try {
-      const result = await enrichPositionsWithPrices(positions, timeframe);
+      const result = await fetchAndEnrichPositions(
+        positions,
+        periodDays ?? getTimeframeDays(timeframe)
+      );
 
       // Only update if this is still the latest fetch
       if (fetchId === fetchIdRef.current) {
@@ -127,7 +101,7 @@ export function usePriceEnrichment(
         setIsLoading(false);
       }
     }
-  }, [positions, timeframe, enabled]);
+  }, [positions, timeframe, enabled, periodDays]);
 
   // Fetch prices when dependencies change
   useEffect(() => {
@@ -0,0 +1,79 @@
+/**
+ * Spot lending interest and borrow cost for one or more Drift accounts
+ * Full deposit history comes from the Data API (it's needed to rebuild balances);
+ * current lending/borrow rates and spot prices come from /api/yield when the server is available
+ */
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchSpotRates } from "@/services/yield-api";
+import type { DateRange, Timeframe } from "@/types/loading-types";
+import { getTimeframeDays } from "@/types/loading-types";
+import {
+  calculateSpotInterest,
+  type SpotInterestRecord,
+} from "../../shared/spot-interest";
+import { useDepositRecords } from "./use-deposit-records";
+
+interface CurrentSpotRates {
+  lendingApy: Map<number, number>;
+  borrowRate: Map<number, number>;
+  price: Map<number, number>;
+}
+
+/**
+ * Current lending APY, borrow rate and oracle price per spot market; stops at the first failure
+ */
+async function fetchCurrentSpotRates(spotMarketIndexes: number[]): Promise<CurrentSpotRates> {
+  const rates: CurrentSpotRates = { lendingApy: new Map(), borrowRate: new Map(), price: new Map() };
+  for (const marketIndex of spotMarketIndexes) {
+    try {
+      const row = await fetchSpotRates(marketIndex);
+      rates.lendingApy.set(marketIndex, row.lendingApyPct);
+      rates.borrowRate.set(marketIndex, row.borrowingRatePct);
+      if (row.oraclePrice > 0) rates.price.set(marketIndex, row.oraclePrice);
+    } catch {
+      break; // Server not running or SDK not configured; fall back to observed rates
+    }
+  }
+  return rates;
+}
+
+/**
+ * Hourly lending interest and borrow cost within the timeframe (or the custom range,
+ * which overrides it), or undefined while loading/disabled
+ */
+export function useSpotInterest(
+  accounts: string[],
+  timeframe: Timeframe,
+  enabled: boolean = true,
+  range?: DateRange
+): SpotInterestRecord[] | undefined {
+  const deposits = useDepositRecords(accounts, enabled);
+
+  const spotMarketIndexes = useMemo(
+    () => [...new Set((deposits ?? []).map((r) => r.marketIndex))].sort((a, b) => a - b),
+    [deposits]
+  );
+
+  const ratesQuery = useQuery({
+    queryKey: ["spot-rates", spotMarketIndexes.join(",")],
+    queryFn: () => fetchCurrentSpotRates(spotMarketIndexes),
+    enabled: spotMarketIndexes.length > 0,
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+
+  return useMemo(() => {
+    if (!deposits) return undefined;
+    const now = Math.floor(Date.now() / 1000);
+    const records = calculateSpotInterest(deposits, {
+      now,
+      since: range?.fromTs ?? now - getTimeframeDays(timeframe) * 24 * 60 * 60,
+      currentLendingApy: ratesQuery.data?.lendingApy,
+      currentBorrowRate: ratesQuery.data?.borrowRate,
+      currentPrices: ratesQuery.data?.price,
+    });
+    return range ? records.filter((r) => r.ts < range.toTs) : records;
+  }, [deposits, ratesQuery.data, timeframe, range]);
+}
@@ -4,12 +4,8 @@
  */
 
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import {
-  fetchMultipleDailyCandles,
-  fetchMultipleHourlyCandles,
-  fetchMultipleMarketPrices,
-} from "@/services/drift-api";
 import { transformDriftDataToStrategy } from "@/services/drift-transformer";
+import { buildPreviousPeriod } from "../../shared/period-comparison";
 import { mockStrategy } from "@/mock-strategy";
 import { clearCurrentMonthFundingCache } from "@/services/cache-utils";
 import {
@@ -27,16 +23,17 @@ import {
 } from "@/services/cache-manager";
 import { useLoadingState } from "./use-loading-state";
 import { usePriceEnrichment } from "./use-price-enrichment";
+import { useMarketCandles } from "./use-market-candles";
+import { useSpotInterest } from "./use-spot-interest";
+import { useFills } from "./use-fills";
+import { useTimeZone } from "./use-timezone";
 import {
   getLoadingTimeframes,
   getCurrentlyLoadingTimeframe,
 } from "./use-timeframe-buttons";
 
 import type { StrategyResponse } from "@/types/schema";
-import type {
-  DriftFundingPaymentRecord,
-  DailyCandleRecord,
-} from "@/services/drift-types";
+import type { DriftFundingPaymentRecord } from "@/services/drift-types";
 import { getMarketName } from "@/services/drift-types";
 import type { Timeframe, LoadingProgress } from "@/types/loading-types";
 import {
@@ -51,6 +48,7 @@ export { getTimeframeDays, isExtendedTimeframe };
 
 export interface UseStrategyResult {
   data: StrategyResponse | null;
+  records: DriftFundingPaymentRecord[];  // Funding payments in the timeframe (empty for the demo account)
   isLoading: boolean;
   isLoadingMore: boolean;
   loadingProgress: LoadingProgress | null;
@@ -85,29 +83,17 @@ function filterRecordsByTimeframe(
 }
 
 /**
- * Sum funding for records in the previous period
+ * Records in the previous period of equal length, or null for timeframes
+ * without a comparison (only 24H and 7D load enough history for one)
  */
-function sumPreviousPeriodFunding(
+function getPreviousPeriodRecords(
   records: DriftFundingPaymentRecord[],
   timeframe: Timeframe
-): number {
+): DriftFundingPaymentRecord[] | null {
+  if (timeframe !== "24H" && timeframe !== "7D") return null;
   const now = Math.floor(Date.now() / 1000);
-  let startTs: number;
-  let endTs: number;
-
-  if (timeframe === "24H") {
-    endTs = now - 24 * 60 * 60;
-    startTs = now - 48 * 60 * 60;
-  } else if (timeframe === "7D") {
-    endTs = now - 7 * 24 * 60 * 60;
-    startTs = now - 14 * 24 * 60 * 60;
-  } else {
-    return 0;
-  }
-
-  return records
-    .filter((r) => r.ts >= startTs && r.ts < endTs)
-    .reduce((sum, r) => sum + parseFloat(r.fundingPayment), 0);
+  const span = getTimeframeDays(timeframe) * 24 * 60 * 60;
+  return records.filter((r) => r.ts >= now - 2 * span && r.ts < now - span);
 }
 
 /**
@@ -140,12 +126,6 @@ export function useStrategy(
     useState<Timeframe | null>(null);
   const [cacheSuggestedDefaultTimeframe, setCacheSuggestedDefaultTimeframe] =
     useState<Timeframe | null>(null);
-  const [candleData, setCandleData] = useState<
-    Map<string, DailyCandleRecord[]>
-  >(new Map());
-  const [currentPrices, setCurrentPrices] = useState<Map<string, number>>(
-    new Map()
-  );
   const [fetchedTimeframes, setFetchedTimeframes] = useState<Set<Timeframe>>(
     new Set()
   );
@@ -178,22 +158,73 @@ export function useStrategy(
 
   currentWalletRef.current = walletSubkey;
 
+  // Funding payments in the current timeframe
+  const filteredRecords = useMemo(
+    () => (walletSubkey === "main-account" ? [] : filterRecordsByTimeframe(allRecords, timeframe)),
+    [walletSubkey, allRecords, timeframe]
+  );
+
+  // Unique market symbols in the current timeframe (drives candle/price fetching)
+  const marketSymbols = useMemo(
+    () => [...new Set(filteredRecords.map((r) => getMarketName(r.marketIndex)))],
+    [filteredRecords]
+  );
+
+  // Candle data for heatmap and current prices for today's fallback
+  const { candleData, currentPrices } = useMarketCandles(
+    marketSymbols,
+    timeframe,
+    walletSubkey !== "main-account"
+  );
+
+  // Lending interest / borrow cost on the spot legs (undefined until deposit history loads)
+  const interestRecords = useSpotInterest(
+    [walletSubkey],
+    timeframe,
+    walletSubkey !== "main-account" && allRecords.length > 0
+  );
+
+  // Entry prices, fees and realized PnL from trade history (undefined until it loads)
+  const fills = useFills(
+    [walletSubkey],
+    timeframe,
+    walletSubkey !== "main-account" && allRecords.length > 0
+  );
+
+  // Display timezone for day/hour buckets
+  const timeZone = useTimeZone();
+
   // Compute base data for positions
   const baseData = useMemo(() => {
     if (walletSubkey === "main-account") {
       return getMockData(timeframe);
     }
-    if (allRecords.length === 0) return null;
-    const filteredRecords = filterRecordsByTimeframe(allRecords, timeframe);
     if (filteredRecords.length === 0) return null;
     return transformDriftDataToStrategy(
       walletSubkey,
       filteredRecords,
       timeframe,
       candleData,
-      currentPrices
+      currentPrices,
+      { interestRecords, fills, timeZone }
+    );
+  }, [walletSubkey, timeframe, filteredRecords, candleData, currentPrices, interestRecords, fills, timeZone]);
+
+  // Previous period's funding series and per-market changes (24H/7D)
+  const previousPeriod = useMemo(() => {
+    if (walletSubkey === "main-account" || !baseData) return undefined;
+    const previousRecords = getPreviousPeriodRecords(allRecords, timeframe);
+    if (!previousRecords || previousRecords.length === 0) return undefined;
+    const previous = transformDriftDataToStrategy(
+      walletSubkey,
+      previousRecords,
+      timeframe,
+      candleData,
+      currentPrices,
+      { timeZone }
     );
-  }, [walletSubkey, timeframe, allRecords, candleData, currentPrices]);
+    return buildPreviousPeriod(baseData, previous, getTimeframeDays(timeframe));
+  }, [walletSubkey, baseData, allRecords, timeframe, candleData, currentPrices, timeZone]);
 
   // Price enrichment for non-mock data
   const { enrichedData } = usePriceEnrichment(
@@ -207,8 +238,6 @@ export function useStrategy(
     if (prevWalletRef.current !== walletSubkey) {
       setAllRecords([]);
       setFetchedTimeframes(new Set());
-      setCandleData(new Map());
-      setCurrentPrices(new Map());
       setProbeSuggestedTimeframe(null);
       setCacheSuggestedDefaultTimeframe(null);
       setLoadingProgress(null);
@@ -587,60 +616,6 @@ export function useStrategy(
     setError,
   ]);
 
-  // Fetch candle data for heatmap and current prices for today's fallback
-  useEffect(() => {
-    if (walletSubkey === "main-account" || allRecords.length === 0) {
-      setCandleData(new Map());
-      setCurrentPrices(new Map());
-      return;
-    }
-
-    const filteredRecords = filterRecordsByTimeframe(allRecords, timeframe);
-    if (filteredRecords.length === 0) {
-      setCandleData(new Map());
-      setCurrentPrices(new Map());
-      return;
-    }
-
-    // Get unique market symbols from records
-    const symbolsSet = new Set<string>();
-    for (const record of filteredRecords) {
-      symbolsSet.add(getMarketName(record.marketIndex));
-    }
-    const symbols = [...symbolsSet];
-
-    let cancelled = false;
-
-    // Fetch current prices for today's notional fallback
-    fetchMultipleMarketPrices(symbols)
-      .then((prices) => {
-        if (!cancelled) setCurrentPrices(prices);
-      })
-      .catch(console.error);
-
-    if (timeframe === "24H") {
-      // Fetch hourly candles for 24H timeframe
-      fetchMultipleHourlyCandles(symbols)
-        .then((candles) => {
-          if (!cancelled) setCandleData(candles);
-        })
-        .catch(console.error);
-    } else {
-      // Fetch daily candles (366 days cached, only fetches diff on subsequent calls)
-      fetchMultipleDailyCandles(symbols)
-        .then((candles) => {
-          if (!cancelled) {
-            setCandleData(candles);
-          }
-        })
-        .catch(console.error);
-    }
-
-    return () => {
-      cancelled = true;
-    };
-  }, [walletSubkey, allRecords, timeframe]);
-
   // Refetch function
   const refetch = useCallback(() => {
     if (isExtendedTimeframe(timeframe)) {
@@ -652,8 +627,6 @@ export function useStrategy(
     }
     clearCurrentMonthFundingCache(walletSubkey);
     setAllRecords([]);
-    setCandleData(new Map());
-    setCurrentPrices(new Map());
     reset();
   }, [walletSubkey, timeframe, reset]);
 
@@ -666,13 +639,13 @@ export function useStrategy(
     }
 
     // Add previous period funding
-    const previousPeriodFundingPnl =
-      timeframe === "24H" || timeframe === "7D"
-        ? sumPreviousPeriodFunding(allRecords, timeframe).toFixed(2)
-        : null;
+    const previousRecords = getPreviousPeriodRecords(allRecords, timeframe);
+    const previousPeriodFundingPnl = previousRecords
+      ? previousRecords.reduce((sum, r) => sum + parseFloat(r.fundingPayment), 0).toFixed(2)
+      : null;
 
     const withPrevious = previousPeriodFundingPnl
-      ? { ...baseData, previousPeriodFundingPnl }
+      ? { ...baseData, previousPeriodFundingPnl, ...(previousPeriod && { previousPeriod }) }
       : baseData;
 
     // Add price enrichment
@@ -686,7 +659,7 @@ export function useStrategy(
     }
 
     return withPrevious;
-  }, [baseData, walletSubkey, timeframe, allRecords, enrichedData]);
+  }, [baseData, walletSubkey, timeframe, allRecords, previousPeriod, enrichedData]);
 
   // Compute derived state for backward compatibility
   const isLoading = state.phase === "loading_7d" || state.phase === "idle";
@@ -777,6 +750,7 @@ export function useStrategy(
 
   return {
     data,
+    records: filteredRecords,
     isLoading: walletSubkey !== "main-account" && isLoading,
     isLoadingMore,
     loadingProgress,
@@ -13,11 +13,14 @@ interface UseTableControlsOptions<T, K extends string> {
   valueExtractors: Record<K, (item: T) => number | string>;
   /** Optional function that returns a searchable string from an item. */
   searchExtractor?: (item: T) => string;
+  /** Optional predicate for rows that stay above the rest whatever the sort. */
+  isPinned?: (item: T) => boolean;
 }
 
 /**
  * Generic hook for table sorting and text search filtering.
  * Clicking the same column toggles direction; a new column defaults to desc.
+ * Pinned rows sort among themselves ahead of the others.
  */
 export function useTableControls<T, K extends string>({
   items,
@@ -25,6 +28,7 @@ export function useTableControls<T, K extends string>({
   defaultDirection = "desc",
   valueExtractors,
   searchExtractor,
+  isPinned,
 }: UseTableControlsOptions<T, K>) {
   const [sortConfig, setSortConfig] = useState<SortConfig<K>>({
     key: defaultSortKey,
@@ -55,6 +59,10 @@ export function useTableControls<T, K extends string>({
     if (!extractor) return filtered;
 
     return [...filtered].sort((a, b) => {
+      if (isPinned) {
+        const pinDiff = Number(isPinned(b)) - Number(isPinned(a));
+        if (pinDiff !== 0) return pinDiff;
+      }
       const aVal = extractor(a);
       const bVal = extractor(b);
       const asc = sortConfig.direction === "asc";
@@ -66,7 +74,7 @@ export function useTableControls<T, K extends string>({
       const numB = Number(bVal);
       return asc ? numA - numB : numB - numA;
     });
-  }, [items, searchQuery, searchExtractor, sortConfig, valueExtractors]);
+  }, [items, searchQuery, searchExtractor, sortConfig, valueExtractors, isPinned]);
 
   return {
     sortConfig,
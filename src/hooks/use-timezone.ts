@@ -0,0 +1,25 @@
+/**
+ * Display timezone setting as React state (see services/display-timezone)
+ */
+
+import { useSyncExternalStore } from "react";
+import {
+  BROWSER_TIMEZONE,
+  getTimeZoneSetting,
+  subscribeTimeZone,
+} from "@/services/display-timezone";
+
+/**
+ * Raw setting ("browser", "UTC" or IANA), for the picker
+ */
+export function useTimeZoneSetting(): string {
+  return useSyncExternalStore(subscribeTimeZone, getTimeZoneSetting);
+}
+
+/**
+ * Display timezone for the shared date helpers (undefined = browser local)
+ */
+export function useTimeZone(): string | undefined {
+  const value = useTimeZoneSetting();
+  return value === BROWSER_TIMEZONE ? undefined : value;
+}
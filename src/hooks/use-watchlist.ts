@@ -0,0 +1,47 @@
+/**
+ * Yield Scanner watchlist: pinned perp symbols ("SOL-PERP") stored in localStorage
+ */
+
+import { useState, useCallback, useMemo } from "react";
+
+const WATCHLIST_KEY = "drift:watchlist";
+
+function loadWatchlist(): string[] {
+  try {
+    const stored = localStorage.getItem(WATCHLIST_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.warn("Failed to load watchlist:", e);
+  }
+  return [];
+}
+
+function saveWatchlist(symbols: string[]) {
+  try {
+    localStorage.setItem(WATCHLIST_KEY, JSON.stringify(symbols));
+  } catch (e) {
+    console.warn("Failed to save watchlist:", e);
+  }
+}
+
+/**
+ * Watchlist in pin order with persistence. togglePin adds or removes a symbol.
+ */
+export function useWatchlist() {
+  const [watchlist, setWatchlist] = useState<string[]>(loadWatchlist);
+  const pinned = useMemo(() => new Set(watchlist), [watchlist]);
+
+  const isPinned = useCallback((symbol: string) => pinned.has(symbol), [pinned]);
+
+  const togglePin = useCallback((symbol: string) => {
+    setWatchlist((prev) => {
+      const next = prev.includes(symbol) ? prev.filter((s) => s !== symbol) : [...prev, symbol];
+      saveWatchlist(next);
+      return next;
+    });
+  }, []);
+
+  return { watchlist, isPinned, togglePin };
+}
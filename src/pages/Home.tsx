@@ -1,9 +1,34 @@
 import { useState, useEffect, useRef, useMemo } from "react";
 import { useStrategy, type Timeframe } from "@/hooks/use-strategies";
+import { useAuthorityStrategy } from "@/hooks/use-authority-strategy";
+import {
+  useMultiAccountStrategy,
+  type LabelledAccount,
+} from "@/hooks/use-multi-account-strategy";
+import { usePortfolios, type Portfolio } from "@/hooks/use-portfolios";
 import { useUserState } from "@/hooks/use-user-state";
+import { useCapitalFlows } from "@/hooks/use-capital-flows";
+import { useBenchmarkData } from "@/hooks/use-benchmarks";
+import { useDashboardUrl } from "@/hooks/use-dashboard-url";
+import {
+  getTimeframeDays,
+  getRangeDays,
+  getRangeTimeframe,
+} from "@/types/loading-types";
 import { MetricCard } from "@/components/MetricCard";
 import { PnLCharts } from "@/components/PnLCharts";
 import { PositionsTable } from "@/components/PositionsTable";
+import { DeltaMonitor } from "@/components/DeltaMonitor";
+import { MarginStressPanel } from "@/components/MarginStressPanel";
+import { FillsLedger } from "@/components/FillsLedger";
+import { PeriodComparisonTable } from "@/components/PeriodComparisonTable";
+import { DateRangePicker } from "@/components/DateRangePicker";
+import { ExportMenu } from "@/components/ExportMenu";
+import { calculateMarketDeltas } from "@/services/hedge-monitor";
+import { buildMarginModel } from "@/services/margin-stress";
+import { applyLivePnl } from "@/services/live-pnl";
+import { buildCashFlows, calculateXirr } from "../../shared/capital-flows";
+import { PortfolioEditor } from "@/components/PortfolioEditor";
 import { Button } from "@/components/ui/button";
 import {
   Tooltip,
@@ -23,12 +48,34 @@ import {
   Clock,
   Trash2,
   Lightbulb,
+  Pencil,
+  Plus,
+  Briefcase,
+  FileText,
 } from "lucide-react";
 import { Link } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 
 type ApyMethod = "average" | "capital-weighted";
 
+/**
+ * "account": a single Drift user account; "authority": all sub-accounts of an authority;
+ * "portfolio": a saved, named set of labelled wallets
+ */
+type LookupMode = "account" | "authority" | "portfolio";
+
+const LOOKUP_MODE_LABELS: Record<LookupMode, { button: string; input: string; title: string }> = {
+  account: { button: "Account", input: "Drift PubKey", title: "Load a single Drift user account" },
+  authority: {
+    button: "All sub-accounts",
+    input: "Authority",
+    title: "Load and combine every sub-account of an authority",
+  },
+  portfolio: { button: "Portfolio", input: "Portfolio", title: "Combine a saved set of wallets" },
+};
+
+const NO_WALLETS: LabelledAccount[] = [];
+
 const SEARCH_HISTORY_KEY = "drift:search-history";
 const MAX_HISTORY_ITEMS = 10;
 
@@ -107,15 +154,24 @@ function isMockAccount(value: string): boolean {
 }
 
 export default function Home() {
-  const [walletKey, setWalletKey] = useState(MOCK_ACCOUNT_KEY);
-  const [inputValue, setInputValue] = useState(MOCK_ACCOUNT_DISPLAY);
+  // Wallet, timeframe / custom range, chart tab and expanded rows live in the URL
+  const { view, setView, openWallet } = useDashboardUrl();
+  const walletKey = view.wallet ?? MOCK_ACCOUNT_KEY;
+  const timeframe: Timeframe = view.timeframe ?? "7D";
+  const customRange = view.range;
+  const [inputValue, setInputValue] = useState(view.wallet ?? MOCK_ACCOUNT_DISPLAY);
   const [hasClearedDefault, setHasClearedDefault] = useState(false);
-  const [timeframe, setTimeframe] = useState<Timeframe>("7D");
   const [showErrorDialog, setShowErrorDialog] = useState(false);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
   const [showDropdown, setShowDropdown] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const [apyMethod, setApyMethod] = useState<ApyMethod>("average");
+  const [lookupMode, setLookupMode] = useState<LookupMode>(view.mode);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string | null>(null);
+  // null: editor closed; { portfolio: null }: creating a new portfolio
+  const [portfolioEditor, setPortfolioEditor] = useState<{ portfolio: Portfolio | null } | null>(null);
+  const { portfolios, savePortfolio, deletePortfolio } = usePortfolios();
+  const selectedPortfolio = portfolios.find((p) => p.id === selectedPortfolioId) ?? null;
   const dropdownRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -127,37 +183,143 @@ export default function Home() {
     setShowDropdown(true);
   };
 
+  const isAuthorityMode = lookupMode === "authority" && walletKey !== MOCK_ACCOUNT_KEY;
+  const isPortfolioMode = lookupMode === "portfolio";
+  const isMultiAccount = isAuthorityMode || isPortfolioMode;
+
+  // The demo account only has preset timeframes
+  const range = customRange && walletKey !== MOCK_ACCOUNT_KEY ? customRange : undefined;
+  const isCustomRange = range !== undefined;
+  // Custom ranges bucket like the shortest preset covering them (hourly up to a day)
+  const effectiveTimeframe = range ? getRangeTimeframe(range) : timeframe;
+  const rangeAccounts = useMemo<LabelledAccount[]>(
+    () => (isCustomRange && !isMultiAccount ? [{ address: walletKey, label: walletKey }] : NO_WALLETS),
+    [isCustomRange, isMultiAccount, walletKey]
+  );
+
+  // Custom ranges load through rangeStrategy, so the preset fetch stays idle behind them
+  const accountStrategy = useStrategy(isMultiAccount || isCustomRange ? "" : walletKey, timeframe);
+  const rangeStrategy = useMultiAccountStrategy(walletKey, rangeAccounts, effectiveTimeframe, range);
+  const authorityStrategy = useAuthorityStrategy(
+    isAuthorityMode ? walletKey : "",
+    effectiveTimeframe,
+    range
+  );
+  const portfolioStrategy = useMultiAccountStrategy(
+    selectedPortfolio?.name ?? "",
+    isPortfolioMode && selectedPortfolio ? selectedPortfolio.wallets : NO_WALLETS,
+    effectiveTimeframe,
+    range
+  );
+
+  const { data, records, isLoading, loadingProgress, isError, error, refetch } = isPortfolioMode
+    ? portfolioStrategy
+    : isAuthorityMode
+    ? authorityStrategy
+    : isCustomRange
+    ? rangeStrategy
+    : accountStrategy;
   const {
-    data,
-    isLoading,
-    loadingProgress,
-    isError,
-    error,
-    refetch,
     isRefetching,
     probeSuggestedTimeframe,
     cacheSuggestedDefaultTimeframe,
-    currentlyLoadingTimeframe,
-    currentlyLoadingTimeframes,
-    hasComparisonData,
-    disabledTimeframes,
-  } = useStrategy(walletKey, timeframe);
+  } = accountStrategy;
+  // Multi-account modes and custom ranges load on demand, so nothing is disabled or pre-loading
+  const isOnDemand = isMultiAccount || isCustomRange;
+  const currentlyLoadingTimeframe = isOnDemand
+    ? null
+    : accountStrategy.currentlyLoadingTimeframe;
+  const currentlyLoadingTimeframes = isOnDemand
+    ? new Set<Timeframe>()
+    : accountStrategy.currentlyLoadingTimeframes;
+  const disabledTimeframes = isOnDemand
+    ? new Set<Timeframe>()
+    : accountStrategy.disabledTimeframes;
+  const hasComparisonData = isOnDemand ? true : accountStrategy.hasComparisonData;
 
+  // Suggested timeframes below only apply when the link didn't pick one
   // When 12-month probe finds data, auto-switch to 1Y so user sees the range that has data
   useEffect(() => {
-    if (probeSuggestedTimeframe) {
-      setTimeframe(probeSuggestedTimeframe);
+    if (probeSuggestedTimeframe && !view.timeframe) {
+      setView({ timeframe: probeSuggestedTimeframe });
     }
   }, [probeSuggestedTimeframe]);
 
   // When re-searching a previously searched address, use cache to pick default timeframe (7D if recent, else 6M etc.)
   useEffect(() => {
-    if (cacheSuggestedDefaultTimeframe) {
-      setTimeframe(cacheSuggestedDefaultTimeframe);
+    if (cacheSuggestedDefaultTimeframe && !view.timeframe) {
+      setView({ timeframe: cacheSuggestedDefaultTimeframe });
     }
   }, [cacheSuggestedDefaultTimeframe]);
 
-  const { userState } = useUserState(walletKey);
+  const { userState } = useUserState(isMultiAccount ? "" : walletKey);
+  const marketDeltas = useMemo(
+    () => (userState ? calculateMarketDeltas(userState) : []),
+    [userState]
+  );
+  const marginModel = useMemo(
+    () => (userState ? buildMarginModel(userState) : null),
+    [userState]
+  );
+
+  // Positions with live perp/spot mark-to-market (single account only)
+  const positions = useMemo(
+    () => (data && userState ? applyLivePnl(data.positions, userState) : data?.positions ?? []),
+    [data, userState]
+  );
+
+  // Total strategy PnL: carry income vs basis (realized trading + mark-to-market drift)
+  const strategyPnl = useMemo(() => {
+    if (!data || !positions.some((p) => p.unrealizedPnl !== undefined)) return null;
+    const carry =
+      Number(data.totalFundingPnl) +
+      Number(data.totalInterestPnl ?? 0) -
+      Number(data.totalBorrowCost ?? 0);
+    const trading = Number(data.totalRealizedPnl ?? 0) - Number(data.totalTradingFees ?? 0);
+    const markToMarket = positions.reduce(
+      (sum, p) => sum + Number(p.unrealizedPnl ?? 0) + Number(p.spotLegPnl ?? 0),
+      0
+    );
+    return { carry, basis: trading + markToMarket, total: carry + trading + markToMarket };
+  }, [data, positions]);
+
+  // Deposits/withdrawals of the accounts on screen (equity curve, money-weighted return)
+  const flowAccounts = useMemo(
+    () =>
+      data?.accounts
+        ? data.accounts.map((a) => a.account)
+        : !isMultiAccount && walletKey !== MOCK_ACCOUNT_KEY
+        ? [walletKey]
+        : [],
+    [data?.accounts, isMultiAccount, walletKey]
+  );
+  const capitalFlows = useCapitalFlows(flowAccounts, !!data && flowAccounts.length > 0);
+
+  // Benchmarks run on the strategy's time-weighted notional (current notional as fallback)
+  const benchmarkData = useBenchmarkData(effectiveTimeframe, !!data);
+  const benchmarks = useMemo(
+    () => ({
+      ...benchmarkData,
+      notional: positions.reduce(
+        (sum, p) => sum + (Number(p.avgNotional ?? 0) || Number(p.notionalValue)),
+        0
+      ),
+    }),
+    [benchmarkData, positions]
+  );
+
+  // Previous period only once its records cover a full period
+  const previousPeriod = hasComparisonData ? data?.previousPeriod : undefined;
+
+  // XIRR over the period: opening equity and deposits in, withdrawals and closing equity out
+  const xirr = useMemo(() => {
+    if (!data || !capitalFlows || capitalFlows.length === 0) return null;
+    const toTs = range ? range.toTs - 1 : Math.floor(Date.now() / 1000);
+    const fromTs = range ? range.fromTs : toTs - getTimeframeDays(timeframe) * 24 * 60 * 60;
+    const periodPnl = data.dailyMetrics.reduce((sum, m) => sum + Number(m.dailyPnl), 0);
+    const cashFlows = buildCashFlows(capitalFlows, fromTs, toTs, periodPnl);
+    return cashFlows ? calculateXirr(cashFlows) : null;
+  }, [data, capitalFlows, timeframe, range]);
 
   // Calculate APY based on selected method
   const calculatedApy = useMemo(() => {
@@ -176,7 +338,7 @@ export default function Home() {
     }
 
     const N = metricsWithNotional.length;
-    const isHourly = timeframe === '24H';
+    const isHourly = effectiveTimeframe === '24H';
     const periodsPerYear = isHourly ? 24 * 365 : 365;
 
     // Case A: Average Daily APY = (1/N) * Σ(pᵢ/nᵢ) * periodsPerYear
@@ -229,7 +391,7 @@ export default function Home() {
     }
 
     return { average: averageApy, capitalWeighted: capitalWeightedApy, previousAverage, previousCapWeighted };
-  }, [data?.dailyMetrics, data?.currentApy, timeframe]);
+  }, [data?.dailyMetrics, data?.currentApy, effectiveTimeframe]);
 
   // Select APY based on method
   const { displayApy, apyChange } = useMemo(() => {
@@ -244,6 +406,13 @@ export default function Home() {
     setSearchHistory(loadSearchHistory());
   }, []);
 
+  // Follow the URL on back/forward and opened links: lookup mode and search box
+  useEffect(() => {
+    setLookupMode(view.mode);
+    setInputValue(view.wallet ?? MOCK_ACCOUNT_DISPLAY);
+    if (!view.wallet) setHasClearedDefault(false);
+  }, [view.wallet, view.mode]);
+
   // Show error dialog when error occurs
   useEffect(() => {
     if (isError) {
@@ -297,11 +466,8 @@ export default function Home() {
     const key = isMockAccount(trimmedValue) ? MOCK_ACCOUNT_KEY : trimmedValue;
     if (trimmedValue) {
       setShowErrorDialog(false);
-      // Reset to default timeframe when searching new address
-      if (key !== walletKey) {
-        setTimeframe("7D");
-      }
-      setWalletKey(key);
+      // A new address opens with the default timeframe
+      openWallet(key === MOCK_ACCOUNT_KEY ? null : key, lookupMode === "authority" ? "authority" : "account");
       if (!isMockAccount(trimmedValue)) addToSearchHistory(trimmedValue);
       setShowDropdown(false);
       setSelectedIndex(-1);
@@ -310,11 +476,8 @@ export default function Home() {
 
   const handleSelectHistory = (address: string) => {
     setInputValue(address);
-    // Reset to default timeframe when selecting different address
-    if (address !== walletKey) {
-      setTimeframe("7D");
-    }
-    setWalletKey(address);
+    // A different address opens with the default timeframe
+    openWallet(address, lookupMode === "authority" ? "authority" : "account");
     addToSearchHistory(address);
     setShowDropdown(false);
     setSelectedIndex(-1);
@@ -342,13 +505,33 @@ export default function Home() {
     }
   };
 
+  const handleSavePortfolio = (portfolio: Omit<Portfolio, "id"> & { id?: string }) => {
+    const saved = savePortfolio(portfolio);
+    setSelectedPortfolioId(saved.id);
+    setPortfolioEditor(null);
+    setShowErrorDialog(false);
+  };
+
+  const handleDeletePortfolio = (id: string) => {
+    deletePortfolio(id);
+    if (selectedPortfolioId === id) setSelectedPortfolioId(null);
+    setPortfolioEditor(null);
+  };
+
   const handleDismissError = () => {
     setShowErrorDialog(false);
-    setWalletKey(MOCK_ACCOUNT_KEY);
+    setLookupMode("account");
+    openWallet(null, "account");
     setInputValue(MOCK_ACCOUNT_DISPLAY);
     setHasClearedDefault(false);
   };
 
+  // Account/authority switch the loaded wallet's route; portfolios aren't in the URL
+  const handleLookupModeChange = (mode: LookupMode) => {
+    setLookupMode(mode);
+    if (mode !== "portfolio" && walletKey !== MOCK_ACCOUNT_KEY) openWallet(walletKey, mode);
+  };
+
   return (
     <div className="min-h-screen bg-background text-foreground pb-20">
       {/* Error Dialog Popup */}
@@ -416,6 +599,17 @@ export default function Home() {
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {portfolioEditor && (
+          <PortfolioEditor
+            portfolio={portfolioEditor.portfolio}
+            onSave={handleSavePortfolio}
+            onDelete={handleDeletePortfolio}
+            onClose={() => setPortfolioEditor(null)}
+          />
+        )}
+      </AnimatePresence>
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
         {/* Row 1: Header & Status */}
         <div className="flex justify-between items-baseline mb-4">
@@ -444,10 +638,71 @@ export default function Home() {
         {/* Row 2: Controls Toolbar */}
         <div className="flex justify-between items-center mb-6" ref={dropdownRef}>
           <div className="relative flex flex-col gap-1.5">
-            <label className="text-xs font-medium text-muted-foreground">
-              Drift PubKey
-            </label>
             <div className="flex items-center gap-2">
+              <label className="text-xs font-medium text-muted-foreground">
+                {LOOKUP_MODE_LABELS[lookupMode].input}
+              </label>
+              <div className="flex items-center text-[10px] gap-0.5">
+                {(["account", "authority", "portfolio"] as LookupMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => handleLookupModeChange(mode)}
+                    className={`px-1.5 py-0.5 rounded transition-all ${
+                      lookupMode === mode
+                        ? "bg-emerald-900/60 text-emerald-400"
+                        : "text-muted-foreground/40 hover:text-muted-foreground/70"
+                    }`}
+                    title={LOOKUP_MODE_LABELS[mode].title}
+                  >
+                    {LOOKUP_MODE_LABELS[mode].button}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+            {isPortfolioMode ? (
+              <>
+              <div className="flex items-center gap-2 h-10 w-[400px] rounded-lg px-3 ring-1 ring-white/5 bg-secondary/20">
+                <Briefcase className="w-4 h-4 text-muted-foreground shrink-0" />
+                <select
+                  value={selectedPortfolioId ?? ""}
+                  onChange={(e) => setSelectedPortfolioId(e.target.value || null)}
+                  className="bg-transparent border-none focus:outline-none text-sm w-full h-full text-foreground"
+                  aria-label="Select portfolio"
+                >
+                  <option value="" className="bg-card">
+                    {portfolios.length > 0 ? "Select a portfolio..." : "No portfolios yet"}
+                  </option>
+                  {portfolios.map((p) => (
+                    <option key={p.id} value={p.id} className="bg-card">
+                      {p.name} ({p.wallets.length} wallet{p.wallets.length === 1 ? "" : "s"})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {selectedPortfolio && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-10 text-muted-foreground"
+                  onClick={() => setPortfolioEditor({ portfolio: selectedPortfolio })}
+                >
+                  <Pencil className="w-3 h-3 mr-2" />
+                  Edit
+                </Button>
+              )}
+              <Button
+                size="sm"
+                className="h-10 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 px-6 font-semibold shadow-[0_0_20px_-5px_rgba(39,211,136,0.4)] transition-all shrink-0"
+                onClick={() => setPortfolioEditor({ portfolio: null })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New Portfolio
+              </Button>
+              </>
+            ) : (
+              <>
             <div className="flex items-center gap-2 h-10 w-[400px] rounded-lg px-3 ring-1 ring-white/5 bg-secondary/20">
               <Search className="w-4 h-4 text-muted-foreground shrink-0" />
               <form onSubmit={handleSearch} className="flex-1 min-w-0">
@@ -520,6 +775,8 @@ export default function Home() {
                 </motion.div>
               )}
             </AnimatePresence>
+              </>
+            )}
             </div>
           </div>
           <div className="flex items-center gap-2 flex-wrap justify-end">
@@ -531,10 +788,10 @@ export default function Home() {
                   return (
                     <button
                       key={tf}
-                      onClick={() => setTimeframe(tf)}
+                      onClick={() => setView({ timeframe: tf, range: null })}
                       disabled={isDisabled}
                       className={`px-3 py-1 text-xs font-medium rounded-md transition-all flex items-center gap-1 ${
-                        timeframe === tf
+                        timeframe === tf && !isCustomRange
                           ? "bg-background text-foreground shadow-sm"
                           : isDisabled
                             ? "text-muted-foreground/40 cursor-not-allowed"
@@ -550,6 +807,32 @@ export default function Home() {
                 }
               )}
             </div>
+            {walletKey !== MOCK_ACCOUNT_KEY && (
+              <DateRangePicker value={range ?? null} onChange={(r) => setView({ range: r })} />
+            )}
+            {data && (
+              <ExportMenu
+                name={isPortfolioMode ? selectedPortfolio?.name ?? "portfolio" : walletKey}
+                records={records}
+                dailyMetrics={data.dailyMetrics}
+                positions={positions}
+                period={
+                  range ?? {
+                    fromTs: Math.floor(Date.now() / 1000) - getTimeframeDays(timeframe) * 24 * 60 * 60,
+                    toTs: Math.floor(Date.now() / 1000) + 1,
+                  }
+                }
+              />
+            )}
+            {!isMultiAccount && walletKey !== MOCK_ACCOUNT_KEY && (
+              <Link
+                href={`/report?wallet=${encodeURIComponent(walletKey)}`}
+                className="px-3 py-2 rounded-lg bg-muted text-xs font-medium flex items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <FileText className="w-3.5 h-3.5" />
+                Report
+              </Link>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -582,7 +865,11 @@ export default function Home() {
         ) : data ? (
           <>
           {/* Metrics Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div
+            className={`grid grid-cols-1 md:grid-cols-2 gap-6 ${
+              strategyPnl ? "lg:grid-cols-5" : "lg:grid-cols-4"
+            }`}
+          >
             {(() => {
               const prev =
                 data.previousPeriodFundingPnl != null
@@ -593,14 +880,15 @@ export default function Home() {
               const hasComparison =
                 hasComparisonData &&
                 prev != null &&
-                timeframe !== "30D" &&
+                (isCustomRange || timeframe !== "30D") &&
                 !Number.isNaN(prev) &&
                 prev !== 0;
               const pctChange = hasComparison
                 ? ((curr - prev) / Math.abs(prev)) * 100
                 : null;
-              const vsLabel =
-                timeframe === "24H"
+              const vsLabel = range
+                ? `vs previous ${Math.round(getRangeDays(range))} days`
+                : timeframe === "24H"
                   ? "vs last 24h"
                   : timeframe === "7D"
                   ? "vs last 7 days"
@@ -608,6 +896,7 @@ export default function Home() {
               // Show "Loading comparison..." while we don't have enough data
               const subValue =
                 !hasComparisonData &&
+                !isCustomRange &&
                 (timeframe === "24H" || timeframe === "7D")
                   ? "Loading comparison..."
                   : pctChange != null
@@ -623,6 +912,28 @@ export default function Home() {
                   : curr >= 0
                   ? "up"
                   : "down";
+              // With lending interest, the card shows total carry split into its parts
+              const interest = Number(data.totalInterestPnl ?? 0);
+              const borrowCost = Number(data.totalBorrowCost ?? 0);
+              if (interest !== 0 || borrowCost !== 0) {
+                const carry = curr + interest - borrowCost;
+                const breakdown = [
+                  `$${formatCurrency(curr)} funding`,
+                  interest !== 0 && `+ $${formatCurrency(interest)} interest`,
+                  borrowCost !== 0 && `− $${formatCurrency(borrowCost)} borrow`,
+                ].filter(Boolean).join(" ");
+                return (
+                  <MetricCard
+                    label="Total Carry PnL"
+                    value={`$${formatCurrency(carry)}`}
+                    subValue={breakdown}
+                    trend={carry >= 0 ? "up" : "down"}
+                    icon={<TrendingUp className="w-5 h-5" />}
+                    delay={0}
+                    highlight={carry >= 0}
+                  />
+                );
+              }
               return (
                 <MetricCard
                   label="Total Funding PnL"
@@ -635,6 +946,23 @@ export default function Home() {
                 />
               );
             })()}
+            {strategyPnl && (
+              <MetricCard
+                label="Total Strategy PnL"
+                value={`$${formatCurrency(strategyPnl.total)}`}
+                subValue={
+                  <span className="flex flex-col">
+                    <span>${formatCurrency(strategyPnl.carry)} carry</span>
+                    <span className={strategyPnl.basis >= 0 ? "text-primary" : "text-destructive"}>
+                      {strategyPnl.basis >= 0 ? "+" : "−"} ${formatCurrency(Math.abs(strategyPnl.basis))} basis & MTM
+                    </span>
+                  </span>
+                }
+                trend={strategyPnl.total >= 0 ? "up" : "down"}
+                icon={<Activity className="w-5 h-5" />}
+                delay={1}
+              />
+            )}
             <MetricCard
               label={
                 <TooltipProvider delayDuration={100}>
@@ -703,23 +1031,30 @@ export default function Home() {
                   : "—"
               }
               subValue={
-                apyChange !== null ? (
-                  <span
-                    className={`flex items-center gap-1 ${
-                      apyChange > 0
-                        ? "text-primary"
-                        : apyChange < 0
-                        ? "text-destructive"
-                        : "text-muted-foreground"
-                    }`}
-                  >
-                    {apyChange > 0 ? "▲" : apyChange < 0 ? "▼" : "–"}{" "}
-                    {apyChange >= 0 ? "+" : ""}
-                    {apyChange.toFixed(1)}% vs prev
-                  </span>
-                ) : (
-                  "Annualized return"
-                )
+                <span className="flex flex-col">
+                  {apyChange !== null ? (
+                    <span
+                      className={`flex items-center gap-1 ${
+                        apyChange > 0
+                          ? "text-primary"
+                          : apyChange < 0
+                          ? "text-destructive"
+                          : "text-muted-foreground"
+                      }`}
+                    >
+                      {apyChange > 0 ? "▲" : apyChange < 0 ? "▼" : "–"}{" "}
+                      {apyChange >= 0 ? "+" : ""}
+                      {apyChange.toFixed(1)}% vs prev
+                    </span>
+                  ) : (
+                    <span>Annualized return</span>
+                  )}
+                  {xirr !== null && (
+                    <span title="Money-weighted return (XIRR) including deposits and withdrawals">
+                      XIRR {xirr.toFixed(2)}%
+                    </span>
+                  )}
+                </span>
               }
               trend={
                 apyChange !== null
@@ -749,7 +1084,7 @@ export default function Home() {
             />
             <MetricCard
               label="Open Positions"
-              value={data.positions.length.toString()}
+              value={positions.length.toString()}
               subValue="Active markets"
               trend="neutral"
               icon={<RefreshCw className="w-5 h-5" />}
@@ -766,7 +1101,17 @@ export default function Home() {
               transition={{ delay: 0.4 }}
               className="lg:col-span-2 h-[450px]"
             >
-              <PnLCharts data={data.dailyMetrics} timeframe={timeframe} />
+              <PnLCharts
+                data={data.dailyMetrics}
+                timeframe={effectiveTimeframe}
+                accounts={data.accounts}
+                capitalFlows={capitalFlows}
+                periodEndTs={range?.toTs}
+                previousPeriod={previousPeriod}
+                benchmarks={benchmarks}
+                activeTab={view.tab}
+                onTabChange={(tab) => setView({ tab })}
+              />
             </motion.div>
 
             {/* Quick Stats / Info - 1/3 width */}
@@ -913,15 +1258,86 @@ export default function Home() {
             </motion.div>
           </div>
 
+          {/* Delta Monitor - live perp vs spot hedge per market */}
+          {marketDeltas.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.55 }}
+            >
+              <DeltaMonitor deltas={marketDeltas} />
+            </motion.div>
+          )}
+
+          {/* Liquidation Risk - estimated liq prices and price-shock scenarios */}
+          {marginModel && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.57 }}
+            >
+              <MarginStressPanel model={marginModel} />
+            </motion.div>
+          )}
+
           {/* Positions Table - Full Width */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.6 }}
           >
-            <PositionsTable positions={data.positions} />
+            <PositionsTable
+              positions={positions}
+              accountLabel={isPortfolioMode ? "Wallet" : "Sub-account"}
+              expandedMarkets={view.expanded}
+              onExpandedChange={(expanded) => setView({ expanded })}
+            />
           </motion.div>
+
+          {previousPeriod && previousPeriod.markets.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.62 }}
+            >
+              <PeriodComparisonTable markets={previousPeriod.markets} />
+            </motion.div>
+          )}
+
+          {data.fills && data.fills.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.65 }}
+            >
+              <FillsLedger
+                fills={data.fills}
+                accountLabels={
+                  data.accounts && new Map(data.accounts.map((a) => [a.account, a.label]))
+                }
+              />
+            </motion.div>
+          )}
           </>
+        ) : isPortfolioMode && !selectedPortfolio ? (
+          <div className="flex flex-col items-center justify-center min-h-[40vh] text-center p-4">
+            <div className="p-4 rounded-full bg-muted text-muted-foreground mb-4">
+              <Briefcase className="w-10 h-10" />
+            </div>
+            <h2 className="text-xl font-bold mb-2">
+              {portfolios.length > 0 ? "Select a portfolio" : "Create a portfolio"}
+            </h2>
+            <p className="text-muted-foreground mb-6 max-w-md text-sm">
+              A portfolio combines the funding history of several labelled wallets into one
+              dashboard, with each wallet&apos;s contribution per market.
+            </p>
+            <Button
+              onClick={() => setPortfolioEditor({ portfolio: null })}
+              className="bg-primary hover:bg-primary/90"
+            >
+              New Portfolio
+            </Button>
+          </div>
         ) : !isError ? (
           <div className="flex flex-col items-center justify-center min-h-[40vh] text-center p-4">
             <div className="p-4 rounded-full bg-muted text-muted-foreground mb-4">
@@ -930,12 +1346,15 @@ export default function Home() {
             <h2 className="text-xl font-bold mb-2">No strategy data found</h2>
             <p className="text-muted-foreground mb-6 max-w-md text-sm">
               We couldn&apos;t find any funding payment records for &quot;
-              {walletKey === MOCK_ACCOUNT_KEY ? MOCK_ACCOUNT_DISPLAY : walletKey}
+              {isPortfolioMode && selectedPortfolio
+                ? selectedPortfolio.name
+                : walletKey === MOCK_ACCOUNT_KEY ? MOCK_ACCOUNT_DISPLAY : walletKey}
               &quot;. Try a different wallet address or load demo data.
             </p>
             <Button
               onClick={() => {
-                setWalletKey(MOCK_ACCOUNT_KEY);
+                setLookupMode("account");
+                openWallet(null, "account");
                 setInputValue(MOCK_ACCOUNT_DISPLAY);
                 setHasClearedDefault(false);
               }}
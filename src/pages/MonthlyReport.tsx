@@ -0,0 +1,435 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowLeft, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useMultiAccountStrategy, type LabelledAccount } from "@/hooks/use-multi-account-strategy";
+import { useTimeZone } from "@/hooks/use-timezone";
+import { getMonthRange, getRangeDays, getRangeTimeframe, type DateRange } from "@/types/loading-types";
+import { buildMonthlyReport, type ReportComparisonRow, type ReportDay } from "../../shared/monthly-report";
+import { getMetricStartTs } from "../../shared/export";
+import { getZonedParts } from "../../shared/timezone";
+
+const NO_ACCOUNTS: LabelledAccount[] = [];
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+/**
+ * "YYYY-MM" → year and month (1-12), or null
+ */
+function parseMonth(value: string | null): { year: number; month: number } | null {
+  const match = value?.match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? { year: Number(match[1]), month } : null;
+}
+
+/**
+ * Month range in the display timezone; the current month ends now, so its APY
+ * covers the days that have data
+ */
+function getReportRange(year: number, month: number, timeZone?: string): DateRange {
+  const range = getMonthRange(year, month, timeZone);
+  return { ...range, toTs: Math.min(range.toTs, Math.floor(Date.now() / 1000) + 1) };
+}
+
+const formatUsd = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+
+const formatPct = (value: number | null) => (value === null ? "—" : `${value.toFixed(2)}%`);
+
+const pnlClass = (value: number) => (value >= 0 ? "text-primary" : "text-destructive");
+
+function formatComparisonValue(row: ReportComparisonRow, value: number | null): string {
+  if (value === null) return "—";
+  return row.unit === "usd" ? formatUsd(value) : formatPct(value);
+}
+
+/**
+ * Change vs the previous month: USD rows as % change, % rows in percentage points
+ */
+function formatChange(row: ReportComparisonRow): { text: string; value: number } | null {
+  if (row.current === null || row.previous === null) return null;
+  if (row.unit === "pct") {
+    const diff = row.current - row.previous;
+    return { text: `${diff >= 0 ? "+" : ""}${diff.toFixed(2)} pp`, value: diff };
+  }
+  if (row.previous === 0) return null;
+  const pct = ((row.current - row.previous) / Math.abs(row.previous)) * 100;
+  return { text: `${pct >= 0 ? "+" : ""}${pct.toFixed(1)}%`, value: pct };
+}
+
+function ReportSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-2xl border border-border bg-card overflow-hidden break-inside-avoid">
+      <div className="px-6 py-4 border-b border-border">
+        <h3 className="text-base font-medium">{title}</h3>
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function HeadlineStat({ label, value, sub, valueClass }: { label: string; value: string; sub?: string; valueClass?: string }) {
+  return (
+    <div className="rounded-2xl border border-border bg-card p-5 break-inside-avoid">
+      <p className="text-xs text-muted-foreground uppercase tracking-wider">{label}</p>
+      <p className={cn("text-2xl font-bold font-mono mt-2", valueClass)}>{value}</p>
+      {sub && <p className="text-xs text-muted-foreground mt-1">{sub}</p>}
+    </div>
+  );
+}
+
+/**
+ * Printable monthly performance report for one wallet (/report?wallet=&month=YYYY-MM)
+ */
+export default function MonthlyReport() {
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const timeZone = useTimeZone();
+  const params = useMemo(() => new URLSearchParams(search), [search]);
+  const wallet = params.get("wallet")?.trim() ?? "";
+
+  // Defaults to last month in the display timezone
+  const now = getZonedParts(Date.now() / 1000, timeZone);
+  const currentMonth = `${now.year}-${pad(now.month)}`;
+  const defaultMonth =
+    now.month === 1 ? `${now.year - 1}-12` : `${now.year}-${pad(now.month - 1)}`;
+  const monthParam = params.get("month") ?? defaultMonth;
+  const parsedMonth = parseMonth(monthParam);
+  const year = parsedMonth?.year;
+  const month = parsedMonth?.month;
+  const [walletInput, setWalletInput] = useState(wallet);
+
+  const range = useMemo(
+    () => (year && month ? getReportRange(year, month, timeZone) : undefined),
+    [year, month, timeZone]
+  );
+  const previousRange = useMemo(
+    () => (year && month ? getMonthRange(year, month - 1, timeZone) : undefined),
+    [year, month, timeZone]
+  );
+
+  const accounts = useMemo<LabelledAccount[]>(
+    () => (wallet && range ? [{ address: wallet, label: wallet }] : NO_ACCOUNTS),
+    [wallet, range]
+  );
+  const current = useMultiAccountStrategy(
+    wallet,
+    accounts,
+    range ? getRangeTimeframe(range) : "30D",
+    range
+  );
+  const previous = useMultiAccountStrategy(
+    wallet,
+    accounts,
+    previousRange ? getRangeTimeframe(previousRange) : "30D",
+    previousRange
+  );
+
+  const report = useMemo(() => {
+    if (!current.data || !range || !previousRange) return null;
+    return buildMonthlyReport(
+      current.data,
+      getRangeDays(range),
+      previous.data,
+      getRangeDays(previousRange)
+    );
+  }, [current.data, previous.data, range, previousRange]);
+
+  const chartData = useMemo(() => {
+    if (!current.data) return [];
+    const dayFormat = new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", timeZone });
+    return current.data.dailyMetrics
+      .map((m) => ({ ts: getMetricStartTs(m.date, timeZone), cumulative: Number(m.cumulativePnl) }))
+      .sort((a, b) => a.ts - b.ts)
+      .map((d) => ({ ...d, label: dayFormat.format(new Date(d.ts * 1000)) }));
+  }, [current.data, timeZone]);
+
+  const monthLabel =
+    year && month
+      ? new Intl.DateTimeFormat("en-US", { month: "long", year: "numeric", timeZone: "UTC" }).format(
+          new Date(Date.UTC(year, month - 1, 1))
+        )
+      : "";
+
+  const formatDay = (day: ReportDay) =>
+    new Intl.DateTimeFormat("en-US", { weekday: "short", month: "short", day: "numeric", timeZone }).format(
+      new Date(getMetricStartTs(day.date, timeZone) * 1000)
+    );
+
+  const updateParams = (next: { wallet?: string; month?: string }) => {
+    const query = new URLSearchParams({
+      wallet: next.wallet ?? wallet,
+      month: next.month ?? monthParam,
+    });
+    setLocation(`/report?${query.toString()}`, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 print:pb-0">
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6 print:max-w-none print:p-0">
+        {/* Controls - not printed */}
+        <div className="flex flex-wrap items-end gap-3 print:hidden">
+          <Link
+            href={wallet ? `/wallet/${encodeURIComponent(wallet)}` : "/"}
+            className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground mr-auto"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Link>
+          <form
+            className="flex items-end gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateParams({ wallet: walletInput.trim() });
+            }}
+          >
+            <label className="text-xs text-muted-foreground">
+              Wallet
+              <Input
+                value={walletInput}
+                onChange={(e) => setWalletInput(e.target.value)}
+                placeholder="Drift account address"
+                className="mt-1 h-9 w-80 font-mono text-xs"
+              />
+            </label>
+            <Button type="submit" variant="outline" size="sm" className="h-9">
+              Load
+            </Button>
+          </form>
+          <label className="text-xs text-muted-foreground">
+            Month
+            <Input
+              type="month"
+              value={monthParam}
+              max={currentMonth}
+              onChange={(e) => e.target.value && updateParams({ month: e.target.value })}
+              className="mt-1 h-9 w-40 text-xs"
+            />
+          </label>
+          <Button size="sm" className="h-9" disabled={!report} onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print / Save PDF
+          </Button>
+        </div>
+
+        {!wallet ? (
+          <p className="text-sm text-muted-foreground py-20 text-center">
+            Enter a wallet address to build its monthly report.
+          </p>
+        ) : !parsedMonth ? (
+          <p className="text-sm text-destructive py-20 text-center">Invalid month.</p>
+        ) : current.isError ? (
+          <p className="text-sm text-destructive py-20 text-center">
+            {current.error?.message ?? "Failed to load funding data."}
+          </p>
+        ) : !report ? (
+          current.isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-20 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading {monthLabel}…
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground py-20 text-center">
+              No funding payments in {monthLabel}.
+            </p>
+          )
+        ) : (
+          <>
+            <header className="flex flex-wrap justify-between items-end gap-4 border-b border-border pb-4">
+              <div>
+                <p className="text-xs text-muted-foreground uppercase tracking-wider">
+                  Perp<span className="text-primary">Lens</span> monthly report
+                </p>
+                <h1 className="text-3xl font-bold mt-1">{monthLabel}</h1>
+                <p className="text-xs text-muted-foreground font-mono mt-1 break-all">{wallet}</p>
+              </div>
+              <p className="text-xs text-muted-foreground text-right">
+                {timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone} · generated{" "}
+                {new Date().toLocaleDateString("en-US", { dateStyle: "medium" })}
+              </p>
+            </header>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 print:grid-cols-4">
+              <HeadlineStat
+                label="Net PnL"
+                value={formatUsd(report.summary.netPnl)}
+                sub={`${formatUsd(report.summary.carryPnl)} carry`}
+                valueClass={pnlClass(report.summary.netPnl)}
+              />
+              <HeadlineStat
+                label="Funding PnL"
+                value={formatUsd(report.summary.fundingPnl)}
+                sub={`${report.summary.activeDays} active days`}
+                valueClass={pnlClass(report.summary.fundingPnl)}
+              />
+              <HeadlineStat
+                label="APY"
+                value={formatPct(report.summary.apy)}
+                sub={`ROI ${formatPct(report.summary.roi)}`}
+              />
+              <HeadlineStat
+                label="Avg notional"
+                value={formatUsd(report.summary.avgNotional)}
+                sub={`${report.summary.markets} markets`}
+              />
+            </div>
+
+            <ReportSection title="Cumulative PnL">
+              <div className="h-[260px] p-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#2a2a2d" vertical={false} />
+                    <XAxis
+                      dataKey="label"
+                      stroke="#52525b"
+                      tick={{ fontSize: 11 }}
+                      tickLine={false}
+                      axisLine={false}
+                      minTickGap={24}
+                    />
+                    <YAxis
+                      stroke="#52525b"
+                      tick={{ fontSize: 11 }}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => `$${value}`}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="cumulative"
+                      stroke="#27d388"
+                      strokeWidth={2}
+                      fill="#27d388"
+                      fillOpacity={0.2}
+                      isAnimationActive={false}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </ReportSection>
+
+            <ReportSection title="Markets">
+              <Table>
+                <TableHeader className="bg-muted/30">
+                  <TableRow className="hover:bg-transparent border-border">
+                    <TableHead className="text-xs uppercase tracking-wider">Market</TableHead>
+                    <TableHead className="text-xs uppercase tracking-wider text-right">Funding</TableHead>
+                    <TableHead className="text-xs uppercase tracking-wider text-right">Interest</TableHead>
+                    <TableHead className="text-xs uppercase tracking-wider text-right">Net PnL</TableHead>
+                    <TableHead className="text-xs uppercase tracking-wider text-right">Avg Notional</TableHead>
+                    <TableHead className="text-xs uppercase tracking-wider text-right">APY</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.markets.map((m) => (
+                    <TableRow key={m.market} className="border-border/50 break-inside-avoid">
+                      <TableCell className="font-mono font-medium">{m.market}</TableCell>
+                      <TableCell className="text-right font-mono">{formatUsd(m.fundingPnl)}</TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">
+                        {m.interestPnl !== 0 ? formatUsd(m.interestPnl) : "—"}
+                      </TableCell>
+                      <TableCell className={cn("text-right font-mono font-medium", pnlClass(m.netPnl))}>
+                        {formatUsd(m.netPnl)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">
+                        {m.avgNotional > 0 ? formatUsd(m.avgNotional) : "—"}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatPct(m.apy)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ReportSection>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 print:grid-cols-2">
+              {([
+                ["Best days", report.bestDays],
+                ["Worst days", report.worstDays],
+              ] as const).map(([title, days]) => (
+                <ReportSection key={title} title={title}>
+                  <div className="divide-y divide-border/50">
+                    {days.length === 0 ? (
+                      <p className="px-6 py-4 text-sm text-muted-foreground">—</p>
+                    ) : (
+                      days.map((day) => (
+                        <div key={String(day.date)} className="flex justify-between px-6 py-3 text-sm">
+                          <span>{formatDay(day)}</span>
+                          <span className={cn("font-mono font-medium", pnlClass(day.pnl))}>
+                            {formatUsd(day.pnl)}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </ReportSection>
+              ))}
+            </div>
+
+            <ReportSection title="Month over month">
+              <Table>
+                <TableHeader className="bg-muted/30">
+                  <TableRow className="hover:bg-transparent border-border">
+                    <TableHead className="text-xs uppercase tracking-wider" />
+                    <TableHead className="text-xs uppercase tracking-wider text-right">{monthLabel}</TableHead>
+                    <TableHead className="text-xs uppercase tracking-wider text-right">Previous month</TableHead>
+                    <TableHead className="text-xs uppercase tracking-wider text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.comparison.map((row) => {
+                    const change = formatChange(row);
+                    return (
+                      <TableRow key={row.label} className="border-border/50">
+                        <TableCell className="font-medium">{row.label}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatComparisonValue(row, row.current)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-muted-foreground">
+                          {previous.isLoading && !previous.data
+                            ? "…"
+                            : formatComparisonValue(row, row.previous)}
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-right font-mono",
+                            change ? pnlClass(change.value) : "text-muted-foreground"
+                          )}
+                        >
+                          {change?.text ?? "—"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ReportSection>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { MetricCard } from "@/components/MetricCard";
 import { Badge } from "@/components/ui/badge";
@@ -14,23 +14,44 @@ import {
 } from "@/components/ui/table";
 import { SortableHeader } from "@/components/SortableHeader";
 import { useTableControls } from "@/hooks/use-table-controls";
+import { useWatchlist } from "@/hooks/use-watchlist";
 import { getDriftIconUrl } from "@/lib/drift-icons";
-import { TrendingUp, BarChart3, Activity, ExternalLink, Loader2, RefreshCw, Search } from "lucide-react";
+import { TrendingUp, BarChart3, Activity, ExternalLink, Loader2, RefreshCw, Search, Star } from "lucide-react";
 import { motion } from "framer-motion";
 import { fetchDeltaNeutralAPYs, fetchFundingRates } from "@/services/yield-api";
-import type { DeltaNeutralRow, FundingRateRow } from "../../shared/yield-types";
+import type { DeltaNeutralRow, FundingRateRow, PerpLiquidity } from "../../shared/yield-types";
 
 // ---------------------------------------------------------------------------
 // Sort key types
 // ---------------------------------------------------------------------------
 
-type AllPerpsSortKey = "asset" | "fundingHour" | "fundingYear";
-type DeltaNeutralSortKey = "asset" | "fundingYear" | "spotApy" | "netApy";
+type LiquiditySortKey = "openInterest" | "volume" | "depth";
+type AllPerpsSortKey = "asset" | "fundingHour" | "fundingYear" | "twapSpread" | "nextFunding" | LiquiditySortKey;
+type DeltaNeutralSortKey = "asset" | "fundingYear" | "spotApy" | "netApy" | LiquiditySortKey;
+type WatchlistSortKey = "asset" | "fundingHour" | "fundingYear" | "lendingApy" | "netApy";
+
+/** A pinned market with its All Perps and Funding Arb figures; null where a source has no row */
+interface WatchlistRow {
+  symbol: string;
+  fundingRateHourPct: number | null;
+  fundingRateYearPct: number | null;
+  lendingApyPct: number | null;
+  deltaNeutralApyPct: number | null;
+}
+
+const liquidityExtractors: Record<LiquiditySortKey, (r: PerpLiquidity) => number> = {
+  openInterest: (r) => r.openInterestLongUsd + r.openInterestShortUsd,
+  volume: (r) => r.volume24hUsd,
+  depth: (r) => r.ammDepthUsd,
+};
 
 const allPerpsExtractors: Record<AllPerpsSortKey, (r: FundingRateRow) => number | string> = {
   asset: (r) => r.symbol,
   fundingHour: (r) => r.fundingRateHourPct,
   fundingYear: (r) => r.fundingRateYearPct,
+  twapSpread: (r) => r.twapSpreadPct,
+  nextFunding: (r) => r.nextFundingTs,
+  ...liquidityExtractors,
 };
 
 const fundingArbExtractors: Record<DeltaNeutralSortKey, (r: DeltaNeutralRow) => number | string> = {
@@ -38,6 +59,7 @@ const fundingArbExtractors: Record<DeltaNeutralSortKey, (r: DeltaNeutralRow) =>
   fundingYear: (r) => r.fundingRateYearPct,
   spotApy: (r) => r.lendingApyPct,
   netApy: (r) => r.deltaNeutralApyPct,
+  ...liquidityExtractors,
 };
 
 const reverseArbExtractors: Record<DeltaNeutralSortKey, (r: DeltaNeutralRow) => number | string> = {
@@ -45,8 +67,41 @@ const reverseArbExtractors: Record<DeltaNeutralSortKey, (r: DeltaNeutralRow) =>
   fundingYear: (r) => r.fundingRateYearPct,
   spotApy: (r) => r.borrowingRatePct ?? 0,
   netApy: (r) => -r.fundingRateYearPct - (r.borrowingRatePct ?? 0),
+  ...liquidityExtractors,
+};
+
+/** Minimum 24h volume options for the liquidity filter (USD, 0 = off) */
+const MIN_LIQUIDITY_OPTIONS = [0, 100_000, 1_000_000, 10_000_000];
+
+const formatSignedPct = (val: number, digits: number) => `${val >= 0 ? "+" : ""}${val.toFixed(digits)}%`;
+
+const formatTwapPrice = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumSignificantDigits: 6,
+  }).format(val);
+
+const formatCompactUsd = (val: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(val);
+
+const watchlistExtractors: Record<WatchlistSortKey, (r: WatchlistRow) => number | string> = {
+  asset: (r) => r.symbol,
+  fundingHour: (r) => r.fundingRateHourPct ?? -Infinity,
+  fundingYear: (r) => r.fundingRateYearPct ?? -Infinity,
+  lendingApy: (r) => r.lendingApyPct ?? -Infinity,
+  netApy: (r) => r.deltaNeutralApyPct ?? -Infinity,
 };
 
+// Search extractors live outside the component so table rows don't re-sort on every render
+const searchBySymbol = (r: { symbol: string }) => r.symbol;
+const searchByPair = (r: DeltaNeutralRow) => `${r.perpSymbol} ${r.spotSymbol}`;
+
 function perpSymbolToBase(perpSymbol: string): string {
   return perpSymbol.replace(/-PERP$/, "");
 }
@@ -59,10 +114,14 @@ function AllPerpsTable({
   rows,
   sortConfig,
   toggleSort,
+  isPinned,
+  onTogglePin,
 }: {
   rows: FundingRateRow[];
   sortConfig: { key: AllPerpsSortKey; direction: "asc" | "desc" };
   toggleSort: (key: AllPerpsSortKey) => void;
+  isPinned: (symbol: string) => boolean;
+  onTogglePin: (symbol: string) => void;
 }) {
   const bestIdx = useMemo(() => {
     if (rows.length === 0) return -1;
@@ -73,10 +132,18 @@ function AllPerpsTable({
     return best;
   }, [rows]);
 
+  // One ticker for every row's funding countdown
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   return (
     <Table>
       <TableHeader className="bg-muted/30">
         <TableRow className="hover:bg-transparent border-border">
+          <TableHead className="w-10" />
           <SortableHeader<AllPerpsSortKey>
             label="Asset"
             sortKey="asset"
@@ -86,7 +153,7 @@ function AllPerpsTable({
             align="left"
           />
           <SortableHeader<AllPerpsSortKey>
-            label="Funding Rate (1h)"
+            label="Predicted Funding (1h)"
             sortKey="fundingHour"
             activeSortKey={sortConfig.key}
             activeDirection={sortConfig.direction}
@@ -103,6 +170,25 @@ function AllPerpsTable({
             className="text-right"
             align="right"
           />
+          <SortableHeader<AllPerpsSortKey>
+            label="Next Funding"
+            sortKey="nextFunding"
+            activeSortKey={sortConfig.key}
+            activeDirection={sortConfig.direction}
+            onSort={toggleSort}
+            className="text-right"
+            align="right"
+          />
+          <SortableHeader<AllPerpsSortKey>
+            label="Mark/Oracle TWAP"
+            sortKey="twapSpread"
+            activeSortKey={sortConfig.key}
+            activeDirection={sortConfig.direction}
+            onSort={toggleSort}
+            className="text-right"
+            align="right"
+          />
+          <LiquidityHeaders<AllPerpsSortKey> sortConfig={sortConfig} toggleSort={toggleSort} />
           <TableHead className="text-right font-semibold text-muted-foreground text-xs uppercase tracking-wider">Volatility</TableHead>
           <TableHead className="text-center font-semibold text-muted-foreground text-xs uppercase tracking-wider w-[100px]">Action</TableHead>
         </TableRow>
@@ -110,6 +196,9 @@ function AllPerpsTable({
       <TableBody>
         {rows.map((row, idx) => (
           <TableRow key={row.symbol} className="border-border/50 hover:bg-muted/30 transition-colors">
+            <TableCell className="pr-0">
+              <PinButton symbol={row.symbol} pinned={isPinned(row.symbol)} onToggle={onTogglePin} />
+            </TableCell>
             <TableCell className="font-medium font-mono">
               <div className="flex items-center gap-2">
                 <AssetIcon symbol={row.symbol} />
@@ -120,9 +209,20 @@ function AllPerpsTable({
               </div>
             </TableCell>
             <TableCell className="text-right font-mono text-end">
-              <span className={row.fundingRateHourPct >= 0 ? "text-primary" : "text-destructive"}>
-                {row.fundingRateHourPct >= 0 ? "+" : ""}{row.fundingRateHourPct.toFixed(4)}%
-              </span>
+              <div className="space-y-0.5 inline-block text-end">
+                <div className={row.fundingRateHourPct >= 0 ? "text-primary" : "text-destructive"}>
+                  {formatSignedPct(row.fundingRateHourPct, 4)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  last {formatSignedPct(row.lastFundingRateHourPct, 4)}
+                </div>
+                {/* Longs get a different rate when the fee pool caps the smaller side's payment */}
+                {Math.abs(row.fundingRateLongHourPct + row.fundingRateHourPct) > 1e-6 && (
+                  <div className="text-xs text-muted-foreground">
+                    longs {formatSignedPct(row.fundingRateLongHourPct, 4)}
+                  </div>
+                )}
+              </div>
             </TableCell>
             <TableCell className="text-right font-mono text-end">
               <span className={`font-bold ${
@@ -131,6 +231,31 @@ function AllPerpsTable({
                 {row.fundingRateYearPct >= 0 ? "+" : ""}{row.fundingRateYearPct.toFixed(2)}%
               </span>
             </TableCell>
+            <TableCell className="text-right font-mono text-end">
+              <FundingCountdown nextFundingTs={row.nextFundingTs} now={now} />
+            </TableCell>
+            <TableCell className="text-right font-mono text-end">
+              <div className="space-y-0.5 inline-block text-end">
+                <div className="flex items-center justify-end gap-1.5">
+                  {row.isFundingCapped && (
+                    <Badge
+                      variant="outline"
+                      className="font-mono text-[10px] px-1.5 py-0 text-orange-400 border-orange-600/30"
+                      title={`Funding clamped at ±${row.fundingCapHourPct.toFixed(4)}% per hour`}
+                    >
+                      CAPPED
+                    </Badge>
+                  )}
+                  <span className={row.twapSpreadPct >= 0 ? "text-primary" : "text-destructive"}>
+                    {formatSignedPct(row.twapSpreadPct, 3)}
+                  </span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatTwapPrice(row.markTwap)} / {formatTwapPrice(row.oracleTwap)}
+                </div>
+              </div>
+            </TableCell>
+            <LiquidityCells row={row} />
             <TableCell className="text-right text-muted-foreground text-xs">
               —
             </TableCell>
@@ -149,11 +274,15 @@ function DeltaNeutralTable({
   mode,
   sortConfig,
   toggleSort,
+  isPinned,
+  onTogglePin,
 }: {
   rows: DeltaNeutralRow[];
   mode: "funding-arb" | "reverse-arb";
   sortConfig: { key: DeltaNeutralSortKey; direction: "asc" | "desc" };
   toggleSort: (key: DeltaNeutralSortKey) => void;
+  isPinned: (symbol: string) => boolean;
+  onTogglePin: (symbol: string) => void;
 }) {
   const getNetApy = (row: DeltaNeutralRow) =>
     mode === "funding-arb"
@@ -174,6 +303,7 @@ function DeltaNeutralTable({
     <Table>
       <TableHeader className="bg-muted/30">
         <TableRow className="hover:bg-transparent border-border">
+          <TableHead className="w-10" />
           <SortableHeader<DeltaNeutralSortKey>
             label="Asset"
             sortKey="asset"
@@ -209,6 +339,7 @@ function DeltaNeutralTable({
             className="text-right"
             align="right"
           />
+          <LiquidityHeaders<DeltaNeutralSortKey> sortConfig={sortConfig} toggleSort={toggleSort} />
           <TableHead className="text-right font-semibold text-muted-foreground text-xs uppercase tracking-wider">Volatility</TableHead>
           <TableHead className="text-center font-semibold text-muted-foreground text-xs uppercase tracking-wider w-[100px]">Action</TableHead>
         </TableRow>
@@ -221,6 +352,9 @@ function DeltaNeutralTable({
 
           return (
             <TableRow key={row.perpSymbol} className="border-border/50 hover:bg-muted/30 transition-colors">
+              <TableCell className="pr-0">
+                <PinButton symbol={row.perpSymbol} pinned={isPinned(row.perpSymbol)} onToggle={onTogglePin} />
+              </TableCell>
               <TableCell className="font-medium font-mono">
                 <div className="flex items-center gap-2">
                   <AssetIcon symbol={row.perpSymbol} />
@@ -252,6 +386,7 @@ function DeltaNeutralTable({
                   {netApy >= 0 ? "+" : ""}{netApy.toFixed(1)}%
                 </span>
               </TableCell>
+              <LiquidityCells row={row} />
               <TableCell className="text-right text-muted-foreground text-xs">
                 —
               </TableCell>
@@ -266,6 +401,222 @@ function DeltaNeutralTable({
   );
 }
 
+/**
+ * Time until the next funding update, from the table's per-second ticker. Past the update
+ * time the row shows "Due" until a keeper settles it and the rates refetch.
+ */
+function FundingCountdown({ nextFundingTs, now }: { nextFundingTs: number; now: number }) {
+  const remaining = nextFundingTs - now;
+  if (remaining <= 0) return <span className="text-orange-400">Due</span>;
+  const minutes = Math.floor(remaining / 60);
+  const seconds = remaining % 60;
+  return (
+    <span className={remaining < 5 * 60 ? "text-foreground" : "text-muted-foreground"}>
+      {minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m ${seconds.toString().padStart(2, "0")}s`}
+    </span>
+  );
+}
+
+function LiquidityHeaders<K extends string>({
+  sortConfig,
+  toggleSort,
+}: {
+  sortConfig: { key: K; direction: "asc" | "desc" };
+  toggleSort: (key: K) => void;
+}) {
+  const columns: { label: string; sortKey: LiquiditySortKey }[] = [
+    { label: "Open Interest", sortKey: "openInterest" },
+    { label: "24h Volume", sortKey: "volume" },
+    { label: "AMM Depth ±1%", sortKey: "depth" },
+  ];
+  return (
+    <>
+      {columns.map((column) => (
+        <SortableHeader<K>
+          key={column.sortKey}
+          label={column.label}
+          sortKey={column.sortKey as K}
+          activeSortKey={sortConfig.key}
+          activeDirection={sortConfig.direction}
+          onSort={toggleSort}
+          className="text-right"
+          align="right"
+        />
+      ))}
+    </>
+  );
+}
+
+function LiquidityCells({ row }: { row: PerpLiquidity }) {
+  return (
+    <>
+      <TableCell className="text-right font-mono text-end">
+        <div className="space-y-0.5 inline-block text-end">
+          <div>{formatCompactUsd(row.openInterestLongUsd + row.openInterestShortUsd)}</div>
+          <div className="text-xs">
+            <span className="text-primary/70">L {formatCompactUsd(row.openInterestLongUsd)}</span>
+            <span className="text-muted-foreground mx-1">/</span>
+            <span className="text-destructive/70">S {formatCompactUsd(row.openInterestShortUsd)}</span>
+          </div>
+        </div>
+      </TableCell>
+      <TableCell className="text-right font-mono text-end">{formatCompactUsd(row.volume24hUsd)}</TableCell>
+      <TableCell className="text-right font-mono text-end text-muted-foreground">
+        {formatCompactUsd(row.ammDepthUsd)}
+      </TableCell>
+    </>
+  );
+}
+
+function WatchlistTable({
+  rows,
+  sortConfig,
+  toggleSort,
+  onTogglePin,
+}: {
+  rows: WatchlistRow[];
+  sortConfig: { key: WatchlistSortKey; direction: "asc" | "desc" };
+  toggleSort: (key: WatchlistSortKey) => void;
+  onTogglePin: (symbol: string) => void;
+}) {
+  const formatPct = (val: number | null, digits: number) =>
+    val === null ? "—" : `${val >= 0 ? "+" : ""}${val.toFixed(digits)}%`;
+  const signClass = (val: number | null) =>
+    val === null ? "text-muted-foreground" : val >= 0 ? "text-primary" : "text-destructive";
+
+  return (
+    <Table>
+      <TableHeader className="bg-muted/30">
+        <TableRow className="hover:bg-transparent border-border">
+          <TableHead className="w-10" />
+          <SortableHeader<WatchlistSortKey>
+            label="Asset"
+            sortKey="asset"
+            activeSortKey={sortConfig.key}
+            activeDirection={sortConfig.direction}
+            onSort={toggleSort}
+            align="left"
+          />
+          <SortableHeader<WatchlistSortKey>
+            label="Funding Rate (1h)"
+            sortKey="fundingHour"
+            activeSortKey={sortConfig.key}
+            activeDirection={sortConfig.direction}
+            onSort={toggleSort}
+            className="text-right"
+            align="right"
+          />
+          <SortableHeader<WatchlistSortKey>
+            label="Funding Rate (APR)"
+            sortKey="fundingYear"
+            activeSortKey={sortConfig.key}
+            activeDirection={sortConfig.direction}
+            onSort={toggleSort}
+            className="text-right"
+            align="right"
+          />
+          <SortableHeader<WatchlistSortKey>
+            label="Lending APY"
+            sortKey="lendingApy"
+            activeSortKey={sortConfig.key}
+            activeDirection={sortConfig.direction}
+            onSort={toggleSort}
+            className="text-right"
+            align="right"
+          />
+          <SortableHeader<WatchlistSortKey>
+            label="Net Strategy APY"
+            sortKey="netApy"
+            activeSortKey={sortConfig.key}
+            activeDirection={sortConfig.direction}
+            onSort={toggleSort}
+            className="text-right"
+            align="right"
+          />
+          <TableHead className="text-center font-semibold text-muted-foreground text-xs uppercase tracking-wider w-[100px]">Action</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.symbol} className="border-border/50 hover:bg-muted/30 transition-colors">
+            <TableCell className="pr-0">
+              <PinButton symbol={row.symbol} pinned onToggle={onTogglePin} />
+            </TableCell>
+            <TableCell className="font-medium font-mono">
+              <div className="flex items-center gap-2">
+                <AssetIcon symbol={row.symbol} />
+                <div>
+                  <span className="font-semibold">{perpSymbolToBase(row.symbol)}</span>
+                  <span className="text-xs text-muted-foreground ml-1">-PERP</span>
+                </div>
+              </div>
+            </TableCell>
+            <TableCell className="text-right font-mono text-end">
+              <span className={signClass(row.fundingRateHourPct)}>{formatPct(row.fundingRateHourPct, 4)}</span>
+            </TableCell>
+            <TableCell className="text-right font-mono text-end">
+              <span className={signClass(row.fundingRateYearPct)}>{formatPct(row.fundingRateYearPct, 2)}</span>
+            </TableCell>
+            <TableCell className="text-right font-mono text-end text-foreground">
+              {row.lendingApyPct !== null ? `${row.lendingApyPct.toFixed(1)}%` : "—"}
+            </TableCell>
+            <TableCell className="text-right font-mono text-end">
+              <span className={`font-bold ${signClass(row.deltaNeutralApyPct)}`}>
+                {formatPct(row.deltaNeutralApyPct, 1)}
+              </span>
+            </TableCell>
+            <TableCell className="text-center">
+              <TradeButton symbol={row.symbol} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function PinButton({
+  symbol,
+  pinned,
+  onToggle,
+}: {
+  symbol: string;
+  pinned: boolean;
+  onToggle: (symbol: string) => void;
+}) {
+  return (
+    <button
+      type="button"
+      className="p-1 rounded-md text-muted-foreground hover:text-foreground transition-colors"
+      onClick={() => onToggle(symbol)}
+      aria-pressed={pinned}
+      aria-label={pinned ? `Unpin ${symbol}` : `Pin ${symbol}`}
+      title={pinned ? "Remove from watchlist" : "Add to watchlist"}
+    >
+      <Star className={`w-4 h-4 ${pinned ? "fill-amber-400 text-amber-400" : ""}`} />
+    </button>
+  );
+}
+
+function MinLiquiditySelect({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+      Min 24h volume
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="h-7 rounded-md bg-muted/50 border border-border px-2 text-xs text-foreground"
+      >
+        {MIN_LIQUIDITY_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {option === 0 ? "Any" : formatCompactUsd(option)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
 function AssetIcon({ symbol }: { symbol: string }) {
   return (
     <div className="relative w-8 h-8 rounded-full bg-muted/50 flex items-center justify-center shrink-0 overflow-hidden">
@@ -304,6 +655,8 @@ export default function YieldScanner() {
     queryKey: ["yield", "funding-rates"],
     queryFn: fetchFundingRates,
     staleTime: 60_000,
+    // Keep predicted funding and the next-update countdown current across funding updates
+    refetchInterval: 60_000,
     retry: (count, err) => {
       const msg = err instanceof Error ? err.message : "";
       if (msg.includes("503") || msg.includes("unavailable") || msg.includes("not running")) return false;
@@ -325,26 +678,70 @@ export default function YieldScanner() {
   const fundingRates = fundingRatesQuery.data ?? [];
   const deltaNeutralRows = deltaNeutralQuery.data ?? [];
 
+  const { watchlist, isPinned, togglePin } = useWatchlist();
+
+  // Markets below the minimum 24h volume are left out of the scanner tabs (pinned ones stay)
+  const [minLiquidity, setMinLiquidity] = useState(0);
+  const liquidFundingRates = useMemo(
+    () => fundingRates.filter((r) => r.volume24hUsd >= minLiquidity || isPinned(r.symbol)),
+    [fundingRates, minLiquidity, isPinned]
+  );
+  const liquidDeltaNeutralRows = useMemo(
+    () => deltaNeutralRows.filter((r) => r.volume24hUsd >= minLiquidity || isPinned(r.perpSymbol)),
+    [deltaNeutralRows, minLiquidity, isPinned]
+  );
+
+  // Pinned markets joined across the funding-rate and delta-neutral rows
+  const watchlistRows = useMemo<WatchlistRow[]>(
+    () =>
+      watchlist.map((symbol) => {
+        const funding = fundingRatesQuery.data?.find((r) => r.symbol === symbol);
+        const deltaNeutral = deltaNeutralQuery.data?.find((r) => r.perpSymbol === symbol);
+        return {
+          symbol,
+          fundingRateHourPct: funding?.fundingRateHourPct ?? null,
+          fundingRateYearPct: funding?.fundingRateYearPct ?? deltaNeutral?.fundingRateYearPct ?? null,
+          lendingApyPct: deltaNeutral?.lendingApyPct ?? null,
+          deltaNeutralApyPct: deltaNeutral?.deltaNeutralApyPct ?? null,
+        };
+      }),
+    [watchlist, fundingRatesQuery.data, deltaNeutralQuery.data]
+  );
+
+  // Pinned rows first; stable predicates so the tables only re-sort when pins change
+  const isPerpPinned = useCallback((r: FundingRateRow) => isPinned(r.symbol), [isPinned]);
+  const isPairPinned = useCallback((r: DeltaNeutralRow) => isPinned(r.perpSymbol), [isPinned]);
+
   // Per-tab sort + search controls
   const allPerpsControls = useTableControls<FundingRateRow, AllPerpsSortKey>({
-    items: fundingRates,
+    items: liquidFundingRates,
     defaultSortKey: "fundingYear",
     valueExtractors: allPerpsExtractors,
-    searchExtractor: (r) => r.symbol,
+    searchExtractor: searchBySymbol,
+    isPinned: isPerpPinned,
   });
 
   const fundingArbControls = useTableControls<DeltaNeutralRow, DeltaNeutralSortKey>({
-    items: deltaNeutralRows,
+    items: liquidDeltaNeutralRows,
     defaultSortKey: "netApy",
     valueExtractors: fundingArbExtractors,
-    searchExtractor: (r) => `${r.perpSymbol} ${r.spotSymbol}`,
+    searchExtractor: searchByPair,
+    isPinned: isPairPinned,
   });
 
   const reverseArbControls = useTableControls<DeltaNeutralRow, DeltaNeutralSortKey>({
-    items: deltaNeutralRows,
+    items: liquidDeltaNeutralRows,
     defaultSortKey: "netApy",
     valueExtractors: reverseArbExtractors,
-    searchExtractor: (r) => `${r.perpSymbol} ${r.spotSymbol}`,
+    searchExtractor: searchByPair,
+    isPinned: isPairPinned,
+  });
+
+  const watchlistControls = useTableControls<WatchlistRow, WatchlistSortKey>({
+    items: watchlistRows,
+    defaultSortKey: "netApy",
+    valueExtractors: watchlistExtractors,
+    searchExtractor: searchBySymbol,
   });
 
   // Summary metrics per tab
@@ -393,6 +790,21 @@ export default function YieldScanner() {
     return { highest, avg: sum / rows.length, profitable, bestLabel };
   }, [reverseArbControls.processedItems]);
 
+  const watchlistMetrics = useMemo(() => {
+    let best: WatchlistRow | null = null;
+    let sum = 0;
+    let count = 0;
+    for (const r of watchlistControls.processedItems) {
+      if (r.deltaNeutralApyPct !== null && (best === null || r.deltaNeutralApyPct > (best.deltaNeutralApyPct ?? -Infinity))) best = r;
+      if (r.fundingRateYearPct !== null) { sum += r.fundingRateYearPct; count++; }
+    }
+    return {
+      highest: best?.deltaNeutralApyPct ?? 0,
+      bestLabel: best?.symbol ?? "—",
+      avg: count > 0 ? sum / count : 0,
+    };
+  }, [watchlistControls.processedItems]);
+
   const isLive = (fundingRatesQuery.data && fundingRatesQuery.data.length > 0) ||
     (deltaNeutralQuery.data && deltaNeutralQuery.data.length > 0);
 
@@ -414,6 +826,9 @@ export default function YieldScanner() {
             <TabsTrigger value="all-perps">All Perps</TabsTrigger>
             <TabsTrigger value="funding-arb">Funding Arb</TabsTrigger>
             <TabsTrigger value="reverse-arb">Reverse Arb</TabsTrigger>
+            <TabsTrigger value="watchlist">
+              Watchlist{watchlist.length > 0 ? ` (${watchlist.length})` : ""}
+            </TabsTrigger>
           </TabsList>
 
           {/* ---- All Perps Tab ---- */}
@@ -453,11 +868,14 @@ export default function YieldScanner() {
               count={allPerpsControls.processedItems.length}
               searchQuery={allPerpsControls.searchQuery}
               setSearchQuery={allPerpsControls.setSearchQuery}
+              toolbar={<MinLiquiditySelect value={minLiquidity} onChange={setMinLiquidity} />}
             >
               <AllPerpsTable
                 rows={allPerpsControls.processedItems}
                 sortConfig={allPerpsControls.sortConfig}
                 toggleSort={allPerpsControls.toggleSort}
+                isPinned={isPinned}
+                onTogglePin={togglePin}
               />
             </TableWrapper>
           </TabsContent>
@@ -498,12 +916,15 @@ export default function YieldScanner() {
               count={fundingArbControls.processedItems.length}
               searchQuery={fundingArbControls.searchQuery}
               setSearchQuery={fundingArbControls.setSearchQuery}
+              toolbar={<MinLiquiditySelect value={minLiquidity} onChange={setMinLiquidity} />}
             >
               <DeltaNeutralTable
                 rows={fundingArbControls.processedItems}
                 mode="funding-arb"
                 sortConfig={fundingArbControls.sortConfig}
                 toggleSort={fundingArbControls.toggleSort}
+                isPinned={isPinned}
+                onTogglePin={togglePin}
               />
             </TableWrapper>
           </TabsContent>
@@ -544,12 +965,69 @@ export default function YieldScanner() {
               count={reverseArbControls.processedItems.length}
               searchQuery={reverseArbControls.searchQuery}
               setSearchQuery={reverseArbControls.setSearchQuery}
+              toolbar={<MinLiquiditySelect value={minLiquidity} onChange={setMinLiquidity} />}
             >
               <DeltaNeutralTable
                 rows={reverseArbControls.processedItems}
                 mode="reverse-arb"
                 sortConfig={reverseArbControls.sortConfig}
                 toggleSort={reverseArbControls.toggleSort}
+                isPinned={isPinned}
+                onTogglePin={togglePin}
+              />
+            </TableWrapper>
+          </TabsContent>
+
+          {/* ---- Watchlist Tab ---- */}
+          <TabsContent value="watchlist" className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+              <MetricCard
+                label="Highest Net Yield"
+                value={`${watchlistMetrics.highest >= 0 ? "+" : ""}${watchlistMetrics.highest.toFixed(1)}%`}
+                subValue={watchlistMetrics.bestLabel}
+                trend={watchlistMetrics.highest >= 0 ? "up" : "down"}
+                icon={<TrendingUp className="w-4 h-4" />}
+                delay={0}
+                highlight
+              />
+              <MetricCard
+                label="Avg Funding Rate (APR)"
+                value={`${watchlistMetrics.avg >= 0 ? "+" : ""}${watchlistMetrics.avg.toFixed(2)}%`}
+                trend={watchlistMetrics.avg >= 0 ? "up" : "down"}
+                icon={<BarChart3 className="w-4 h-4" />}
+                delay={1}
+              />
+              <MetricCard
+                label="Pinned Markets"
+                value={watchlist.length.toString()}
+                trend="neutral"
+                icon={<Star className="w-4 h-4" />}
+                delay={2}
+              />
+            </div>
+
+            <TableWrapper
+              isLoading={fundingRatesQuery.isLoading || deltaNeutralQuery.isLoading}
+              isError={fundingRatesQuery.isError && deltaNeutralQuery.isError}
+              error={fundingRatesQuery.error}
+              refetch={() => {
+                fundingRatesQuery.refetch();
+                deltaNeutralQuery.refetch();
+              }}
+              count={watchlistControls.processedItems.length}
+              searchQuery={watchlistControls.searchQuery}
+              setSearchQuery={watchlistControls.setSearchQuery}
+              emptyMessage={
+                watchlist.length === 0
+                  ? "No pinned markets yet. Star a market on any tab to add it to your watchlist."
+                  : undefined
+              }
+            >
+              <WatchlistTable
+                rows={watchlistControls.processedItems}
+                sortConfig={watchlistControls.sortConfig}
+                toggleSort={watchlistControls.toggleSort}
+                onTogglePin={togglePin}
               />
             </TableWrapper>
           </TabsContent>
@@ -571,6 +1049,8 @@ function TableWrapper({
   count,
   searchQuery,
   setSearchQuery,
+  emptyMessage = "No markets found.",
+  toolbar,
   children,
 }: {
   isLoading: boolean;
@@ -580,6 +1060,8 @@ function TableWrapper({
   count: number;
   searchQuery: string;
   setSearchQuery: (q: string) => void;
+  emptyMessage?: string;
+  toolbar?: React.ReactNode;
   children: React.ReactNode;
 }) {
   return (
@@ -599,9 +1081,12 @@ function TableWrapper({
               onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
-          <Badge variant="outline" className="font-mono text-xs">
-            {count} MARKETS
-          </Badge>
+          <div className="flex items-center gap-3">
+            {toolbar}
+            <Badge variant="outline" className="font-mono text-xs">
+              {count} MARKETS
+            </Badge>
+          </div>
         </div>
 
         {isLoading && (
@@ -623,7 +1108,7 @@ function TableWrapper({
 
         {!isLoading && !isError && count === 0 && (
           <div className="py-12 text-center text-muted-foreground text-sm">
-            No markets found.
+            {emptyMessage}
           </div>
         )}
 
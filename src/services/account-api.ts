@@ -0,0 +1,23 @@
+/**
+ * Sub-account discovery client. Fetches from same-origin /api/accounts/:authority
+ * (server enumerates the authority's Drift user accounts via the SDK).
+ */
+
+import { apiGet } from "./api-client";
+import { api, buildUrl } from "../../shared/routes";
+import type { DriftSubAccount, SubAccountsResponse } from "../../shared/drift-types";
+
+export async function fetchSubAccounts(authority: string): Promise<SubAccountsResponse> {
+  return apiGet<SubAccountsResponse>(
+    buildUrl(api.accounts.getByAuthority.path, { authority }),
+    "Sub-account discovery unavailable (server not running)"
+  );
+}
+
+/**
+ * Display label for a sub-account: "#0 Main", or "#3" when unnamed.
+ */
+export function getSubAccountLabel(account: DriftSubAccount): string {
+  const name = account.name.trim();
+  return name ? `#${account.subAccountId} ${name}` : `#${account.subAccountId}`;
+}
@@ -0,0 +1,36 @@
+/**
+ * Funding payments valued at payment time for the accounting export
+ * The candles API returns at most 1000 candles per request: hourly candles are fetched for the
+ * last 1000 hours (one request per market), and older payments use daily candles, which are
+ * paged back to the oldest record.
+ */
+
+import { fetchMultipleCandlesInRange } from "./drift-api";
+import { getMarketName } from "./drift-types";
+import type { DriftFundingPaymentRecord } from "./drift-types";
+import { valueFundingPayments, type ValuedPayment } from "../../shared/tax-export";
+import { CANDLE_PAGE_LIMIT } from "../../shared/candles";
+
+/**
+ * Fetch candles for the records' markets and value each payment, oldest first
+ */
+export async function fetchValuedPayments(
+  records: DriftFundingPaymentRecord[],
+  timeZone?: string
+): Promise<ValuedPayment[]> {
+  if (records.length === 0) return [];
+  const symbols = [...new Set(records.map((r) => getMarketName(r.marketIndex)))];
+  const oldestTs = records.reduce((min, r) => Math.min(min, r.ts), Infinity);
+  const newestTs = records.reduce((max, r) => Math.max(max, r.ts), -Infinity);
+  // One page of hourly candles, leaving room for the hour of padding on each side
+  const hourlyFromTs = Math.max(oldestTs, Math.floor(Date.now() / 1000) - (CANDLE_PAGE_LIMIT - 2) * 60 * 60);
+
+  const [hourlyCandles, dailyCandles] = await Promise.all([
+    newestTs >= hourlyFromTs
+      ? fetchMultipleCandlesInRange(symbols, "hour", hourlyFromTs, newestTs)
+      : Promise.resolve(new Map()),
+    fetchMultipleCandlesInRange(symbols, "day", oldestTs, newestTs),
+  ]);
+
+  return valueFundingPayments(records, hourlyCandles, dailyCandles, timeZone);
+}
@@ -0,0 +1,29 @@
+/**
+ * Same-origin API client for the PerpLens backend (/api/*).
+ */
+
+const API_BASE = "";
+
+/**
+ * GET a JSON endpoint. Throws with the server's message on non-2xx, or with
+ * unavailableMessage when the dev server answers with the SPA's index.html.
+ */
+export async function apiGet<T>(
+  path: string,
+  unavailableMessage = "API unavailable (server not running)"
+): Promise<T> {
+  const res = await fetch(`${API_BASE}${path}`);
+  const contentType = res.headers.get("content-type") ?? "";
+  const isJson = contentType.includes("application/json");
+  if (!isJson && contentType.includes("text/html")) {
+    throw new Error(unavailableMessage);
+  }
+  if (!res.ok) {
+    const body = isJson
+      ? await res.json().catch(() => ({}))
+      : { message: await res.text().catch(() => res.statusText) };
+    const msg = (body as { message?: string }).message ?? res.statusText;
+    throw new Error(msg);
+  }
+  return res.json();
+}
@@ -1,4 +1,6 @@
 import type { DriftFundingPaymentRecord, DailyCandleRecord } from "./drift-types";
+import { formatDateKey, getTodayKey } from "../../shared/timezone";
+import { getDisplayTimeZone } from "./display-timezone";
 
 /**
  * Cache key generators
@@ -329,13 +331,10 @@ export function getMissingDateRange(
 }
 
 /**
- * Format date to YYYY-MM-DD
+ * Format date to YYYY-MM-DD in the display timezone
  */
 export function formatDateYYYYMMDD(date: Date): string {
-  const year = date.getFullYear();
-  const month = (date.getMonth() + 1).toString().padStart(2, "0");
-  const day = date.getDate().toString().padStart(2, "0");
-  return `${year}-${month}-${day}`;
+  return formatDateKey(date.getTime() / 1000, getDisplayTimeZone());
 }
 
 /**
@@ -587,14 +586,10 @@ export function migrateOldCandleCaches(): void {
 }
 
 /**
- * Get today's date as YYYY-MM-DD
+ * Get today's date as YYYY-MM-DD in the display timezone
  */
 export function getTodayDateString(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = (now.getMonth() + 1).toString().padStart(2, "0");
-  const day = now.getDate().toString().padStart(2, "0");
-  return `${year}-${month}-${day}`;
+  return getTodayKey(getDisplayTimeZone());
 }
 
 /**
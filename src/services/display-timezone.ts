@@ -0,0 +1,78 @@
+/**
+ * Display timezone setting stored in localStorage
+ * "browser" follows the browser's local timezone; otherwise "UTC" or an IANA zone.
+ * One module-level value so the transformer, caches and charts all bucket days alike.
+ */
+
+import { isValidTimeZone } from "../../shared/timezone";
+
+const TIMEZONE_KEY = "drift:timezone";
+
+export const BROWSER_TIMEZONE = "browser";
+
+/** Zones offered in the picker besides browser and UTC (any IANA zone is accepted) */
+export const COMMON_TIMEZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Asia/Hong_Kong",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+function loadTimeZoneSetting(): string {
+  try {
+    const stored = localStorage.getItem(TIMEZONE_KEY);
+    if (stored && (stored === BROWSER_TIMEZONE || isValidTimeZone(stored))) {
+      return stored;
+    }
+  } catch (e) {
+    console.warn("Failed to load timezone:", e);
+  }
+  return BROWSER_TIMEZONE;
+}
+
+let setting = loadTimeZoneSetting();
+const listeners = new Set<() => void>();
+
+/**
+ * Listen for setting changes; returns the unsubscribe function
+ */
+export function subscribeTimeZone(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Raw setting: "browser", "UTC" or an IANA zone
+ */
+export function getTimeZoneSetting(): string {
+  return setting;
+}
+
+/**
+ * Change the display timezone ("browser", "UTC" or IANA); invalid zones are ignored
+ */
+export function setTimeZoneSetting(value: string) {
+  if (value !== BROWSER_TIMEZONE && !isValidTimeZone(value)) return;
+  setting = value;
+  try {
+    localStorage.setItem(TIMEZONE_KEY, value);
+  } catch (e) {
+    console.warn("Failed to save timezone:", e);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Timezone to pass to the shared date helpers: undefined for the browser's local zone
+ */
+export function getDisplayTimeZone(): string | undefined {
+  return setting === BROWSER_TIMEZONE ? undefined : setting;
+}
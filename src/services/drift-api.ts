@@ -7,6 +7,8 @@
 
 import type {
   DriftFundingPaymentsResponse,
+  DriftDepositRecordsResponse,
+  DriftTradeRecordsResponse,
   DailyCandleRecord,
   DailyCandlesResponse,
   DriftUserResponse,
@@ -24,6 +26,7 @@ import {
   shouldRefreshMonth,
   migrateOldCandleCaches,
 } from "./cache-utils";
+import { fetchCandleWindow, getCandleWindowUrl } from "../../shared/candles";
 
 // Run migration on module load
 migrateOldCandleCaches();
@@ -136,6 +139,76 @@ export async function fetchFundingPaymentsByMonth(
   return data;
 }
 
+/**
+ * Fetch deposit/withdrawal records for a user address (general endpoint, with pagination)
+ */
+export async function fetchDepositRecords(
+  userAddress: string,
+  nextPage?: string
+): Promise<DriftDepositRecordsResponse> {
+  const url = nextPage
+    ? `${DRIFT_API_BASE}/user/${userAddress}/deposits?page=${encodeURIComponent(
+        nextPage
+      )}`
+    : `${DRIFT_API_BASE}/user/${userAddress}/deposits`;
+
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (e) {
+    if (isRateLimitLike(e)) {
+      throw new Error(RATE_LIMIT_MESSAGE);
+    }
+    throw e;
+  }
+
+  if (response.status === 403) {
+    throw new Error(RATE_LIMIT_MESSAGE);
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Drift API error: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return await response.json();
+}
+
+/**
+ * Fetch trade/fill records for a user address (general endpoint, with pagination)
+ */
+export async function fetchTradeRecords(
+  userAddress: string,
+  nextPage?: string
+): Promise<DriftTradeRecordsResponse> {
+  const url = nextPage
+    ? `${DRIFT_API_BASE}/user/${userAddress}/trades?page=${encodeURIComponent(
+        nextPage
+      )}`
+    : `${DRIFT_API_BASE}/user/${userAddress}/trades`;
+
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (e) {
+    if (isRateLimitLike(e)) {
+      throw new Error(RATE_LIMIT_MESSAGE);
+    }
+    throw e;
+  }
+
+  if (response.status === 403) {
+    throw new Error(RATE_LIMIT_MESSAGE);
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Drift API error: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return await response.json();
+}
+
 /**
  * Fetch current market price from candles API
  * Returns the oracleClose from the latest 1-minute candle
@@ -359,6 +432,49 @@ export async function fetchMultipleDailyCandles(
   return resultMap;
 }
 
+/**
+ * Fetch candles covering [fromTs, toTs] for multiple markets (custom ranges)
+ * Windows inside the cached 48 hours / 366 days reuse the caches above; older ones are paged
+ * backwards from toTs, so a range from years ago gets its own candles. Pads the window by a
+ * day (an hour for hourly) so candles match buckets in any timezone.
+ */
+export async function fetchMultipleCandlesInRange(
+  symbols: string[],
+  resolution: "hour" | "day",
+  fromTs: number,
+  toTs: number
+): Promise<Map<string, DailyCandleRecord[]>> {
+  const now = Math.floor(Date.now() / 1000);
+  const pad = resolution === "hour" ? 60 * 60 : 24 * 60 * 60;
+  const cachedSeconds = resolution === "hour" ? 48 * 60 * 60 : 366 * 24 * 60 * 60;
+  if (fromTs - pad >= now - cachedSeconds) {
+    return resolution === "hour" ? fetchMultipleHourlyCandles(symbols) : fetchMultipleDailyCandles(symbols);
+  }
+
+  const resultMap = new Map<string, DailyCandleRecord[]>();
+  await Promise.all(
+    symbols.map(async (marketSymbol) => {
+      const symbol = marketSymbol.endsWith("-PERP") ? marketSymbol : `${marketSymbol}-PERP`;
+      const candleResolution = resolution === "hour" ? "60" : "D";
+      const window = await fetchCandleWindow(
+        async (startTs, endTs) => {
+          const response = await fetch(getCandleWindowUrl(DRIFT_API_BASE, symbol, candleResolution, startTs, endTs));
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const data: DailyCandlesResponse = await response.json();
+          return data.success && Array.isArray(data.records) ? data.records : [];
+        },
+        fromTs - pad,
+        Math.min(toTs + pad, now)
+      );
+      if (!window.isComplete) {
+        logOnce(`range-candles:${symbol}`, `Candles for ${symbol} don't cover the whole range`);
+      }
+      resultMap.set(marketSymbol, window.records);
+    })
+  );
+  return resultMap;
+}
+
 /**
  * Fetch user account state including positions, balances, and orders
  */
@@ -1,428 +1,13 @@
-import type { DriftFundingPaymentRecord, DailyCandleRecord } from "./drift-types";
-import type { StrategyResponse, DailyMetric, Position, DailyMarketBreakdown, StrategySide } from "../types/schema";
-import { getMarketName } from "./drift-types";
-
-export type Timeframe = "24H" | "7D" | "30D" | "3M" | "6M" | "1Y";
-
-interface MarketAggregation {
-  marketIndex: number;
-  totalFunding: number;
-  records: DriftFundingPaymentRecord[];
-  latestBaseAssetAmount: string;
-  latestTimestamp: number;
-  dailyFunding: Map<string, number>;  // Per-day funding for sparkline
-}
-
-interface HourlyAggregation {
-  hourKey: string;
-  totalFunding: number;
-  recordCount: number;
-  perMarketFunding: Map<number, number>; // marketIndex -> funding
-  perMarketBaseAsset: Map<number, number>; // marketIndex -> baseAssetAmount (absolute)
-}
-
-interface DailyRecordAggregation {
-  date: string;
-  totalFunding: number;
-  recordCount: number;
-  perMarketFunding: Map<number, number>; // marketIndex -> funding
-  perMarketBaseAsset: Map<number, number>; // marketIndex -> baseAssetAmount (absolute)
-}
-
 /**
- * Format unix timestamp to local date string (YYYY-MM-DD)
- */
-function formatLocalDate(timestamp: number): string {
-  const date = new Date(timestamp * 1000);
-  const year = date.getFullYear();
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const day = date.getDate().toString().padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
-
-/**
- * Format unix timestamp to local hour key (YYYY-MM-DDTHH)
- */
-function formatLocalHourKey(timestamp: number): string {
-  const date = new Date(timestamp * 1000);
-  const year = date.getFullYear();
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const day = date.getDate().toString().padStart(2, '0');
-  const hour = date.getHours().toString().padStart(2, '0');
-  return `${year}-${month}-${day}T${hour}`;
-}
-
-/**
- * Get today's date string in YYYY-MM-DD format
- */
-function getTodayDateString(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-  const day = now.getDate().toString().padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
-
-/**
- * Get oracle price for a specific date from candle data
- * Falls back to currentPrice for today's date if no candle is available
- */
-function getOraclePriceForDate(
-  candles: DailyCandleRecord[],
-  dateStr: string,
-  currentPrice?: number | null
-): number | null {
-  // Convert dateStr (YYYY-MM-DD) to start of day timestamp
-  const [year, month, day] = dateStr.split("-").map(Number);
-  const dateStart = new Date(year, month - 1, day).getTime() / 1000;
-  const dateEnd = dateStart + 24 * 60 * 60;
-
-  // Find candle that falls within this day
-  const candle = candles.find((c) => c.ts >= dateStart && c.ts < dateEnd);
-
-  if (candle) {
-    return candle.oracleClose;
-  }
-
-  // For today's date, use current price as fallback if no daily candle yet
-  if (currentPrice && dateStr === getTodayDateString()) {
-    return currentPrice;
-  }
-
-  return null;
-}
-
-/**
- * Get oracle price for a specific hour from hourly candle data
- * hourKey format: YYYY-MM-DDTHH
- * Uses a flexible matching approach to handle timezone differences
- */
-function getOraclePriceForHour(
-  candles: DailyCandleRecord[],
-  hourKey: string
-): number | null {
-  if (candles.length === 0) return null;
-
-  // Parse hourKey (YYYY-MM-DDTHH)
-  const [datePart, hourStr] = hourKey.split("T");
-  const [year, month, day] = datePart.split("-").map(Number);
-  const hour = parseInt(hourStr, 10);
-
-  const targetTs = new Date(year, month - 1, day, hour, 0, 0).getTime() / 1000;
-
-  // Find candle within +/- 1 hour of target, or use the closest one
-  let bestCandle = candles[0];
-  let bestDiff = Math.abs(candles[0].ts - targetTs);
-
-  for (const candle of candles) {
-    const diff = Math.abs(candle.ts - targetTs);
-    if (diff < bestDiff) {
-      bestDiff = diff;
-      bestCandle = candle;
-    }
-  }
-
-  // Only use if within 2 hours (to avoid using very old prices)
-  if (bestDiff <= 2 * 60 * 60) {
-    return bestCandle.oracleClose;
-  }
-
-  // Fallback: use the most recent candle price
-  const sortedCandles = [...candles].sort((a, b) => b.ts - a.ts);
-  return sortedCandles[0]?.oracleClose ?? null;
-}
-
-/**
- * Transform Drift API funding payment records into our StrategyResponse format
- * Optional candleData parameter enables notional/APY enrichment for daily metrics
- * Optional currentPrices parameter provides fallback prices for today's date
- */
-export function transformDriftDataToStrategy(
-  userAddress: string,
-  records: DriftFundingPaymentRecord[],
-  timeframe: Timeframe = "7D",
-  candleData?: Map<string, DailyCandleRecord[]>,
-  currentPrices?: Map<string, number>
-): StrategyResponse {
-  if (records.length === 0) {
-    // Return empty strategy if no records
-    return {
-      id: 1,
-      walletSubkey: userAddress,
-      totalFundingPnl: "0.00",
-      currentApy: "",
-      activeNotional: "",
-      updatedAt: new Date(),
-      dailyMetrics: [],
-      positions: [],
-    };
-  }
-
-  // Sort records by timestamp (newest first)
-  const sortedRecords = [...records].sort((a, b) => b.ts - a.ts);
-
-  // 1. Aggregate by market to get positions
-  const marketMap = new Map<number, MarketAggregation>();
-
-  for (const record of sortedRecords) {
-    const marketIndex = record.marketIndex;
-    if (!marketMap.has(marketIndex)) {
-      marketMap.set(marketIndex, {
-        marketIndex,
-        totalFunding: 0,
-        records: [],
-        latestBaseAssetAmount: record.baseAssetAmount,
-        latestTimestamp: record.ts,
-        dailyFunding: new Map<string, number>(),
-      });
-    }
-
-    const marketAgg = marketMap.get(marketIndex)!;
-    const fundingAmount = parseFloat(record.fundingPayment);
-    marketAgg.totalFunding += fundingAmount;
-    marketAgg.records.push(record);
-
-    // Track daily funding for this market
-    const dateKey = formatLocalDate(record.ts);
-    const currentDayFunding = marketAgg.dailyFunding.get(dateKey) || 0;
-    marketAgg.dailyFunding.set(dateKey, currentDayFunding + fundingAmount);
-
-    // Update latest position size if this record is newer
-    if (record.ts > marketAgg.latestTimestamp) {
-      marketAgg.latestTimestamp = record.ts;
-      marketAgg.latestBaseAssetAmount = record.baseAssetAmount;
-    }
-  }
-
-  // 2. Create positions from market aggregations
-  const positions: Position[] = Array.from(marketMap.values()).map(
-    (marketAgg, index) => {
-      const rawBaseAsset = parseFloat(marketAgg.latestBaseAssetAmount);
-      const baseAsset = Math.abs(rawBaseAsset);
-      const fundingEarned = marketAgg.totalFunding;
-      const strategySide: StrategySide = rawBaseAsset < 0
-        ? "Short Perp + Long Spot"
-        : "Long Perp + Short Spot";
-
-      // Build per-market daily metrics for sparkline
-      const sortedDays = Array.from(marketAgg.dailyFunding.entries())
-        .sort(([a], [b]) => a.localeCompare(b));
-
-      let cumulativePnl = 0;
-      const marketDailyMetrics: DailyMetric[] = sortedDays.map(([date, dailyFunding], idx) => {
-        cumulativePnl += dailyFunding;
-        return {
-          id: idx + 1,
-          strategyId: 1,
-          date: new Date(date),
-          dailyPnl: dailyFunding.toFixed(2),
-          dailyFunding: dailyFunding.toFixed(2),
-          cumulativePnl: cumulativePnl.toFixed(2),
-        };
-      });
-
-      return {
-        id: index + 1,
-        strategyId: 1,
-        pairName: getMarketName(marketAgg.marketIndex),
-        hedgeType: "Cash & Carry",
-        strategySide,
-        notionalSize: baseAsset.toFixed(2),
-        notionalValue: "0.00", // Will be calculated in useStrategy after fetching prices
-        netPnl: fundingEarned.toFixed(2),
-        fundingEarned: fundingEarned.toFixed(2),
-        roi: baseAsset > 0 ? ((fundingEarned / baseAsset) * 100).toFixed(2) : "0.00",
-        status: baseAsset > 0 ? "Open" : "Closed",
-        longEntryPrice: "0.00", // Not available from funding payment data
-        shortEntryPrice: "0.00", // Not available from funding payment data
-        currentPrice: "0.00", // Will be fetched from candles API
-        marketDailyMetrics,
-      };
-    }
-  );
-
-  // 3. Aggregate by day or by hour (using LOCAL timezone)
-  const is24H = timeframe === "24H";
-  let dailyMetrics: DailyMetric[];
-
-  if (is24H) {
-    const hourlyMap = new Map<string, HourlyAggregation>();
-    for (const record of records) {
-      const hourKey = formatLocalHourKey(record.ts);
-      if (!hourlyMap.has(hourKey)) {
-        hourlyMap.set(hourKey, {
-          hourKey,
-          totalFunding: 0,
-          recordCount: 0,
-          perMarketFunding: new Map(),
-          perMarketBaseAsset: new Map(),
-        });
-      }
-      const agg = hourlyMap.get(hourKey)!;
-      const funding = parseFloat(record.fundingPayment);
-      const baseAsset = Math.abs(parseFloat(record.baseAssetAmount));
-
-      agg.totalFunding += funding;
-      agg.recordCount++;
-
-      // Aggregate per-market data
-      const currentFunding = agg.perMarketFunding.get(record.marketIndex) || 0;
-      agg.perMarketFunding.set(record.marketIndex, currentFunding + funding);
-
-      // Keep the latest base asset amount for each market in this hour
-      agg.perMarketBaseAsset.set(record.marketIndex, baseAsset);
-    }
-    const sortedHours = Array.from(hourlyMap.entries())
-      .sort(([a], [b]) => a.localeCompare(b));
-    let cumulativePnl = 0;
-    dailyMetrics = sortedHours.map(([hourKey, agg], index) => {
-      cumulativePnl += agg.totalFunding;
-
-      const metric: DailyMetric = {
-        id: index + 1,
-        strategyId: 1,
-        date: new Date(hourKey + ":00:00"),
-        dailyPnl: agg.totalFunding.toFixed(2),
-        dailyFunding: agg.totalFunding.toFixed(2),
-        cumulativePnl: cumulativePnl.toFixed(2),
-      };
-
-      // Enrich with notional/APY if hourly candle data is provided
-      if (candleData && candleData.size > 0) {
-        let totalNotional = 0;
-        const breakdowns: DailyMarketBreakdown[] = [];
-
-        for (const [marketIndex, marketFunding] of agg.perMarketFunding) {
-          const marketName = getMarketName(marketIndex);
-          const baseAsset = agg.perMarketBaseAsset.get(marketIndex) || 0;
-          const candles = candleData.get(marketName);
-          const price = candles ? getOraclePriceForHour(candles, hourKey) : null;
-
-          if (price !== null && baseAsset > 0) {
-            const notional = baseAsset * price;
-            totalNotional += notional;
-            // For hourly, APY = hourly ROI * 24 * 365
-            const hourlyRoi = notional > 0 ? (marketFunding / notional) * 100 : 0;
-            const apy = hourlyRoi * 24 * 365;
-
-            breakdowns.push({
-              marketIndex,
-              marketName,
-              dailyFunding: marketFunding,
-              notionalValue: notional,
-              apy,
-            });
-          }
-        }
-
-        if (totalNotional > 0) {
-          metric.notionalValue = totalNotional.toFixed(2);
-          const hourlyRoi = (agg.totalFunding / totalNotional) * 100;
-          const portfolioApy = hourlyRoi * 24 * 365;
-          metric.portfolioApy = portfolioApy.toFixed(2);
-          metric.perMarketBreakdown = breakdowns;
-        }
-      }
-
-      return metric;
-    });
-  } else {
-    const dailyMap = new Map<string, DailyRecordAggregation>();
-    for (const record of records) {
-      const date = formatLocalDate(record.ts);
-      if (!dailyMap.has(date)) {
-        dailyMap.set(date, {
-          date,
-          totalFunding: 0,
-          recordCount: 0,
-          perMarketFunding: new Map(),
-          perMarketBaseAsset: new Map(),
-        });
-      }
-      const dailyAgg = dailyMap.get(date)!;
-      const funding = parseFloat(record.fundingPayment);
-      const baseAsset = Math.abs(parseFloat(record.baseAssetAmount));
-
-      dailyAgg.totalFunding += funding;
-      dailyAgg.recordCount++;
-
-      // Aggregate per-market data
-      const currentFunding = dailyAgg.perMarketFunding.get(record.marketIndex) || 0;
-      dailyAgg.perMarketFunding.set(record.marketIndex, currentFunding + funding);
-
-      // Keep the latest base asset amount for each market on this day
-      dailyAgg.perMarketBaseAsset.set(record.marketIndex, baseAsset);
-    }
-    const sortedDays = Array.from(dailyMap.entries())
-      .sort(([dateA], [dateB]) => dateA.localeCompare(dateB));
-    let cumulativePnl = 0;
-    dailyMetrics = sortedDays.map(([date, dailyAgg], index) => {
-      cumulativePnl += dailyAgg.totalFunding;
-
-      const metric: DailyMetric = {
-        id: index + 1,
-        strategyId: 1,
-        date: new Date(date),
-        dailyPnl: dailyAgg.totalFunding.toFixed(2),
-        dailyFunding: dailyAgg.totalFunding.toFixed(2),
-        cumulativePnl: cumulativePnl.toFixed(2),
-      };
-
-      // Enrich with notional/APY if candle data is provided
-      if (candleData && candleData.size > 0) {
-        let totalNotional = 0;
-        const breakdowns: DailyMarketBreakdown[] = [];
-
-        for (const [marketIndex, marketFunding] of dailyAgg.perMarketFunding) {
-          const marketName = getMarketName(marketIndex);
-          const baseAsset = dailyAgg.perMarketBaseAsset.get(marketIndex) || 0;
-          const candles = candleData.get(marketName);
-          const currentPrice = currentPrices?.get(marketName) ?? null;
-          const price = candles ? getOraclePriceForDate(candles, date, currentPrice) : currentPrice;
-
-          if (price !== null && baseAsset > 0) {
-            const notional = baseAsset * price;
-            totalNotional += notional;
-            const dailyRoi = notional > 0 ? (marketFunding / notional) * 100 : 0;
-            const apy = dailyRoi * 365;
-
-            breakdowns.push({
-              marketIndex,
-              marketName,
-              dailyFunding: marketFunding,
-              notionalValue: notional,
-              apy,
-            });
-          }
-        }
-
-        if (totalNotional > 0) {
-          metric.notionalValue = totalNotional.toFixed(2);
-          const dailyRoi = (dailyAgg.totalFunding / totalNotional) * 100;
-          const portfolioApy = dailyRoi * 365;
-          metric.portfolioApy = portfolioApy.toFixed(2);
-          metric.perMarketBreakdown = breakdowns;
-        }
-      }
-
-      return metric;
-    });
-  }
-
-  // 5. Calculate total funding PnL
-  const totalFundingPnl = records.reduce(
-    (sum, record) => sum + parseFloat(record.fundingPayment),
-    0
-  );
-
-  return {
-    id: 1,
-    walletSubkey: userAddress,
-    totalFundingPnl: totalFundingPnl.toFixed(2),
-    currentApy: "", // Leave empty as requested
-    activeNotional: "", // Leave empty as requested
-    updatedAt: new Date(),
-    dailyMetrics,
-    positions,
-  };
-}
+ * Strategy transformer — re-exported from shared
+ */
+export {
+  transformDriftDataToStrategy,
+  enrichPositionsWithPrices,
+} from "../../shared/strategy-transformer";
+export type {
+  Timeframe,
+  Resolution,
+  TransformOptions,
+  EnrichedPositionData,
+} from "../../shared/strategy-transformer";
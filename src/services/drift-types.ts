@@ -1,28 +1,26 @@
 /**
  * Drift API response types — re-exported from shared
  */
-export type { DriftFundingPaymentRecord, DriftFundingPaymentsResponse } from "../../shared/drift-types";
+export type {
+  DriftFundingPaymentRecord,
+  DriftFundingPaymentsResponse,
+  DailyCandleRecord,
+  DailyCandlesResponse,
+  DriftDepositRecord,
+  DriftDepositRecordsResponse,
+  DriftTradeRecord,
+  DriftTradeRecordsResponse,
+} from "../../shared/drift-types";
 
 /**
  * Market names — re-exported from shared
  */
-export { DRIFT_MARKET_NAMES, getMarketName } from "../../shared/market-names";
-
-/**
- * Daily candle record from Drift API
- */
-export interface DailyCandleRecord {
-  ts: number;
-  oracleClose: number;
-  oracleOpen: number;
-  oracleHigh: number;
-  oracleLow: number;
-}
-
-export interface DailyCandlesResponse {
-  success: boolean;
-  records: DailyCandleRecord[];
-}
+export {
+  DRIFT_MARKET_NAMES,
+  getMarketName,
+  DRIFT_SPOT_MARKET_NAMES,
+  getSpotMarketName,
+} from "../../shared/market-names";
 
 /**
  * User account state types from Drift API
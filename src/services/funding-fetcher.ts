@@ -4,7 +4,7 @@
  */
 
 import type { DriftFundingPaymentRecord } from "./drift-types";
-import type { Timeframe, LoadingProgress } from "@/types/loading-types";
+import type { Timeframe, DateRange, LoadingProgress } from "@/types/loading-types";
 import { getTimeframeDays } from "@/types/loading-types";
 import { fetchFundingPayments, fetchFundingPaymentsByMonth } from "./drift-api";
 import {
@@ -263,16 +263,29 @@ export async function fetchExtendedTimeframe(
   timeframe: Timeframe,
   callbacks: Omit<FetchCallbacks, "onMilestone">,
   signal?: AbortSignal
+): Promise<DriftFundingPaymentRecord[]> {
+  const now = Math.floor(Date.now() / 1000);
+  const range = { fromTs: now - getTimeframeDays(timeframe) * 24 * 60 * 60, toTs: now + 1 };
+  return fetchDateRange(wallet, range, callbacks, signal);
+}
+
+/**
+ * Fetch an arbitrary from/to range
+ * Loads only the calendar months the range touches, via the monthly endpoint with caching
+ */
+export async function fetchDateRange(
+  wallet: string,
+  range: DateRange,
+  callbacks: Omit<FetchCallbacks, "onMilestone">,
+  signal?: AbortSignal
 ): Promise<DriftFundingPaymentRecord[]> {
   const { onRecords, onProgress, onComplete, onError } = callbacks;
-  const days = getTimeframeDays(timeframe);
 
   try {
-    // Get months to fetch
-    const now = new Date();
-    const startDate = new Date(now);
-    startDate.setDate(startDate.getDate() - days);
-    const months = getMonthsInRange(startDate, now);
+    // Get months to fetch (nothing after now exists yet)
+    const startDate = new Date(range.fromTs * 1000);
+    const endDate = new Date(Math.min(range.toTs * 1000, Date.now()));
+    const months = getMonthsInRange(startDate, endDate);
     const monthsReversed = [...months].reverse();
     const totalMonths = monthsReversed.length;
 
@@ -357,8 +370,7 @@ export async function fetchExtendedTimeframe(
     }
 
     // Filter and sort
-    const cutoffTs = Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
-    const filteredRecords = allRecords.filter((r) => r.ts >= cutoffTs);
+    const filteredRecords = allRecords.filter((r) => r.ts >= range.fromTs && r.ts < range.toTs);
     const deduplicated = deduplicateRecords(filteredRecords);
     deduplicated.sort((a, b) => b.ts - a.ts);
 
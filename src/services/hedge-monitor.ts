@@ -0,0 +1,103 @@
+/**
+ * Hedge ratio and net delta per market from live account state
+ * Matches each perp position against the spot balance of its mapped asset
+ * (1MBONK-PERP ↔ BONK, BTC-PERP ↔ wBTC, ...)
+ */
+
+import {
+  getPerpBaseMultiplier,
+  getSpotSymbolForPerp,
+} from "../../shared/perp-spot-mapping";
+import { STABLE_SYMBOLS } from "../../shared/market-names";
+import type { DriftUserResponse } from "./drift-types";
+
+export type HedgeStatus = "hedged" | "under-hedged" | "over-hedged" | "unhedged";
+
+export interface MarketDelta {
+  perpSymbol: string | null; // null for a spot balance with no perp
+  spotSymbol: string;
+  perpTokens: number; // perp base converted to spot tokens (signed)
+  spotTokens: number; // signed, negative for borrows
+  hedgeRatio: number | null; // spot offsetting the perp (1 = fully hedged); null without a perp
+  netDeltaTokens: number;
+  netDeltaUsd: number;
+  price: number; // spot token price
+  status: HedgeStatus;
+}
+
+/** Hedge ratio within 1 ± tolerance counts as hedged */
+export const HEDGE_TOLERANCE = 0.05;
+
+/** Spot-only balances below this USD value are ignored (dust) */
+const MIN_SPOT_ONLY_USD = 1;
+
+export function getHedgeStatus(hedgeRatio: number | null): HedgeStatus {
+  if (hedgeRatio === null || hedgeRatio <= 0) return "unhedged";
+  if (hedgeRatio < 1 - HEDGE_TOLERANCE) return "under-hedged";
+  if (hedgeRatio > 1 + HEDGE_TOLERANCE) return "over-hedged";
+  return "hedged";
+}
+
+/**
+ * Per-market deltas, largest absolute USD exposure first
+ */
+export function calculateMarketDeltas(userState: DriftUserResponse): MarketDelta[] {
+  const spotBySymbol = new Map(
+    userState.spotBalances.map((b) => [b.symbol.toUpperCase(), b])
+  );
+  const matchedSpot = new Set<string>();
+  const deltas: MarketDelta[] = [];
+
+  for (const perp of userState.perpPositions) {
+    const baseAmount = Number(perp.baseAssetAmount) || 0;
+    if (baseAmount === 0) continue;
+
+    const multiplier = getPerpBaseMultiplier(perp.symbol);
+    const spotSymbol = getSpotSymbolForPerp(perp.symbol);
+    const spot = spotBySymbol.get(spotSymbol.toUpperCase());
+    if (spot) matchedSpot.add(spot.symbol.toUpperCase());
+
+    const perpTokens = baseAmount * multiplier;
+    const spotTokens = spot ? Number(spot.tokenAmount) || 0 : 0;
+    const price = spot && Number(spot.oraclePrice) > 0
+      ? Number(spot.oraclePrice)
+      : (Number(perp.oraclePrice) || 0) / multiplier;
+    const hedgeRatio = -spotTokens / perpTokens;
+    const netDeltaTokens = perpTokens + spotTokens;
+
+    deltas.push({
+      perpSymbol: perp.symbol,
+      spotSymbol,
+      perpTokens,
+      spotTokens,
+      hedgeRatio,
+      netDeltaTokens,
+      netDeltaUsd: netDeltaTokens * price,
+      price,
+      status: getHedgeStatus(hedgeRatio),
+    });
+  }
+
+  // Spot exposure with no perp leg at all
+  for (const spot of userState.spotBalances) {
+    const symbol = spot.symbol.toUpperCase();
+    if (matchedSpot.has(symbol) || STABLE_SYMBOLS.has(symbol)) continue;
+    const spotTokens = Number(spot.tokenAmount) || 0;
+    const price = Number(spot.oraclePrice) || 0;
+    if (Math.abs(spotTokens * price) < MIN_SPOT_ONLY_USD) continue;
+
+    deltas.push({
+      perpSymbol: null,
+      spotSymbol: spot.symbol,
+      perpTokens: 0,
+      spotTokens,
+      hedgeRatio: null,
+      netDeltaTokens: spotTokens,
+      netDeltaUsd: spotTokens * price,
+      price,
+      status: "unhedged",
+    });
+  }
+
+  return deltas.sort((a, b) => Math.abs(b.netDeltaUsd) - Math.abs(a.netDeltaUsd));
+}
@@ -0,0 +1,56 @@
+/**
+ * Mark-to-market PnL per position from live account state
+ * The perp leg's unrealized PnL comes straight from the account; the offsetting
+ * spot leg is valued on the hedged part of its balance against the spot entry
+ * (VWAP from fills, otherwise the perp entry on the assumption both legs opened together)
+ */
+
+import {
+  getPerpBaseMultiplier,
+  getPerpBaseSymbol,
+  getSpotSymbolForPerp,
+} from "../../shared/perp-spot-mapping";
+import type { Position } from "@/types/schema";
+import type { DriftUserResponse } from "./drift-types";
+
+/**
+ * Positions with unrealizedPnl and spotLegPnl set where the account holds the perp leg
+ */
+export function applyLivePnl(positions: Position[], userState: DriftUserResponse): Position[] {
+  const perpByBase = new Map(
+    userState.perpPositions.map((p) => [getPerpBaseSymbol(p.symbol).toUpperCase(), p])
+  );
+  const spotBySymbol = new Map(
+    userState.spotBalances.map((b) => [b.symbol.toUpperCase(), b])
+  );
+
+  return positions.map((pos) => {
+    const perp = perpByBase.get(getPerpBaseSymbol(pos.pairName).toUpperCase());
+    if (!perp || Number(perp.baseAssetAmount) === 0) return pos;
+
+    const unrealizedPnl = Number(perp.unrealizedPnl) || 0;
+    const spot = spotBySymbol.get(getSpotSymbolForPerp(pos.pairName).toUpperCase());
+    const multiplier = getPerpBaseMultiplier(pos.pairName);
+    const perpTokens = (Number(perp.baseAssetAmount) || 0) * multiplier;
+    const spotTokens = spot ? Number(spot.tokenAmount) || 0 : 0;
+
+    let spotLegPnl = 0;
+    // Only the part of the spot balance offsetting the perp counts towards the strategy
+    if (spot && spotTokens !== 0 && Math.sign(spotTokens) !== Math.sign(perpTokens)) {
+      const hedgedTokens = Math.sign(spotTokens) * Math.min(Math.abs(spotTokens), Math.abs(perpTokens));
+      const fillsEntry = Number(perpTokens < 0 ? pos.longEntryPrice : pos.shortEntryPrice);
+      const spotEntry = fillsEntry > 0 ? fillsEntry : (Number(perp.entryPrice) || 0) / multiplier;
+      const spotPrice = Number(spot.oraclePrice) || 0;
+      if (spotEntry > 0 && spotPrice > 0) {
+        spotLegPnl = hedgedTokens * (spotPrice - spotEntry);
+      }
+    }
+
+    return {
+      ...pos,
+      unrealizedPnl: unrealizedPnl.toFixed(2),
+      unsettledPnl: (Number(perp.unsettledPnl) || 0).toFixed(2),
+      spotLegPnl: spotLegPnl.toFixed(2),
+    };
+  });
+}
@@ -0,0 +1,216 @@
+/**
+ * Liquidation distance and price-shock scenarios from live account state
+ * The maintenance requirement comes from the account's health (health = 1 − requirement /
+ * collateral) and is split over perp notional and spot borrows, growing with their price.
+ * Price moves reach collateral in full for perp PnL and through approximate maintenance
+ * weights for spot, so a "hedged" short perp + long spot still loses collateral on a pump.
+ * Assets that track one price (SOL and its LSTs, wrapped BTCs) move together in every estimate.
+ */
+
+import { getSpotSymbolForPerp } from "../../shared/perp-spot-mapping";
+import { STABLE_SYMBOLS } from "../../shared/market-names";
+import type { DriftUserResponse } from "./drift-types";
+
+/** Assets Drift weights like SOL (maintenance asset weight ~0.9, liability weight ~1.1) */
+const MAJOR_ASSETS = new Set(["SOL", "WBTC", "CBBTC", "WETH", "JITOSOL", "MSOL", "BSOL", "JUPSOL", "DSOL", "INF"]);
+
+/**
+ * Approximate maintenance weights; Drift sets them per spot market on-chain, and the
+ * Data API doesn't return them
+ */
+function getMaintenanceWeight(asset: string, isBorrow: boolean): number {
+  if (STABLE_SYMBOLS.has(asset)) return 1;
+  if (MAJOR_ASSETS.has(asset)) return isBorrow ? 1.1 : 0.9;
+  return isBorrow ? 1.2 : 0.8;
+}
+
+export interface StressLeg {
+  kind: "perp" | "spot";
+  symbol: string;               // Market symbol ("SOL-PERP", "SOL")
+  asset: string;                // Underlying spot asset, upper case ("SOL", "WBTC", "BONK")
+  price: number;                // Oracle price of the market
+  exposureUsd: number;          // Signed USD exposure to the asset's price
+  collateralWeight: number;     // Share of a price move that reaches collateral
+  requirementUsd: number;       // Share of the maintenance requirement, scales with price
+}
+
+export interface MarginModel {
+  collateral: number;
+  requirement: number;
+  legs: StressLeg[];
+}
+
+export interface StressResult {
+  collateral: number;
+  requirement: number;
+  health: number;               // 0-100, 0 = liquidatable
+}
+
+export interface LiquidationEstimate {
+  symbol: string;
+  side: "long" | "short";
+  baseAmount: number;
+  price: number;
+  liquidationPrice: number | null;  // null: no price of this asset alone liquidates
+  distance: number | null;          // Fractional price move to liquidation (+0.25 = 25% pump)
+}
+
+/** Fractional price change per leg */
+export type Shock = (leg: StressLeg) => number;
+
+export interface StressScenario {
+  id: string;
+  label: string;
+  description: string;
+  shock: Shock;
+}
+
+const isStable = (asset: string) => STABLE_SYMBOLS.has(asset);
+const isSolAsset = (asset: string) => asset === "SOL" || (asset.endsWith("SOL") && MAJOR_ASSETS.has(asset));
+
+/** Price an asset moves with: SOL for SOL LSTs (JITOSOL, MSOL, ...), BTC for wrapped BTC, else itself */
+function getPriceGroup(asset: string): string {
+  if (isSolAsset(asset)) return "SOL";
+  if (asset === "WBTC" || asset === "CBBTC") return "BTC";
+  return asset;
+}
+
+/**
+ * Legs and the current maintenance requirement, or null without perp positions or borrows
+ * The account's marginRatio isn't used: it is collateral over liabilities, while liquidation
+ * compares collateral with the maintenance requirement, which only health carries.
+ */
+export function buildMarginModel(userState: DriftUserResponse): MarginModel | null {
+  const collateral = Number(userState.account.totalCollateral) || 0;
+  const health = Math.min(Math.max(Number(userState.account.health) || 0, 0), 100);
+  const requirement = collateral * (1 - health / 100);
+
+  const legs: Omit<StressLeg, "requirementUsd">[] = [];
+  const margined: number[] = [];  // Notional backing the requirement, per leg
+  for (const perp of userState.perpPositions) {
+    const baseAmount = Number(perp.baseAssetAmount) || 0;
+    const price = Number(perp.oraclePrice) || 0;
+    if (baseAmount === 0 || price === 0) continue;
+    legs.push({
+      kind: "perp",
+      symbol: perp.symbol,
+      asset: getSpotSymbolForPerp(perp.symbol).toUpperCase(),
+      price,
+      exposureUsd: baseAmount * price,
+      collateralWeight: 1,
+    });
+    margined.push(Math.abs(baseAmount * price));
+  }
+  for (const spot of userState.spotBalances) {
+    const tokens = Number(spot.tokenAmount) || 0;
+    const price = Number(spot.oraclePrice) || 0;
+    if (tokens === 0 || price === 0) continue;
+    const asset = spot.symbol.toUpperCase();
+    legs.push({
+      kind: "spot",
+      symbol: spot.symbol,
+      asset,
+      price,
+      exposureUsd: tokens * price,
+      collateralWeight: getMaintenanceWeight(asset, tokens < 0),
+    });
+    margined.push(tokens < 0 ? Math.abs(tokens * price) : 0);
+  }
+
+  const totalMargined = margined.reduce((sum, n) => sum + n, 0);
+  if (totalMargined === 0) return null;
+  return {
+    collateral,
+    requirement,
+    legs: legs.map((leg, i) => ({ ...leg, requirementUsd: (requirement * margined[i]) / totalMargined })),
+  };
+}
+
+const getHealth = (collateral: number, requirement: number) =>
+  collateral <= 0 ? 0 : Math.min(Math.max(100 * (1 - requirement / collateral), 0), 100);
+
+/**
+ * Collateral, requirement and health after a price shock
+ */
+export function applyShock(model: MarginModel, shock: Shock): StressResult {
+  let collateral = model.collateral;
+  let requirement = 0;
+  for (const leg of model.legs) {
+    const change = shock(leg);
+    collateral += leg.exposureUsd * leg.collateralWeight * change;
+    requirement += leg.requirementUsd * (1 + change);
+  }
+  return { collateral, requirement, health: getHealth(collateral, requirement) };
+}
+
+/** Price groups of the model's legs, sorted (the assets a custom shock can move) */
+export const getPriceGroups = (model: MarginModel): string[] =>
+  Array.from(new Set(model.legs.map((leg) => getPriceGroup(leg.asset)))).sort();
+
+/** Same price move for every leg in an asset's price group (perp and spot, LSTs with SOL) */
+export const assetShock = (asset: string, change: number): Shock => {
+  const group = getPriceGroup(asset.toUpperCase());
+  return (leg) => (getPriceGroup(leg.asset) === group ? change : 0);
+};
+
+/**
+ * Price of each perp position's asset (perp and spot legs in its price group moving together,
+ * other assets unchanged) at which collateral meets the requirement
+ */
+export function estimateLiquidationPrices(model: MarginModel): LiquidationEstimate[] {
+  const buffer = model.collateral - model.requirement;
+  return model.legs
+    .filter((leg) => leg.kind === "perp")
+    .map((perp): LiquidationEstimate => {
+      const group = getPriceGroup(perp.asset);
+      const assetLegs = model.legs.filter((leg) => getPriceGroup(leg.asset) === group);
+      const collateralSlope = assetLegs.reduce((sum, leg) => sum + leg.exposureUsd * leg.collateralWeight, 0);
+      const requirementSlope = assetLegs.reduce((sum, leg) => sum + leg.requirementUsd, 0);
+      // collateral + s·collateralSlope = requirement + s·requirementSlope
+      const slope = requirementSlope - collateralSlope;
+      const distance = buffer <= 0 ? 0 : slope !== 0 ? buffer / slope : null;
+      const valid = distance !== null && distance > -1;
+      return {
+        symbol: perp.symbol,
+        side: perp.exposureUsd < 0 ? "short" : "long",
+        baseAmount: perp.exposureUsd / perp.price,
+        price: perp.price,
+        liquidationPrice: valid ? perp.price * (1 + distance) : null,
+        distance: valid ? distance : null,
+      };
+    })
+    .sort((a, b) => Math.abs(a.distance ?? Infinity) - Math.abs(b.distance ?? Infinity));
+}
+
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    id: "sol-up-30",
+    label: "SOL +30%",
+    description: "SOL and SOL LSTs pump 30%",
+    shock: (leg) => (getPriceGroup(leg.asset) === "SOL" ? 0.3 : 0),
+  },
+  {
+    id: "sol-down-30",
+    label: "SOL −30%",
+    description: "SOL and SOL LSTs drop 30%",
+    shock: (leg) => (getPriceGroup(leg.asset) === "SOL" ? -0.3 : 0),
+  },
+  {
+    id: "all-up-20",
+    label: "All assets +20%",
+    description: "Every non-stable asset pumps 20%",
+    shock: (leg) => (isStable(leg.asset) ? 0 : 0.2),
+  },
+  {
+    id: "all-down-20",
+    label: "All assets −20%",
+    description: "Every non-stable asset drops 20%",
+    shock: (leg) => (isStable(leg.asset) ? 0 : -0.2),
+  },
+  {
+    id: "spot-depeg-10",
+    label: "Spot collateral depeg −10%",
+    description: "Non-stable spot deposits lose 10% while perps hold (LST or wrapped asset depeg)",
+    shock: (leg) => (leg.kind === "spot" && leg.exposureUsd > 0 && !isStable(leg.asset) ? -0.1 : 0),
+  },
+];
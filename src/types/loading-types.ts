@@ -2,11 +2,22 @@
  * Loading state machine types for timeframe data fetching
  */
 
-export type Timeframe = "24H" | "7D" | "30D" | "3M" | "6M" | "1Y";
+import type { Timeframe } from "../../shared/timeframe";
+import { EXTENDED_TIMEFRAMES } from "../../shared/timeframe";
 
-export const ALL_TIMEFRAMES: Timeframe[] = ["24H", "7D", "30D", "3M", "6M", "1Y"];
-
-export const EXTENDED_TIMEFRAMES: Timeframe[] = ["3M", "6M", "1Y"];
+/**
+ * Timeframe types — re-exported from shared
+ */
+export type { Timeframe };
+export type { DateRange } from "../../shared/timeframe";
+export {
+  ALL_TIMEFRAMES,
+  EXTENDED_TIMEFRAMES,
+  getTimeframeDays,
+  getRangeDays,
+  getRangeTimeframe,
+  getMonthRange,
+} from "../../shared/timeframe";
 
 /**
  * Loading phases for the state machine
@@ -57,20 +68,6 @@ export interface TimeframeButtonState {
   isSelected: boolean;
 }
 
-/**
- * Get timeframe duration in days
- */
-export function getTimeframeDays(timeframe: Timeframe): number {
-  switch (timeframe) {
-    case "24H": return 1;
-    case "7D": return 7;
-    case "30D": return 30;
-    case "3M": return 90;
-    case "6M": return 180;
-    case "1Y": return 365;
-  }
-}
-
 /**
  * Check if timeframe requires extended data loading (>30 days)
  */
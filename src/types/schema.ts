@@ -6,6 +6,11 @@ export type {
   DailyMarketBreakdown,
   DailyMetric,
   StrategySide,
+  PositionAccountBreakdown,
+  AccountStrategy,
   Position,
   StrategyResponse,
+  TradeFill,
+  MarketComparison,
+  PreviousPeriod,
 } from "../../shared/schema";